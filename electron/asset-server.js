@@ -0,0 +1,161 @@
+const http = require('http');
+const fs = require('fs');
+const path = require('path');
+
+const DEFAULT_ASSET_HOST = '127.0.0.1';
+const DEFAULT_ASSET_PORT = 9104;
+// how many ports above the preferred one to try before letting the OS pick
+const PORT_FALLBACK_RANGE = 10;
+
+const MIME_TYPES = {
+  '.svg': 'image/svg+xml',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.webp': 'image/webp',
+  '.gif': 'image/gif',
+  '.ico': 'image/x-icon',
+  '.json': 'application/json; charset=utf-8',
+  '.js': 'text/javascript; charset=utf-8',
+  '.css': 'text/css; charset=utf-8',
+  '.html': 'text/html; charset=utf-8',
+  '.txt': 'text/plain; charset=utf-8',
+};
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, HEAD, OPTIONS',
+  'Access-Control-Allow-Headers': '*',
+};
+
+// Logos rarely change; let graphics engines cache them but revalidate daily.
+const CACHE_CONTROL = 'public, max-age=86400';
+
+// Map "/assets/..." onto the first root directory that contains the file.
+// Roots that do not exist (e.g. build/ in development) are skipped at lookup time.
+function resolveAssetFile(roots, urlPath) {
+  let decoded;
+  try {
+    decoded = decodeURIComponent(urlPath);
+  } catch (e) {
+    return null;
+  }
+  if (!decoded.startsWith('/assets/')) return null;
+  const relative = decoded.substring('/assets/'.length);
+  if (!relative || relative.includes('\0')) return null;
+
+  for (const root of roots) {
+    const resolvedRoot = path.resolve(root);
+    const candidate = path.resolve(resolvedRoot, relative);
+    // refuse anything that escapes the root (../ tricks)
+    if (!candidate.startsWith(resolvedRoot + path.sep)) continue;
+    try {
+      const stat = fs.statSync(candidate);
+      if (stat.isFile()) return { filePath: candidate, stat };
+    } catch (e) {}
+  }
+  return null;
+}
+
+function createRequestHandler(roots) {
+  return (req, res) => {
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204, { ...CORS_HEADERS, 'Access-Control-Max-Age': '86400' });
+      res.end();
+      return;
+    }
+    if (req.method !== 'GET' && req.method !== 'HEAD') {
+      res.writeHead(405, { ...CORS_HEADERS, Allow: 'GET, HEAD, OPTIONS' });
+      res.end();
+      return;
+    }
+
+    const urlPath = (req.url || '/').split('?')[0];
+    const found = resolveAssetFile(roots, urlPath);
+    if (!found) {
+      res.writeHead(404, { ...CORS_HEADERS, 'Content-Type': 'text/plain; charset=utf-8' });
+      res.end('Not found');
+      return;
+    }
+
+    const { filePath, stat } = found;
+    const etag = `W/"${stat.size.toString(16)}-${Math.floor(stat.mtimeMs).toString(16)}"`;
+    const headers = {
+      ...CORS_HEADERS,
+      'Content-Type': MIME_TYPES[path.extname(filePath).toLowerCase()] || 'application/octet-stream',
+      'Cache-Control': CACHE_CONTROL,
+      'Last-Modified': stat.mtime.toUTCString(),
+      ETag: etag,
+    };
+
+    if (req.headers['if-none-match'] === etag) {
+      res.writeHead(304, headers);
+      res.end();
+      return;
+    }
+
+    res.writeHead(200, { ...headers, 'Content-Length': stat.size });
+    if (req.method === 'HEAD') {
+      res.end();
+      return;
+    }
+    const stream = fs.createReadStream(filePath);
+    stream.on('error', () => res.destroy());
+    stream.pipe(res);
+  };
+}
+
+function listenOn(server, host, port) {
+  return new Promise((resolve, reject) => {
+    const onError = (err) => {
+      server.off('listening', onListening);
+      reject(err);
+    };
+    const onListening = () => {
+      server.off('error', onError);
+      resolve(server.address().port);
+    };
+    server.once('error', onError);
+    server.once('listening', onListening);
+    server.listen(port, host);
+  });
+}
+
+// Start the static logo server. Never rejects: when no port can be bound the
+// returned info has running=false and the error message, so the app keeps working.
+async function startAssetServer({ roots, host = DEFAULT_ASSET_HOST, port = DEFAULT_ASSET_PORT } = {}) {
+  const server = http.createServer(createRequestHandler(roots));
+  const candidates = [];
+  for (let p = port; p <= Math.min(65535, port + PORT_FALLBACK_RANGE); p++) candidates.push(p);
+  candidates.push(0);
+
+  let lastError = null;
+  for (const candidate of candidates) {
+    try {
+      // eslint-disable-next-line no-await-in-loop
+      const bound = await listenOn(server, host, candidate);
+      if (bound !== port) console.warn(`[assets] port ${port} unavailable, serving logos on ${bound}`);
+      return {
+        server,
+        info: { running: true, host, port: bound, url: `http://${host}:${bound}`, requestedPort: port, error: null },
+      };
+    } catch (err) {
+      lastError = err;
+      if (err.code !== 'EADDRINUSE' && err.code !== 'EACCES') break;
+    }
+  }
+
+  console.warn('[assets] failed to start logo server', lastError);
+  return {
+    server: null,
+    info: { running: false, host, port: null, url: null, requestedPort: port, error: lastError ? lastError.message : 'unknown error' },
+  };
+}
+
+module.exports = {
+  DEFAULT_ASSET_HOST,
+  DEFAULT_ASSET_PORT,
+  MIME_TYPES,
+  resolveAssetFile,
+  startAssetServer,
+};
@@ -0,0 +1,66 @@
+const path = require('path');
+const fs = require('fs');
+
+const AUTOSAVE_PREFIX = 'autosave-';
+const DEFAULT_KEEP = 5;
+
+// Rotating app-state autosaves in `dir` (autosave-<timestamp>.json, newest
+// last). Only the newest `keep` files are kept. Writes go through a temp file
+// and a rename so a crash mid-write never leaves a truncated newest version.
+function createAutosaveStore({ dir, keep = DEFAULT_KEEP }) {
+  let lastBody = null;
+
+  function files() {
+    try {
+      return fs.readdirSync(dir)
+        .filter((name) => name.startsWith(AUTOSAVE_PREFIX) && name.endsWith('.json'))
+        .sort();
+    } catch (e) {
+      return [];
+    }
+  }
+
+  function prune() {
+    const all = files();
+    all.slice(0, Math.max(0, all.length - keep)).forEach((name) => {
+      try { fs.unlinkSync(path.join(dir, name)); } catch (e) {}
+    });
+  }
+
+  // an unchanged snapshot is skipped so identical copies do not rotate out older versions
+  function save(data) {
+    const json = JSON.stringify({ savedAt: new Date().toISOString(), data });
+    const body = JSON.stringify(data);
+    if (body === lastBody) return { success: true, skipped: true };
+    try {
+      fs.mkdirSync(dir, { recursive: true });
+      const file = path.join(dir, `${AUTOSAVE_PREFIX}${Date.now()}.json`);
+      const tmp = `${file}.tmp`;
+      fs.writeFileSync(tmp, json, 'utf8');
+      fs.renameSync(tmp, file);
+      lastBody = body;
+      prune();
+      return { success: true, file };
+    } catch (e) {
+      return { success: false, error: e.message };
+    }
+  }
+
+  // newest readable version; a corrupt file falls back to the one before it
+  function latest() {
+    const all = files();
+    for (let i = all.length - 1; i >= 0; i--) {
+      try {
+        const parsed = JSON.parse(fs.readFileSync(path.join(dir, all[i]), 'utf8'));
+        if (parsed && parsed.data && typeof parsed.data === 'object') {
+          return { savedAt: parsed.savedAt || null, data: parsed.data, file: all[i] };
+        }
+      } catch (e) {}
+    }
+    return null;
+  }
+
+  return { save, latest, files };
+}
+
+module.exports = { createAutosaveStore, DEFAULT_KEEP };
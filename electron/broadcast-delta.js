@@ -0,0 +1,138 @@
+// Sequence-numbered delta encoding of the broadcast payload.
+//
+// Wire format (see BroadcastDeltaMessage in src/types/broadcast.ts):
+//   { type: 'keyframe', seq, data }                 full payload
+//   { type: 'delta', seq, baseSeq, changes: [...] } changes since baseSeq
+// Keys dropped from the payload are sent as { op: 'unset', path } or, for a
+// player, listed in the `unset` array of card-changed/player-updated.
+// A receiver whose last seen seq is not baseSeq has missed a packet and should
+// request a resync (send { "type": "resync" }) or wait for the next keyframe.
+
+const PLAYER_POSITION_KEYS = ['x', 'y'];
+const PLAYER_CARD_KEYS = ['yellowCard', 'redCard', 'yellowCards', 'redCardReason'];
+// keys that never produce a change on their own
+const IGNORED_TOP_LEVEL_KEYS = ['timestamp', 'teams', 'match'];
+
+function same(a, b) {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function pick(obj, keys) {
+  const out = {};
+  for (const key of keys) out[key] = obj[key];
+  return out;
+}
+
+// keys of prev and next together, so that removed keys are diffed as well
+function unionKeys(prev, next) {
+  return [...new Set([...Object.keys(prev), ...Object.keys(next)])];
+}
+
+function isRemoved(prev, next, key) {
+  return prev[key] !== undefined && next[key] === undefined;
+}
+
+function diffPlayers(team, prevList, nextList, changes) {
+  const prevIds = prevList.map((p) => p.id);
+  const nextIds = nextList.map((p) => p.id);
+  // lineup size or slot order changed: a delta would be larger than it is worth
+  if (!same(prevIds, nextIds)) return false;
+
+  nextList.forEach((next, index) => {
+    const prev = prevList[index];
+    if (PLAYER_POSITION_KEYS.some((k) => prev[k] !== next[k])) {
+      changes.push({ op: 'player-moved', team, id: next.id, x: next.x, y: next.y });
+    }
+    if (PLAYER_CARD_KEYS.some((k) => !same(prev[k], next[k]))) {
+      const cardUnset = PLAYER_CARD_KEYS.filter((k) => isRemoved(prev, next, k));
+      changes.push({
+        op: 'card-changed',
+        team,
+        id: next.id,
+        ...pick(next, PLAYER_CARD_KEYS.filter((k) => next[k] !== undefined)),
+        ...(cardUnset.length > 0 ? { unset: cardUnset } : {}),
+      });
+    }
+    const fields = {};
+    const unset = [];
+    for (const key of unionKeys(prev, next)) {
+      if (PLAYER_POSITION_KEYS.includes(key) || PLAYER_CARD_KEYS.includes(key)) continue;
+      if (isRemoved(prev, next, key)) unset.push(key);
+      else if (!same(prev[key], next[key])) fields[key] = next[key];
+    }
+    if (Object.keys(fields).length > 0 || unset.length > 0) {
+      changes.push({ op: 'player-updated', team, id: next.id, fields, ...(unset.length > 0 ? { unset } : {}) });
+    }
+  });
+  return true;
+}
+
+// Returns the list of changes from prev to next, or null when the difference
+// is structural and only a keyframe can describe it.
+function diffPayloads(prev, next) {
+  const changes = [];
+
+  if (prev.schemaVersion !== next.schemaVersion) return null;
+
+  for (const team of Object.keys(next.teams || {})) {
+    const ok = diffPlayers(team, (prev.teams || {})[team] || [], next.teams[team] || [], changes);
+    if (!ok) return null;
+  }
+
+  const prevMatch = prev.match || {};
+  const nextMatch = next.match || {};
+  if (prevMatch.scoreA !== nextMatch.scoreA || prevMatch.scoreB !== nextMatch.scoreB) {
+    changes.push({ op: 'score-changed', scoreA: nextMatch.scoreA, scoreB: nextMatch.scoreB });
+  }
+  for (const key of unionKeys(prevMatch, nextMatch)) {
+    if (key === 'scoreA' || key === 'scoreB') continue;
+    if (isRemoved(prevMatch, nextMatch, key)) changes.push({ op: 'unset', path: `match.${key}` });
+    else if (!same(prevMatch[key], nextMatch[key])) changes.push({ op: 'set', path: `match.${key}`, value: nextMatch[key] });
+  }
+
+  for (const key of unionKeys(prev, next)) {
+    if (IGNORED_TOP_LEVEL_KEYS.includes(key)) continue;
+    if (isRemoved(prev, next, key)) changes.push({ op: 'unset', path: key });
+    else if (!same(prev[key], next[key])) changes.push({ op: 'set', path: key, value: next[key] });
+  }
+
+  return changes;
+}
+
+function createDeltaEncoder() {
+  let seq = 0;
+  let last = null;
+
+  function nextSeq() {
+    seq = (seq + 1) % Number.MAX_SAFE_INTEGER;
+    return seq;
+  }
+
+  function keyframe() {
+    if (!last) return null;
+    return { type: 'keyframe', seq: nextSeq(), timestamp: Date.now(), data: last };
+  }
+
+  // Encode a new full payload. Returns a delta, a keyframe when the change is
+  // structural (or nothing was sent yet), or null when nothing changed.
+  function encode(payload) {
+    if (!last) {
+      last = payload;
+      return keyframe();
+    }
+    const changes = diffPayloads(last, payload);
+    last = payload;
+    if (changes === null) return keyframe();
+    if (changes.length === 0) return null;
+    const baseSeq = seq;
+    return { type: 'delta', seq: nextSeq(), baseSeq, timestamp: payload.timestamp || Date.now(), changes };
+  }
+
+  function reset() {
+    last = null;
+  }
+
+  return { encode, keyframe, reset };
+}
+
+module.exports = { diffPayloads, createDeltaEncoder };
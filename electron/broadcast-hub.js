@@ -0,0 +1,123 @@
+const { createUdpSender } = require('./udp-sender');
+const { createWsBroadcaster } = require('./ws-server');
+const { createDeltaEncoder } = require('./broadcast-delta');
+
+const BROADCAST_TRANSPORTS = ['udp', 'websocket', 'both'];
+const BROADCAST_MODES = ['full', 'delta'];
+// In delta mode a full keyframe goes out this often so late joiners and
+// receivers that dropped packets resync without asking.
+const DEFAULT_KEYFRAME_INTERVAL_MS = 5000;
+
+// Routes renderer payloads to the selected transports (UDP, WebSocket or both)
+// in either full-state mode (every payload as-is) or delta mode. `wsOptions`
+// go to the WebSocket broadcaster (host, port, heartbeatIntervalMs).
+function createBroadcastHub({ onUdpError, keyframeIntervalMs = DEFAULT_KEYFRAME_INTERVAL_MS, wsOptions = {} } = {}) {
+  let transport = 'udp';
+  let mode = 'full';
+  let keyframeTimer = null;
+  const encoder = createDeltaEncoder();
+
+  const onResyncRequest = (message) => {
+    if (message && message.type === 'resync' && mode === 'delta') sendKeyframe();
+  };
+  const udpSender = createUdpSender({ onMessage: onResyncRequest });
+  const wsBroadcaster = createWsBroadcaster({ ...wsOptions, onClientMessage: onResyncRequest });
+
+  const usesUdp = () => transport === 'udp' || transport === 'both';
+  const usesWs = () => transport === 'websocket' || transport === 'both';
+
+  async function sendUdp(message) {
+    const result = await udpSender.send(message);
+    if (!result.success && onUdpError) onUdpError(result, udpSender.getTarget());
+    return result;
+  }
+
+  // send one wire message on every active transport; `retain` marks it as the
+  // state handed to WebSocket clients when they connect
+  async function dispatch(message, retain) {
+    if (retain) wsBroadcaster.setRetained(retain);
+    const udp = usesUdp() ? await sendUdp(message) : null;
+    const websocket = usesWs() ? wsBroadcaster.broadcast(message) : null;
+    if (udp && !websocket) return udp;
+    if (websocket && !udp) return websocket;
+    return { success: udp.success && websocket.success, udp, websocket };
+  }
+
+  function sendKeyframe() {
+    const frame = encoder.keyframe();
+    if (!frame) return Promise.resolve({ success: true, skipped: true });
+    return dispatch(frame, frame);
+  }
+
+  function restartKeyframeTimer() {
+    if (keyframeTimer) clearInterval(keyframeTimer);
+    keyframeTimer = null;
+    if (mode !== 'delta') return;
+    keyframeTimer = setInterval(() => { sendKeyframe(); }, keyframeIntervalMs);
+    if (keyframeTimer.unref) keyframeTimer.unref();
+  }
+
+  async function send(payload) {
+    if (mode === 'full') return dispatch(payload, { type: 'state', data: payload });
+
+    const message = encoder.encode(payload);
+    // identical to what was last sent: nothing to do
+    if (!message) return { success: true, skipped: true };
+    // late WebSocket joiners always get a keyframe of the latest state
+    const retained = { type: 'keyframe', seq: message.seq, timestamp: Date.now(), data: payload };
+    return dispatch(message, retained);
+  }
+
+  async function setTransport(value) {
+    if (!BROADCAST_TRANSPORTS.includes(value)) {
+      return { success: false, error: `transport must be one of ${BROADCAST_TRANSPORTS.join(', ')}`, transport };
+    }
+    transport = value;
+    if (!usesWs()) {
+      await wsBroadcaster.stop();
+      return { success: true, transport, websocket: wsBroadcaster.getInfo() };
+    }
+    const info = await wsBroadcaster.start();
+    return { success: info.running, error: info.error || undefined, transport, websocket: info };
+  }
+
+  function setMode(value) {
+    if (!BROADCAST_MODES.includes(value)) {
+      return { success: false, error: `mode must be one of ${BROADCAST_MODES.join(', ')}`, mode };
+    }
+    mode = value;
+    // the next payload starts a fresh sequence with a keyframe
+    encoder.reset();
+    restartKeyframeTimer();
+    return { success: true, mode };
+  }
+
+  function getInfo() {
+    return { transport, mode, websocket: wsBroadcaster.getInfo() };
+  }
+
+  function close() {
+    if (keyframeTimer) clearInterval(keyframeTimer);
+    keyframeTimer = null;
+    udpSender.close();
+    return wsBroadcaster.stop();
+  }
+
+  return {
+    send,
+    sendKeyframe,
+    setTransport,
+    setMode,
+    getInfo,
+    close,
+    udp: udpSender,
+    websocket: wsBroadcaster,
+  };
+}
+
+module.exports = {
+  BROADCAST_TRANSPORTS,
+  BROADCAST_MODES,
+  DEFAULT_KEYFRAME_INTERVAL_MS,
+  createBroadcastHub,
+};
@@ -2,6 +2,10 @@ const { app, BrowserWindow, screen } = require('electron');
 const path = require('path');
 const fs = require('fs');
 const http = require('http');
+const { startAssetServer } = require('./asset-server');
+const { createBroadcastHub } = require('./broadcast-hub');
+const { startMockApiServer } = require('./mock-api-server');
+const { createAutosaveStore } = require('./autosave');
 
 // Helper: try to detect a running dev server on localhost ports 3000..3010
 function checkPort(port, timeout = 500) {
@@ -49,6 +53,33 @@ function saveWindowState(state) {
   return;
 }
 
+// app-state autosave (rotating versions) for crash recovery. The newest version
+// is read once at startup, before the new session starts writing its own.
+const autosaveStore = createAutosaveStore({ dir: path.join(app.getPath('userData'), 'autosave') });
+let lastSession = null;
+
+// ask the renderer for a final snapshot before the window closes (1s at most)
+function saveSnapshotOnClose(win) {
+  let captured = false;
+  win.on('close', (event) => {
+    if (captured || win.webContents.isDestroyed()) return;
+    captured = true;
+    event.preventDefault();
+    let timer = null;
+    const onSnapshot = (e, data) => {
+      clearTimeout(timer);
+      if (data) autosaveStore.save(data);
+      if (!win.isDestroyed()) win.close();
+    };
+    timer = setTimeout(() => {
+      ipcMain.removeListener('app-snapshot', onSnapshot);
+      if (!win.isDestroyed()) win.close();
+    }, 1000);
+    ipcMain.once('app-snapshot', onSnapshot);
+    win.webContents.send('capture-app-snapshot');
+  });
+}
+
 async function createWindow() {
   // Force a fixed initial window size and center it on screen
   const DEFAULT_WIDTH = 1100;
@@ -118,6 +149,7 @@ async function createWindow() {
   win.on('move', doSave);
   win.on('resize', doSave);
   win.on('close', doSave);
+  saveSnapshotOnClose(win);
 }
 
 // recreate window with different frame/transparent settings
@@ -220,7 +252,31 @@ async function recreateWindow({ transparent }) {
   });
 }
 
-app.whenReady().then(createWindow);
+// Local HTTP server for team logos referenced by broadcast payloads (svgUrl/pngUrl).
+// Packaged builds serve build/assets; development falls back to public/assets.
+let assetServer = null;
+let assetServerReady = null;
+
+const ASSET_ROOTS = [
+  path.join(__dirname, '..', 'build', 'assets'),
+  path.join(__dirname, '..', 'public', 'assets'),
+  path.join(__dirname, '..', 'src', 'assets'),
+];
+
+function startLogoServer() {
+  assetServerReady = startAssetServer({ roots: ASSET_ROOTS }).then(({ server, info }) => {
+    assetServer = server;
+    if (info.running) console.log('Electron: logo server ->', info.url);
+    return info;
+  });
+  return assetServerReady;
+}
+
+app.whenReady().then(() => {
+  lastSession = autosaveStore.latest();
+  startLogoServer();
+  return createWindow();
+});
 
 app.on('window-all-closed', () => {
   if (process.platform !== 'darwin') app.quit();
@@ -235,17 +291,21 @@ const { dialog, nativeImage, ipcMain } = require('electron');
 
 // transparent IPC handlers removed; transparency is always enabled
 
-// allow renderer to read the snapshot file saved during window recreate
-// read-app-snapshot handler removed: snapshot feature disabled
+// periodic autosave from the renderer; the previous session is offered for restore on launch
+ipcMain.handle('autosave-write', (event, data) => autosaveStore.save(data));
+
+ipcMain.handle('autosave-last-session', () => (lastSession ? { savedAt: lastSession.savedAt, data: lastSession.data } : null));
 
-ipcMain.handle('save-file', async (event, { data, defaultPath }) => {
+// `text` is written as-is (CSV export); otherwise `data` is saved as JSON
+ipcMain.handle('save-file', async (event, { data, text, defaultPath }) => {
   const win = BrowserWindow.getFocusedWindow();
+  const isText = typeof text === 'string';
   const { filePath } = await dialog.showSaveDialog(win, {
-    defaultPath: defaultPath || 'lineup.json',
-    filters: [{ name: 'JSON', extensions: ['json'] }],
+    defaultPath: defaultPath || (isText ? 'lineups.csv' : 'lineup.json'),
+    filters: isText ? [{ name: 'CSV', extensions: ['csv'] }] : [{ name: 'JSON', extensions: ['json'] }],
   });
   if (!filePath) return { canceled: true };
-  fs.writeFileSync(filePath, JSON.stringify(data, null, 2), 'utf8');
+  fs.writeFileSync(filePath, isText ? text : JSON.stringify(data, null, 2), 'utf8');
   return { canceled: false, filePath };
 });
 
@@ -291,6 +351,80 @@ ipcMain.handle('capture-and-save', async (event, { team, defaultPath, rect }) =>
   return { canceled: false, filePath };
 });
 
+// UDP / WebSocket broadcast to the graphics engine. The renderer owns persistence
+// of the target, transport and mode (localStorage) and pushes them here on
+// startup; main only keeps them in memory.
+// The renderer that last sent a payload receives UDP failures, including those
+// of keyframes sent from the timer or on a receiver's resync request.
+let broadcastSender = null;
+const broadcastHub = createBroadcastHub({
+  onUdpError: (result, { host, port }) => {
+    console.warn(`[udp] send to ${host}:${port} failed:`, result.error);
+    if (!broadcastSender || broadcastSender.isDestroyed()) return;
+    try {
+      broadcastSender.send('udp-send-error', { error: result.error, code: result.code, host, port, at: Date.now() });
+    } catch (e) {}
+  },
+});
+const udpSender = broadcastHub.udp;
+const wsBroadcaster = broadcastHub.websocket;
+
+ipcMain.handle('broadcast-player-coordinates', (event, data) => {
+  broadcastSender = event.sender;
+  return broadcastHub.send(data);
+});
+
+ipcMain.handle('broadcast-get-transport', () => broadcastHub.getInfo());
+
+ipcMain.handle('broadcast-set-transport', (event, transport) => broadcastHub.setTransport(transport));
+
+ipcMain.handle('broadcast-set-mode', (event, mode) => broadcastHub.setMode(mode));
+
+ipcMain.handle('ws-set-port', async (event, port) => {
+  const res = await wsBroadcaster.setPort(port);
+  return { ...res, websocket: wsBroadcaster.getInfo() };
+});
+
+ipcMain.handle('udp-get-port', () => udpSender.getTarget());
+
+ipcMain.handle('udp-set-port', (event, port) => udpSender.setPort(port));
+
+ipcMain.handle('udp-set-host', (event, host) => udpSender.setHost(host));
+
+ipcMain.handle('asset-server-info', async () => {
+  if (!assetServerReady) return { running: false, port: null, url: null, error: 'not started' };
+  return assetServerReady;
+});
+
+// Fake API-Football for offline development and rehearsals; only runs while
+// the renderer has the mock switch on. Starting again restarts the simulated clock.
+let mockApi = null;
+
+ipcMain.handle('mock-api-start', async (event, options = {}) => {
+  const speed = Number(options.speed) > 0 ? Number(options.speed) : 1;
+  const startMinute = Number.isFinite(Number(options.startMinute)) ? Number(options.startMinute) : 0;
+  if (mockApi) return mockApi.restart({ speed, startMinute });
+  const started = await startMockApiServer({ assetRoots: ASSET_ROOTS, speed, startMinute });
+  if (started.server) mockApi = started;
+  return started.info;
+});
+
+ipcMain.handle('mock-api-stop', async () => {
+  if (!mockApi) return { running: false };
+  const { server } = mockApi;
+  mockApi = null;
+  await new Promise((resolve) => server.close(() => resolve()));
+  return { running: false };
+});
+
+ipcMain.handle('mock-api-info', () => (mockApi ? mockApi.getInfo() : { running: false }));
+
+app.on('will-quit', () => {
+  broadcastHub.close();
+  if (assetServer) assetServer.close();
+  if (mockApi) mockApi.server.close();
+});
+
 // window control handlers
 ipcMain.handle('window-minimize', (event) => {
   const win = BrowserWindow.getFocusedWindow();
@@ -0,0 +1,320 @@
+const http = require('http');
+const fs = require('fs');
+const path = require('path');
+const { resolveAssetFile, MIME_TYPES } = require('./asset-server');
+
+const DEFAULT_MOCK_HOST = '127.0.0.1';
+const DEFAULT_MOCK_PORT = 9105;
+const DEFAULT_RECORDINGS_DIR = path.join(__dirname, '..', 'data', 'mock-api-football');
+// Pretend quota so the rate-limit headers look like a free API-Football plan.
+const MOCK_DAILY_QUOTA = 100;
+
+// Simulated match timeline in match seconds: 45' halves with a 15' break.
+const FIRST_HALF_END = 45 * 60;
+const SECOND_HALF_START = 60 * 60;
+const FULL_TIME = SECOND_HALF_START + 45 * 60;
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, OPTIONS',
+  'Access-Control-Allow-Headers': '*',
+  'Access-Control-Expose-Headers': 'x-ratelimit-requests-limit, x-ratelimit-requests-remaining',
+};
+
+function readJson(filePath) {
+  try {
+    return JSON.parse(fs.readFileSync(filePath, 'utf8'));
+  } catch (e) {
+    return null;
+  }
+}
+
+// A recording is one directory per fixture holding the raw response bodies of
+//   fixtures.json    GET /fixtures?id=<id> after the final whistle (all events)
+//   lineups.json     GET /fixtures/lineups?fixture=<id>
+//   statistics.json  GET /fixtures/statistics?fixture=<id>, or an array of such
+//                    bodies each with an "elapsed" minute to replay several snapshots
+function loadRecordings(dir) {
+  let entries = [];
+  try {
+    entries = fs.readdirSync(dir, { withFileTypes: true });
+  } catch (e) {
+    console.warn(`[mock-api] no recordings in ${dir}`);
+    return [];
+  }
+
+  const recordings = [];
+  for (const entry of entries) {
+    if (!entry.isDirectory()) continue;
+    const base = path.join(dir, entry.name);
+    const fixtures = readJson(path.join(base, 'fixtures.json'));
+    const fixture = fixtures && Array.isArray(fixtures.response) ? fixtures.response[0] : null;
+    if (!fixture) {
+      console.warn(`[mock-api] skipping ${entry.name}: fixtures.json missing or empty`);
+      continue;
+    }
+    const lineups = readJson(path.join(base, 'lineups.json'));
+    const statistics = readJson(path.join(base, 'statistics.json'));
+    recordings.push({
+      id: Number(fixture.fixture.id),
+      fixture,
+      lineups: lineups && Array.isArray(lineups.response) ? lineups.response : [],
+      statistics: Array.isArray(statistics)
+        ? statistics.slice().sort((a, b) => (a.elapsed || 0) - (b.elapsed || 0))
+        : statistics ? [{ ...statistics, elapsed: 0 }] : [],
+    });
+  }
+  return recordings;
+}
+
+// Match second at which an event becomes visible.
+function eventSecond(ev) {
+  const elapsed = Number(ev.time && ev.time.elapsed) || 0;
+  const extra = Number(ev.time && ev.time.extra) || 0;
+  if (elapsed <= 45) return (elapsed - 1 + extra) * 60;
+  return SECOND_HALF_START + (elapsed - 46 + extra) * 60;
+}
+
+function statusAt(second) {
+  if (second < 0) return { short: 'NS', long: 'Not Started', elapsed: null };
+  if (second < FIRST_HALF_END) return { short: '1H', long: 'First Half', elapsed: Math.floor(second / 60) + 1 };
+  if (second < SECOND_HALF_START) return { short: 'HT', long: 'Halftime', elapsed: 45 };
+  if (second < FULL_TIME) {
+    return { short: '2H', long: 'Second Half', elapsed: 46 + Math.floor((second - SECOND_HALF_START) / 60) };
+  }
+  return { short: 'FT', long: 'Match Finished', elapsed: 90 };
+}
+
+// Own goals are credited to the opponent of the team in the event.
+function countGoals(events, homeId) {
+  const goals = { home: 0, away: 0 };
+  for (const ev of events) {
+    if (String(ev.type).toLowerCase() !== 'goal') continue;
+    const detail = String(ev.detail || '').toLowerCase();
+    if (detail.includes('missed')) continue;
+    const forHome = Number(ev.team && ev.team.id) === homeId;
+    const credited = detail.includes('own goal') ? !forHome : forHome;
+    goals[credited ? 'home' : 'away'] += 1;
+  }
+  return goals;
+}
+
+// Match clock minute (0-90, negative before kick-off) to timeline second.
+function minuteToSecond(minute) {
+  if (minute <= 45) return minute * 60;
+  return SECOND_HALF_START + (minute - 45) * 60;
+}
+
+function createMockClock({ speed = 1, startMinute = 0 } = {}) {
+  const startedAt = Date.now();
+  const offset = minuteToSecond(startMinute);
+  return {
+    speed,
+    startMinute,
+    // wall-clock kick-off in Unix seconds
+    kickoff: Math.floor((startedAt - (offset * 1000) / speed) / 1000),
+    // current match second; negative before kick-off
+    now() {
+      return offset + ((Date.now() - startedAt) / 1000) * speed;
+    },
+  };
+}
+
+// The recorded fixture as it looked `second` match seconds after kick-off.
+function fixtureAt(recording, clock, baseUrl) {
+  const second = clock.now();
+  const src = recording.fixture;
+  const homeId = Number(src.teams.home.id);
+  const events = (src.events || []).filter((ev) => second >= 0 && eventSecond(ev) <= second);
+  const status = statusAt(second);
+  const goals = status.short === 'NS' ? { home: null, away: null } : countGoals(events, homeId);
+  const halftimeEvents = events.filter((ev) => eventSecond(ev) < SECOND_HALF_START);
+  const withLogo = (team) => ({ ...team, logo: absoluteLogo(team.logo, baseUrl) });
+
+  return {
+    ...src,
+    fixture: {
+      ...src.fixture,
+      date: new Date(clock.kickoff * 1000).toISOString(),
+      timestamp: clock.kickoff,
+      status: { ...status, extra: null },
+    },
+    teams: { home: withLogo(src.teams.home), away: withLogo(src.teams.away) },
+    goals,
+    score: {
+      ...(src.score || {}),
+      halftime: second >= FIRST_HALF_END ? countGoals(halftimeEvents, homeId) : { home: null, away: null },
+      fulltime: status.short === 'FT' ? goals : { home: null, away: null },
+    },
+    events,
+  };
+}
+
+function lineupsAt(recording, baseUrl) {
+  return recording.lineups.map((lineup) => ({
+    ...lineup,
+    team: { ...lineup.team, logo: absoluteLogo(lineup.team.logo, baseUrl) },
+  }));
+}
+
+function statisticsAt(recording, clock) {
+  const elapsed = statusAt(clock.now()).elapsed;
+  if (elapsed === null) return [];
+  let current = null;
+  for (const snapshot of recording.statistics) {
+    if ((snapshot.elapsed || 0) <= elapsed) current = snapshot;
+  }
+  return current && Array.isArray(current.response) ? current.response : [];
+}
+
+// Recordings may reference the app's own logos ("/assets/logos/...");
+// those are served by the mock itself so the whole show works offline.
+function absoluteLogo(logo, baseUrl) {
+  if (typeof logo === 'string' && logo.startsWith('/assets/')) return `${baseUrl}${logo}`;
+  return logo;
+}
+
+function envelope(endpoint, parameters, response) {
+  return {
+    get: endpoint,
+    parameters,
+    errors: [],
+    results: response.length,
+    paging: { current: 1, total: 1 },
+    response,
+  };
+}
+
+function createRequestHandler(state) {
+  return (req, res) => {
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204, { ...CORS_HEADERS, 'Access-Control-Max-Age': '86400' });
+      res.end();
+      return;
+    }
+    if (req.method !== 'GET') {
+      res.writeHead(405, { ...CORS_HEADERS, Allow: 'GET, OPTIONS' });
+      res.end();
+      return;
+    }
+
+    const url = new URL(req.url || '/', state.baseUrl);
+    if (url.pathname.startsWith('/assets/')) {
+      const found = resolveAssetFile(state.assetRoots, url.pathname);
+      if (!found) {
+        res.writeHead(404, CORS_HEADERS);
+        res.end();
+        return;
+      }
+      res.writeHead(200, {
+        ...CORS_HEADERS,
+        'Content-Type': MIME_TYPES[path.extname(found.filePath).toLowerCase()] || 'application/octet-stream',
+      });
+      fs.createReadStream(found.filePath).pipe(res);
+      return;
+    }
+
+    const params = Object.fromEntries(url.searchParams.entries());
+    const byId = (value) => state.recordings.find((r) => r.id === Number(value));
+    let response = null;
+
+    if (url.pathname === '/fixtures') {
+      if (params.id) {
+        const recording = byId(params.id);
+        response = recording ? [fixtureAt(recording, state.clock, state.baseUrl)] : [];
+      } else {
+        // every recording is "today", whatever date was asked for
+        const all = state.recordings.map((r) => fixtureAt(r, state.clock, state.baseUrl));
+        response = params.live ? all.filter((f) => ['1H', 'HT', '2H'].includes(f.fixture.status.short)) : all;
+      }
+    } else if (url.pathname === '/fixtures/lineups') {
+      const recording = byId(params.fixture);
+      response = recording ? lineupsAt(recording, state.baseUrl) : [];
+    } else if (url.pathname === '/fixtures/statistics') {
+      const recording = byId(params.fixture);
+      response = recording ? statisticsAt(recording, state.clock) : [];
+    } else if (url.pathname === '/fixtures/events') {
+      const recording = byId(params.fixture);
+      response = recording ? fixtureAt(recording, state.clock, state.baseUrl).events : [];
+    }
+
+    if (response === null) {
+      res.writeHead(404, { ...CORS_HEADERS, 'Content-Type': 'application/json; charset=utf-8' });
+      res.end(JSON.stringify({ errors: { endpoint: `${url.pathname} is not recorded by the mock server` } }));
+      return;
+    }
+
+    state.requestsToday += 1;
+    res.writeHead(200, {
+      ...CORS_HEADERS,
+      'Content-Type': 'application/json; charset=utf-8',
+      'Cache-Control': 'no-store',
+      'x-ratelimit-requests-limit': String(MOCK_DAILY_QUOTA),
+      'x-ratelimit-requests-remaining': String(Math.max(0, MOCK_DAILY_QUOTA - state.requestsToday)),
+    });
+    res.end(JSON.stringify(envelope(url.pathname.slice(1), params, response)));
+  };
+}
+
+// Fake API-Football (v3) for offline development and rehearsals. Replays the
+// recordings in `recordingsDir` on a simulated clock: `speed` is match seconds
+// per real second, `startMinute` the match clock minute to start from
+// (negative = before kick-off, 46 = start of the second half).
+// Never rejects; on failure the returned info has running=false and the error.
+async function startMockApiServer({
+  host = DEFAULT_MOCK_HOST,
+  port = DEFAULT_MOCK_PORT,
+  recordingsDir = DEFAULT_RECORDINGS_DIR,
+  assetRoots = [],
+  speed = 1,
+  startMinute = 0,
+} = {}) {
+  const state = {
+    recordings: loadRecordings(recordingsDir),
+    clock: createMockClock({ speed, startMinute }),
+    assetRoots,
+    baseUrl: `http://${host}:${port}`,
+    requestsToday: 0,
+  };
+  const server = http.createServer(createRequestHandler(state));
+
+  const info = () => ({
+    running: server.listening,
+    host,
+    port,
+    url: state.baseUrl,
+    speed: state.clock.speed,
+    startMinute: state.clock.startMinute,
+    fixtures: state.recordings.length,
+    error: null,
+  });
+
+  return new Promise((resolve) => {
+    server.once('error', (err) => {
+      console.warn(`[mock-api] failed to listen on ${host}:${port}`, err.message);
+      resolve({ server: null, info: { ...info(), running: false, error: err.message } });
+    });
+    server.listen(port, host, () => {
+      resolve({
+        server,
+        info: info(),
+        // restart the simulated clock (e.g. to rehearse the same match again)
+        restart({ speed: nextSpeed = state.clock.speed, startMinute: nextStart = state.clock.startMinute } = {}) {
+          state.clock = createMockClock({ speed: nextSpeed, startMinute: nextStart });
+          state.requestsToday = 0;
+          return info();
+        },
+        getInfo: info,
+      });
+    });
+  });
+}
+
+module.exports = {
+  DEFAULT_MOCK_HOST,
+  DEFAULT_MOCK_PORT,
+  DEFAULT_RECORDINGS_DIR,
+  loadRecordings,
+  statusAt,
+  startMockApiServer,
+};
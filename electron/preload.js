@@ -1,5 +1,8 @@
 const { contextBridge, ipcRenderer } = require('electron');
 
+// renderer-registered function returning the current app snapshot (see capture-app-snapshot)
+let snapshotProvider = null;
+
 contextBridge.exposeInMainWorld('electronAPI', {
   saveFile: (options) => ipcRenderer.invoke('save-file', options),
   openFile: (options) => ipcRenderer.invoke('open-file', options),
@@ -9,6 +12,23 @@ contextBridge.exposeInMainWorld('electronAPI', {
   close: () => ipcRenderer.invoke('window-close'),
   isMaximized: () => ipcRenderer.invoke('window-is-maximized'),
   toggleMaximize: () => ipcRenderer.invoke('window-toggle-maximize'),
+  broadcastPlayerCoordinates: (data) => ipcRenderer.invoke('broadcast-player-coordinates', data),
+  getUdpPort: () => ipcRenderer.invoke('udp-get-port'),
+  setUdpPort: (port) => ipcRenderer.invoke('udp-set-port', port),
+  setUdpHost: (host) => ipcRenderer.invoke('udp-set-host', host),
+  getBroadcastTransport: () => ipcRenderer.invoke('broadcast-get-transport'),
+  setBroadcastTransport: (transport) => ipcRenderer.invoke('broadcast-set-transport', transport),
+  setBroadcastMode: (mode) => ipcRenderer.invoke('broadcast-set-mode', mode),
+  setWsPort: (port) => ipcRenderer.invoke('ws-set-port', port),
+  getAssetServerInfo: () => ipcRenderer.invoke('asset-server-info'),
+  startMockApi: (options) => ipcRenderer.invoke('mock-api-start', options),
+  stopMockApi: () => ipcRenderer.invoke('mock-api-stop'),
+  getMockApiInfo: () => ipcRenderer.invoke('mock-api-info'),
+  onUdpSendError: (callback) => {
+    const listener = (event, info) => callback(info);
+    ipcRenderer.on('udp-send-error', listener);
+    return () => ipcRenderer.removeListener('udp-send-error', listener);
+  },
   setTransparentMode: (enabled) => {
     // removed: transparency control is no longer supported
     return Promise.resolve({ success: true });
@@ -17,15 +37,18 @@ contextBridge.exposeInMainWorld('electronAPI', {
     // removed: always report transparent = true
     return Promise.resolve({ success: true, transparent: true });
   },
-  // snapshot features disabled: do not provide any snapshot-reading bridge
+  writeAutosave: (data) => ipcRenderer.invoke('autosave-write', data),
+  getLastSession: () => ipcRenderer.invoke('autosave-last-session'),
+  setSnapshotProvider: (provider) => {
+    snapshotProvider = typeof provider === 'function' ? provider : null;
+  },
 });
 
 // listen for main asking to capture a snapshot - renderer should respond by
 // sending 'app-snapshot' IPC with serialized data
 ipcRenderer.on('capture-app-snapshot', () => {
   try {
-    // snapshot capture disabled; always return null
-    ipcRenderer.send('app-snapshot', null);
+    ipcRenderer.send('app-snapshot', snapshotProvider ? snapshotProvider() : null);
   } catch (e) {
     console.warn('[preload] failed to read app snapshot', e);
     ipcRenderer.send('app-snapshot', null);
@@ -0,0 +1,206 @@
+const dgram = require('dgram');
+const net = require('net');
+
+const DEFAULT_UDP_HOST = '127.0.0.1';
+const DEFAULT_UDP_PORT = 9107;
+
+// Largest datagram we emit. Stays under the 65,507-byte IPv4 UDP limit with
+// room for the chunk header, so a normal two-team payload always goes out whole.
+const MAX_DATAGRAM_BYTES = 60000;
+// Payloads that would need more chunks than this are rejected instead of sent.
+const MAX_CHUNKS = 16;
+
+const CHUNK_PREFIX = '#chunk';
+// Receivers drop partial messages older than this (a lost fragment never arrives)
+// and keep at most this many partial messages, dropping the oldest first.
+const CHUNK_ASSEMBLY_TIMEOUT_MS = 2000;
+const MAX_PENDING_MESSAGES = 8;
+
+function parsePort(value) {
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed)) return null;
+  if (parsed < 1 || parsed > 65535) return null;
+  return parsed;
+}
+
+function isValidHost(host) {
+  if (typeof host !== 'string') return false;
+  const trimmed = host.trim();
+  if (!trimmed) return false;
+  if (net.isIPv4(trimmed)) return true;
+  // plain hostnames (e.g. "localhost", "render-pc.local"); IPv6 is not supported on a udp4 socket
+  return /^[a-zA-Z0-9]([a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?(\.[a-zA-Z0-9]([a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?)*$/.test(trimmed);
+}
+
+// Serialize a payload into one or more datagrams.
+// Small payloads are sent as raw JSON. Larger ones are split into byte ranges,
+// each prefixed with a text header line: "#chunk <messageId> <index> <count>\n".
+function encodeDatagrams(payload, messageId) {
+  const json = Buffer.from(JSON.stringify(payload), 'utf8');
+  if (json.length <= MAX_DATAGRAM_BYTES) return { bytes: json.length, datagrams: [json] };
+
+  const headerReserve = 64;
+  const chunkSize = MAX_DATAGRAM_BYTES - headerReserve;
+  const count = Math.ceil(json.length / chunkSize);
+  if (count > MAX_CHUNKS) {
+    const err = new Error(`payload too large: ${json.length} bytes would need ${count} datagrams (max ${MAX_CHUNKS})`);
+    err.code = 'EPAYLOADTOOLARGE';
+    throw err;
+  }
+
+  const datagrams = [];
+  for (let i = 0; i < count; i++) {
+    const header = Buffer.from(`${CHUNK_PREFIX} ${messageId} ${i} ${count}\n`, 'utf8');
+    datagrams.push(Buffer.concat([header, json.subarray(i * chunkSize, (i + 1) * chunkSize)]));
+  }
+  return { bytes: json.length, datagrams };
+}
+
+// Receiver-side counterpart of encodeDatagrams. Feed it every datagram;
+// it returns the parsed payload once a message is complete, otherwise null.
+// Incomplete messages are evicted after `timeoutMs` or beyond `maxPending`,
+// so lost fragments do not pile up on a long-running receiver.
+function createChunkAssembler({ timeoutMs = CHUNK_ASSEMBLY_TIMEOUT_MS, maxPending = MAX_PENDING_MESSAGES, now = Date.now } = {}) {
+  const pending = new Map();
+
+  function evict(at) {
+    pending.forEach((entry, id) => {
+      if (at - entry.startedAt > timeoutMs) pending.delete(id);
+    });
+    // Map keeps insertion order: the first keys are the oldest messages
+    while (pending.size > maxPending) pending.delete(pending.keys().next().value);
+  }
+
+  function accept(buffer) {
+    const newline = buffer.indexOf(0x0a);
+    const head = newline > 0 ? buffer.subarray(0, newline).toString('utf8') : '';
+    if (!head.startsWith(CHUNK_PREFIX)) return JSON.parse(buffer.toString('utf8'));
+
+    const [, id, indexRaw, countRaw] = head.split(' ');
+    const index = Number(indexRaw);
+    const count = Number(countRaw);
+    const at = now();
+    evict(at);
+    const entry = pending.get(id) || { count, parts: new Array(count), received: 0, startedAt: at };
+    if (!entry.parts[index]) {
+      entry.parts[index] = buffer.subarray(newline + 1);
+      entry.received += 1;
+    }
+    pending.set(id, entry);
+    if (entry.received < entry.count) {
+      evict(at);
+      return null;
+    }
+
+    pending.delete(id);
+    return JSON.parse(Buffer.concat(entry.parts).toString('utf8'));
+  }
+
+  accept.pendingCount = () => pending.size;
+  return accept;
+}
+
+// onMessage receives JSON sent back to our source port by receivers (e.g. resync requests).
+function createUdpSender({ host = DEFAULT_UDP_HOST, port = DEFAULT_UDP_PORT, onMessage } = {}) {
+  let socket = null;
+  let target = { host, port };
+  let messageId = 0;
+
+  function ensureSocket() {
+    if (socket) return socket;
+    socket = dgram.createSocket('udp4');
+    socket.on('error', (err) => {
+      console.warn('[udp] socket error', err);
+      try { socket.close(); } catch (e) {}
+      socket = null;
+    });
+    socket.on('message', (msg, rinfo) => {
+      if (!onMessage) return;
+      try {
+        onMessage(JSON.parse(msg.toString('utf8')), rinfo);
+      } catch (e) {
+        // ignore non-JSON datagrams
+      }
+    });
+    // allow subnet broadcast targets such as 192.168.0.255
+    socket.bind(() => {
+      try { socket.setBroadcast(true); } catch (e) {}
+    });
+    socket.unref();
+    return socket;
+  }
+
+  function sendDatagram(sock, buffer) {
+    return new Promise((resolve, reject) => {
+      sock.send(buffer, target.port, target.host, (err) => (err ? reject(err) : resolve()));
+    });
+  }
+
+  async function send(payload) {
+    messageId = (messageId + 1) % 0x7fffffff;
+    let encoded;
+    try {
+      encoded = encodeDatagrams(payload, messageId);
+    } catch (err) {
+      return { success: false, error: err.message, code: err.code || null };
+    }
+
+    try {
+      const sock = ensureSocket();
+      for (const datagram of encoded.datagrams) {
+        // eslint-disable-next-line no-await-in-loop
+        await sendDatagram(sock, datagram);
+      }
+      return { success: true, bytes: encoded.bytes, datagrams: encoded.datagrams.length };
+    } catch (err) {
+      return { success: false, error: err.message, code: err.code || null };
+    }
+  }
+
+  function setPort(value) {
+    const parsed = parsePort(value);
+    if (parsed === null) return { success: false, error: 'port must be an integer between 1 and 65535', port: target.port };
+    target = { ...target, port: parsed };
+    return { success: true, port: parsed };
+  }
+
+  function setHost(value) {
+    if (!isValidHost(value)) return { success: false, error: 'host must be an IPv4 address or hostname', host: target.host };
+    target = { ...target, host: value.trim() };
+    return { success: true, host: target.host };
+  }
+
+  function getTarget() {
+    return { ...target };
+  }
+
+  // local address the socket is bound to (where receivers send resync requests), null before the first send
+  function getLocalAddress() {
+    if (!socket) return null;
+    try {
+      return socket.address();
+    } catch (e) {
+      return null;
+    }
+  }
+
+  function close() {
+    if (!socket) return;
+    try { socket.close(); } catch (e) {}
+    socket = null;
+  }
+
+  return { send, setPort, setHost, getTarget, getLocalAddress, close };
+}
+
+module.exports = {
+  DEFAULT_UDP_HOST,
+  DEFAULT_UDP_PORT,
+  MAX_DATAGRAM_BYTES,
+  MAX_CHUNKS,
+  parsePort,
+  isValidHost,
+  encodeDatagrams,
+  createChunkAssembler,
+  createUdpSender,
+};
@@ -0,0 +1,151 @@
+const { WebSocketServer, WebSocket } = require('ws');
+
+const DEFAULT_WS_HOST = '127.0.0.1';
+const DEFAULT_WS_PORT = 9108;
+// Application-level heartbeat so browser overlays (which never see ping frames)
+// can tell a quiet feed from a dead one. Clients that miss a pong are dropped.
+const HEARTBEAT_INTERVAL_MS = 5000;
+
+// WebSocket push channel for overlay pages that cannot listen on UDP.
+// Every message is a JSON envelope: { type: 'state', data } or { type: 'heartbeat', timestamp }
+// (plus 'keyframe' / 'delta' in delta mode). Clients may send { type: 'resync' }.
+// Port 0 binds an ephemeral port; getInfo() reports the bound one.
+function createWsBroadcaster({
+  host = DEFAULT_WS_HOST,
+  port = DEFAULT_WS_PORT,
+  heartbeatIntervalMs = HEARTBEAT_INTERVAL_MS,
+  onClientMessage,
+} = {}) {
+  let wss = null;
+  let heartbeatTimer = null;
+  let currentPort = port;
+  let lastError = null;
+  let lastState = null;
+
+  function sendTo(client, message) {
+    if (client.readyState !== WebSocket.OPEN) return false;
+    try {
+      client.send(message);
+      return true;
+    } catch (e) {
+      return false;
+    }
+  }
+
+  function heartbeat() {
+    if (!wss) return;
+    const message = JSON.stringify({ type: 'heartbeat', timestamp: Date.now() });
+    for (const client of wss.clients) {
+      if (client.isAlive === false) {
+        client.terminate();
+        continue;
+      }
+      client.isAlive = false;
+      try { client.ping(); } catch (e) {}
+      sendTo(client, message);
+    }
+  }
+
+  function start() {
+    if (wss) return Promise.resolve(getInfo());
+    return new Promise((resolve) => {
+      const server = new WebSocketServer({ host, port: currentPort });
+      const onError = (err) => {
+        lastError = err.message;
+        console.warn(`[ws] failed to listen on ${host}:${currentPort}`, err.message);
+        try { server.close(); } catch (e) {}
+        resolve(getInfo());
+      };
+      server.once('error', onError);
+      server.once('listening', () => {
+        server.off('error', onError);
+        server.on('error', (err) => console.warn('[ws] server error', err));
+        wss = server;
+        lastError = null;
+        heartbeatTimer = setInterval(heartbeat, heartbeatIntervalMs);
+        resolve(getInfo());
+      });
+
+      server.on('connection', (client) => {
+        client.isAlive = true;
+        client.on('pong', () => { client.isAlive = true; });
+        client.on('error', () => {});
+        client.on('message', (raw) => {
+          if (!onClientMessage) return;
+          try {
+            onClientMessage(JSON.parse(String(raw)));
+          } catch (e) {
+            // ignore non-JSON chatter from clients
+          }
+        });
+        // late joiners get the last full state straight away
+        if (lastState) sendTo(client, lastState);
+      });
+    });
+  }
+
+  function stop() {
+    if (heartbeatTimer) clearInterval(heartbeatTimer);
+    heartbeatTimer = null;
+    if (!wss) return Promise.resolve();
+    const server = wss;
+    wss = null;
+    for (const client of server.clients) client.terminate();
+    return new Promise((resolve) => server.close(() => resolve()));
+  }
+
+  async function setPort(value) {
+    const parsed = Number(value);
+    if (!Number.isInteger(parsed) || parsed < 1 || parsed > 65535) {
+      return { success: false, error: 'port must be an integer between 1 and 65535', port: currentPort };
+    }
+    const wasRunning = !!wss;
+    currentPort = parsed;
+    if (!wasRunning) return { success: true, port: currentPort };
+    await stop();
+    const info = await start();
+    return info.running ? { success: true, port: currentPort } : { success: false, error: info.error, port: currentPort };
+  }
+
+  // Message handed to clients as soon as they connect (the last full state).
+  function setRetained(message) {
+    lastState = JSON.stringify(message);
+  }
+
+  function broadcast(message) {
+    if (!wss) return { success: false, error: lastError || 'websocket server not running', clients: 0 };
+    const encoded = JSON.stringify(message);
+    let delivered = 0;
+    for (const client of wss.clients) {
+      if (sendTo(client, encoded)) delivered += 1;
+    }
+    return { success: true, clients: delivered };
+  }
+
+  function publish(payload) {
+    const message = { type: 'state', data: payload };
+    setRetained(message);
+    return broadcast(message);
+  }
+
+  function getInfo() {
+    const boundPort = wss ? wss.address().port : currentPort;
+    return {
+      running: !!wss,
+      host,
+      port: boundPort,
+      url: `ws://${host}:${boundPort}`,
+      clients: wss ? wss.clients.size : 0,
+      error: wss ? null : lastError,
+    };
+  }
+
+  return { start, stop, setPort, publish, broadcast, setRetained, getInfo };
+}
+
+module.exports = {
+  DEFAULT_WS_HOST,
+  DEFAULT_WS_PORT,
+  HEARTBEAT_INTERVAL_MS,
+  createWsBroadcaster,
+};
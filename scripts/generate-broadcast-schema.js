@@ -0,0 +1,49 @@
+#!/usr/bin/env node
+// Generates the JSON Schemas in schema/ from the broadcast types in
+// src/types/broadcast.ts. Re-run after changing the payload types.
+const fs = require('fs');
+const path = require('path');
+const { createGenerator } = require('ts-json-schema-generator');
+
+const root = path.resolve(__dirname, '..');
+const outDir = path.join(root, 'schema');
+
+const SCHEMAS = [
+  {
+    type: 'BroadcastPayload',
+    file: 'broadcast-payload.schema.json',
+    title: 'Soccer Lineup broadcast payload',
+    description: 'JSON sent to graphics engines over UDP and WebSocket on every lineup, score or stats change.',
+  },
+  {
+    type: 'BroadcastDeltaStreamMessage',
+    file: 'broadcast-delta.schema.json',
+    title: 'Soccer Lineup delta broadcast message',
+    description: 'Keyframe or delta message sent instead of the full payload when delta mode is selected.',
+  },
+];
+
+function generate({ type, file, title, description }) {
+  const schema = createGenerator({
+    path: path.join(root, 'src', 'types', 'broadcast.ts'),
+    tsconfig: path.join(root, 'tsconfig.json'),
+    type,
+    expose: 'export',
+    topRef: true,
+    jsDoc: 'extended',
+    additionalProperties: false,
+    skipTypeCheck: true,
+  }).createSchema(type);
+
+  const outFile = path.join(outDir, file);
+  fs.mkdirSync(outDir, { recursive: true });
+  fs.writeFileSync(outFile, JSON.stringify({ title, description, ...schema }, null, 2) + '\n', 'utf8');
+  console.log('Wrote', path.relative(root, outFile));
+}
+
+try {
+  SCHEMAS.forEach(generate);
+} catch (err) {
+  console.error(err);
+  process.exit(1);
+}
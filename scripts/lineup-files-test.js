@@ -0,0 +1,135 @@
+#!/usr/bin/env node
+// Checks the lineup file parsers: pasted team sheets and the two-team CSV
+// export (src/lib/lineup-text.ts), and saved app snapshots with their version
+// migrations and validation (src/lib/snapshot.ts).
+const assert = require('assert');
+const { loadModule } = require('./load-ts-module');
+
+const F433 = { name: '4-3-3', lines: [1, 4, 3, 3] };
+const F442 = { name: '4-4-2', lines: [1, 4, 4, 2] };
+
+function squad(prefix, count, start = 1) {
+  return Array.from({ length: count }, (_, i) => ({ number: String(start + i), name: `${prefix} ${start + i}` }));
+}
+
+function checkLineupText() {
+  const { parseLineupText, lineupsToCSV } = loadModule('lineup-text.ts');
+
+  const sheet = [
+    'Liverpool',
+    'Formation: 4-4-2',
+    ...squad('Player', 11).map((p, i) => `${p.number}. ${p.name}${i === 4 ? ' (C) DF' : ''}`),
+    'Subs:',
+    '12 Bench One',
+    '13 Bench Two FW',
+  ].join('\n');
+  const plain = parseLineupText(sheet, F433);
+  assert.deepStrictEqual(plain.errors, []);
+  assert.strictEqual(plain.title, 'Liverpool');
+  assert.deepStrictEqual(plain.formation, { name: '4-4-2', lines: [1, 4, 4, 2] });
+  assert.strictEqual(plain.players.length, 11);
+  assert.deepStrictEqual(plain.players[4], { number: '5', name: 'Player 5', role: 'DF', captain: true });
+  assert.deepStrictEqual(plain.bench.map((p) => p.name), ['Bench One', 'Bench Two']);
+  assert.strictEqual(plain.bench[1].role, 'FW');
+  console.log('ok - plain team sheet with title, formation, captain and bench');
+
+  const broken = parseLineupText(['x1,Someone', '7 Twin', '7 Twin Again', 'not a player 4'].join('\n'), F433);
+  assert.ok(broken.errors.some((e) => e.includes('등번호가 숫자가 아닙니다')), 'non-numeric number');
+  assert.ok(broken.errors.some((e) => e.includes('등번호 7번이 2명입니다')), 'duplicate number');
+  assert.ok(broken.errors.some((e) => e.includes('읽을 수 없습니다')), 'unreadable line');
+  assert.ok(broken.errors.some((e) => e.includes('선발은 11명이어야 합니다')), 'starter count');
+  console.log('ok - invalid sheet lists readable errors');
+
+  // CSV 내보내기 -> 팀별로 다시 읽기
+  const teamA = {
+    team: 'A',
+    formation: F442,
+    players: squad('Home', 11).map((p, i) => ({
+      ...p,
+      ...(i === 0 && { role: 'GK', detailedPosition: 'GK' }),
+      ...(i === 1 && { role: 'DF', detailedPosition: 'LB', captain: true }),
+      ...(i === 10 && { name: 'Smith, "Jr"' }),
+    })),
+    bench: squad('Home sub', 2, 12),
+  };
+  const teamB = { team: 'B', formation: { name: 'Custom', lines: [1, 3, 5, 2] }, players: squad('Away', 11), bench: [] };
+  const csv = lineupsToCSV([teamA, teamB]);
+
+  const backA = parseLineupText(csv, F433, 'A');
+  assert.deepStrictEqual(backA.errors, []);
+  assert.deepStrictEqual(backA.formation, F442);
+  assert.deepStrictEqual(backA.players, teamA.players);
+  assert.deepStrictEqual(backA.bench, teamA.bench);
+
+  const backB = parseLineupText(csv, F433, 'B');
+  assert.deepStrictEqual(backB.errors, []);
+  assert.deepStrictEqual(backB.formation, { name: '3-5-2', lines: [1, 3, 5, 2] });
+  assert.deepStrictEqual(backB.players, teamB.players);
+  assert.deepStrictEqual(backB.bench, []);
+  console.log('ok - lineupsToCSV round-trips both teams through parseLineupText');
+}
+
+function checkSnapshots() {
+  const { parseSnapshot, SNAPSHOT_VERSION } = loadModule('snapshot.ts');
+
+  // 버전 필드 없는 예전 파일: 단색 uniformColor, yellowCard, 일부만 있는 시계
+  const v1 = {
+    formation: F442,
+    players: squad('Home', 11).map((p, i) => ({ ...p, number: i + 1, ...(i === 3 && { yellowCard: true, redCard: true }) })),
+    uniformColor: '#112233',
+    uniformColorB: '#dc2626',
+    matchClock: { period: '2H', running: false, baseSeconds: 600, startedAt: null },
+    tie: { roundName: 'Final' },
+    scoreA: 2,
+  };
+  const migrated = parseSnapshot(v1);
+  assert.deepStrictEqual(migrated.errors, []);
+  assert.strictEqual(migrated.migratedFrom, 1);
+  assert.strictEqual(migrated.snapshot.version, SNAPSHOT_VERSION);
+  assert.strictEqual(migrated.snapshot.kit.primary, '#112233');
+  assert.strictEqual(migrated.snapshot.kitB.primary, '#dc2626');
+  assert.strictEqual(migrated.snapshot.kit.pattern, 'solid');
+  const carded = migrated.snapshot.players[3];
+  assert.strictEqual(carded.number, '4');
+  assert.strictEqual(carded.yellowCards, 1);
+  assert.strictEqual(carded.redCardReason, 'straight');
+  assert.ok(!('yellowCard' in carded));
+  assert.strictEqual(migrated.snapshot.matchClock.periodLength, 45);
+  assert.strictEqual(migrated.snapshot.tie.leg, null);
+  assert.strictEqual(migrated.snapshot.scoreA, 2);
+  console.log('ok - version 1 snapshot migrates to the current version');
+
+  const current = parseSnapshot({ ...migrated.snapshot, matchStats: { A: [], B: [] }, fixture: { id: '900001', status: 'FT' } });
+  assert.deepStrictEqual(current.errors, []);
+  assert.strictEqual(current.migratedFrom, null);
+
+  const invalid = parseSnapshot({
+    version: SNAPSHOT_VERSION,
+    formation: F442,
+    players: [{ number: 1, name: 'A' }, 'nobody'],
+    kit: { primary: 'red', secondary: '#ffffff', number: '#ffffff', pattern: 'zigzag', contrastSleeves: false },
+    scoreA: -1,
+    fixture: { id: 900001, status: null },
+  });
+  assert.strictEqual(invalid.snapshot, null);
+  assert.deepStrictEqual(invalid.errors, [
+    'players[0].number: 문자열이어야 합니다',
+    'players[1]: 객체여야 합니다',
+    'kit.primary: "#rrggbb" 형식의 색이어야 합니다',
+    'kit.pattern: solid, stripes, hoops, halves, sash 중 하나여야 합니다',
+    'scoreA: 0 이상이어야 합니다',
+    'fixture.id: 문자열 또는 null이어야 합니다',
+    'formation: 포메이션 4-4-2 선수 합계(11명)가 선발 선수 수(2명)와 다릅니다',
+  ]);
+  assert.deepStrictEqual(parseSnapshot({ version: SNAPSHOT_VERSION + 1 }).errors, [`version: 더 새로운 버전(${SNAPSHOT_VERSION + 1})의 앱에서 저장한 파일입니다`]);
+  assert.deepStrictEqual(parseSnapshot([]).errors, ['라인업 파일 형식이 아닙니다']);
+  console.log('ok - invalid and newer snapshots are rejected with readable errors');
+}
+
+try {
+  checkLineupText();
+  checkSnapshots();
+} catch (err) {
+  console.error('not ok -', err && err.stack ? err.stack : err);
+  process.exit(1);
+}
@@ -0,0 +1,26 @@
+// Bundles modules from src/lib with esbuild and evaluates them in this process,
+// so the node test scripts can exercise the app's TypeScript without a build.
+// Several files are merged into one exports object.
+const path = require('path');
+const esbuild = require('esbuild');
+
+const root = path.resolve(__dirname, '..');
+
+function loadModule(...files) {
+  const result = esbuild.buildSync({
+    stdin: {
+      contents: files.map((file) => `export * from './src/lib/${file}';`).join('\n'),
+      resolveDir: root,
+      loader: 'ts',
+    },
+    bundle: true,
+    platform: 'node',
+    format: 'cjs',
+    write: false,
+  });
+  const mod = { exports: {} };
+  new Function('module', 'exports', 'require', result.outputFiles[0].text)(mod, mod.exports, require);
+  return mod.exports;
+}
+
+module.exports = { loadModule };
@@ -0,0 +1,190 @@
+#!/usr/bin/env node
+// Checks the API-Football parsers (src/lib/match-data) against the recorded
+// responses in data/mock-api-football/900001: lineups with live substitutions,
+// goals and cards, team statistics and formation strings. Also checks the
+// auto-refresh delay (src/lib/match-data/polling.ts) and the grid-based pitch
+// layout of the recorded lineups (src/lib/positions.ts).
+const assert = require('assert');
+const fs = require('fs');
+const path = require('path');
+const { loadModule } = require('./load-ts-module');
+
+const root = path.resolve(__dirname, '..');
+const recordings = path.join(root, 'data', 'mock-api-football', '900001');
+
+const readRecording = (file) => JSON.parse(fs.readFileSync(path.join(recordings, file), 'utf8'));
+
+function byName(players, name) {
+  const player = players.find((p) => p.name === name);
+  assert.ok(player, `${name} not found`);
+  return player;
+}
+
+function checkPolling({ nextPollDelay, POLL_INTERVAL_MS, AFTER_EVENT_WINDOW_MS }) {
+  const now = 1_000_000;
+  const poll = (overrides) => ({ status: '1H', lastEventAt: null, rateLimitStrikes: 0, retryAfterMs: null, quota: null, ...overrides });
+  const quota = (remaining, limit = 100) => ({ limit, remaining, updatedAt: now });
+
+  const live = nextPollDelay(poll(), now);
+  assert.strictEqual(live, POLL_INTERVAL_MS.live);
+  assert.ok(nextPollDelay(poll({ status: 'HT' }), now) > live, 'half-time polls slower than live');
+  assert.ok(nextPollDelay(poll({ status: 'NS' }), now) > live, 'pre-match polls slower than live');
+  assert.strictEqual(nextPollDelay(poll({ status: 'FT' }), now), POLL_INTERVAL_MS.finished);
+  console.log('ok - nextPollDelay polls idle and finished fixtures slower than live play');
+
+  assert.strictEqual(nextPollDelay(poll({ lastEventAt: now - 1_000 }), now), POLL_INTERVAL_MS.afterEvent);
+  assert.ok(POLL_INTERVAL_MS.afterEvent < live);
+  assert.strictEqual(nextPollDelay(poll({ lastEventAt: now - AFTER_EVENT_WINDOW_MS }), now), live, 'back to live after the window');
+  assert.strictEqual(nextPollDelay(poll({ status: 'HT', lastEventAt: now - 1_000 }), now), POLL_INTERVAL_MS.idle);
+  console.log('ok - nextPollDelay polls faster right after an event');
+
+  const strikes = [1, 2, 3].map((n) => nextPollDelay(poll({ rateLimitStrikes: n }), now));
+  assert.deepStrictEqual(strikes, [live * 2, live * 4, live * 8]);
+  assert.strictEqual(nextPollDelay(poll({ rateLimitStrikes: 10 }), now), POLL_INTERVAL_MS.max);
+  assert.strictEqual(nextPollDelay(poll({ rateLimitStrikes: 1, retryAfterMs: 200_000 }), now), 200_000);
+  assert.strictEqual(nextPollDelay(poll({ rateLimitStrikes: 3, retryAfterMs: 1_000 }), now), live * 8, 'a shorter Retry-After keeps the backoff');
+  assert.strictEqual(nextPollDelay(poll({ rateLimitStrikes: 1, retryAfterMs: POLL_INTERVAL_MS.max * 2 }), now), POLL_INTERVAL_MS.max);
+  console.log('ok - nextPollDelay doubles on repeated rate limits up to the max and honours Retry-After');
+
+  assert.strictEqual(nextPollDelay(poll({ quota: quota(50) }), now), live);
+  assert.strictEqual(nextPollDelay(poll({ quota: quota(20) }), now), live * 2);
+  assert.strictEqual(nextPollDelay(poll({ quota: quota(5) }), now), live * 4);
+  assert.strictEqual(nextPollDelay(poll({ quota: quota(0) }), now), Infinity);
+  assert.strictEqual(nextPollDelay(poll({ quota: quota(null) }), now), live);
+  console.log('ok - nextPollDelay slows down on a low daily quota and stops when it runs out');
+}
+
+function checkGridLayout({ calcPlayerPositions, calcPositions }, home, away) {
+  const gridsOnly = (players) => players.map((p) => ({ grid: p.grid }));
+  const rows = (players, positions) => {
+    const byRow = new Map();
+    players.forEach((p, i) => {
+      const [row, col] = p.grid.split(':').map(Number);
+      byRow.set(row, [...(byRow.get(row) ?? []), { col, ...positions[i] }]);
+    });
+    return byRow;
+  };
+
+  // 기록된 라인업: 같은 row는 같은 높이, col 1이 오른쪽 (col이 커질수록 x가 작아진다)
+  for (const live of [home, away]) {
+    const players = gridsOnly(live.players);
+    const positions = calcPlayerPositions(live.formation, players);
+    const byRow = rows(players, positions);
+    assert.strictEqual(byRow.size, live.formation.lines.length);
+    byRow.forEach((cells, row) => {
+      assert.strictEqual(new Set(cells.map((c) => c.y)).size, 1, `row ${row} on one line`);
+      const xs = cells.sort((a, b) => a.col - b.col).map((c) => c.x);
+      xs.slice(1).forEach((x, i) => assert.ok(x < xs[i], `row ${row} col ${i + 2} left of col ${i + 1}`));
+    });
+    assert.strictEqual(byRow.get(1)[0].y, 90);
+    assert.strictEqual(byRow.get(byRow.size)[0].y, 10);
+  }
+  console.log('ok - calcPlayerPositions places the recorded lineups by grid row and column');
+
+  // 3-4-1-2: 선수 순서가 라인 순서와 달라도 grid 자리를 따른다
+  const F3412 = { name: '3-4-1-2', lines: [1, 3, 4, 1, 2] };
+  const cells = ['1:1', '2:1', '2:2', '2:3', '3:1', '3:2', '3:3', '3:4', '4:1', '5:1', '5:2'];
+  const ordered = calcPlayerPositions(F3412, cells.map((grid) => ({ grid })));
+  assert.deepStrictEqual(ordered, calcPositions(F3412));
+  const shuffled = [0, 9, 4, 1, 8, 5, 2, 10, 6, 3, 7].map((i) => cells[i]);
+  const shuffledPositions = calcPlayerPositions(F3412, shuffled.map((grid) => ({ grid })));
+  shuffled.forEach((grid, i) => assert.deepStrictEqual(shuffledPositions[i], ordered[cells.indexOf(grid)], grid));
+  assert.deepStrictEqual(shuffledPositions[shuffled.indexOf('4:1')], { x: 50, y: 30 }, 'lone 10 centred on the fourth line');
+  // 포메이션 문자열(4-4-2)보다 grid 모양(3-4-1-2)이 우선
+  const fromGrid = calcPlayerPositions({ name: '4-4-2', lines: [1, 4, 4, 2] }, cells.map((grid) => ({ grid })));
+  assert.deepStrictEqual(fromGrid, ordered);
+  console.log('ok - calcPlayerPositions follows grids for asymmetric shapes and unordered players');
+
+  // grid가 일부만 있거나 겹치면 포메이션 라인 배치로 돌아간다
+  const lineLayout = calcPlayerPositions(F3412, cells.map(() => ({ grid: null })));
+  assert.deepStrictEqual(lineLayout, calcPositions(F3412));
+  const partial = cells.map((grid, i) => ({ grid: i === 5 ? null : grid }));
+  assert.deepStrictEqual(calcPlayerPositions(F3412, partial), lineLayout);
+  const malformed = cells.map((grid, i) => ({ grid: i === 5 ? '3-2' : grid }));
+  assert.deepStrictEqual(calcPlayerPositions(F3412, malformed), lineLayout);
+  const duplicate = cells.map((grid, i) => ({ grid: i === 5 ? '3:1' : grid }));
+  assert.deepStrictEqual(calcPlayerPositions(F3412, duplicate), lineLayout);
+  console.log('ok - calcPlayerPositions falls back to the line layout for partial, malformed or duplicate grids');
+}
+
+function main() {
+  const modules = loadModule('match-data/api-football.ts', 'match-data/lineup.ts', 'match-data/polling.ts', 'positions.ts');
+  const { parseFormation, parseTeamStats, getLivePlayers, toTeamLineup, toMatchEvent, captainIdsOf, toFixtureSummary } = modules;
+
+  assert.deepStrictEqual(parseFormation('4-2-3-1'), [1, 4, 2, 3, 1]);
+  assert.deepStrictEqual(parseFormation('3-5-2'), [1, 3, 5, 2]);
+  assert.deepStrictEqual(parseFormation(''), [1, 4, 3, 3]);
+  assert.deepStrictEqual(parseFormation('4-x-3'), [1, 4, 3, 3]);
+  console.log('ok - parseFormation reads feed formation strings and falls back to 4-3-3');
+
+  // 기록된 통계는 전반(45분)과 종료(90분) 두 시점
+  const fullTime = readRecording('statistics.json').find((s) => s.elapsed === 90).response;
+  const homeStats = parseTeamStats(fullTime, 0);
+  const awayStats = parseTeamStats(fullTime, 1);
+  const stat = (stats, type) => stats.find((s) => s.type === type).value;
+  assert.strictEqual(stat(homeStats, 'Ball Possession'), '58%');
+  assert.strictEqual(stat(homeStats, 'Red Cards'), '0'); // null -> "0"
+  assert.strictEqual(stat(awayStats, 'Red Cards'), '1');
+  assert.strictEqual(stat(awayStats, 'Total Shots'), '12');
+  assert.ok(!homeStats.some((s) => s.type === 'Total passes'), 'only the listed stat keys are kept');
+  assert.deepStrictEqual(parseTeamStats([], 0), []);
+  console.log('ok - parseTeamStats maps recorded statistics per team');
+
+  const fixture = readRecording('fixtures.json').response[0];
+  assert.deepStrictEqual(toFixtureSummary(fixture).status, { short: 'FT', elapsed: 90, extra: null });
+  const stoppage = { ...fixture, fixture: { ...fixture.fixture, status: { short: '2H', elapsed: 90, extra: 4 } } };
+  assert.deepStrictEqual(toFixtureSummary(stoppage).status, { short: '2H', elapsed: 90, extra: 4 });
+  console.log('ok - toFixtureSummary keeps the elapsed minute and added time');
+
+  const events = fixture.events.map(toMatchEvent);
+  const [homeRaw, awayRaw] = readRecording('lineups.json').response;
+  const home = toTeamLineup(homeRaw, captainIdsOf(fixture));
+  const away = toTeamLineup(awayRaw, captainIdsOf(fixture));
+  assert.strictEqual(home.colors.player, '#ef0107');
+  assert.strictEqual(away.colors.goalkeeper, '#f2c500');
+
+  const homeLive = getLivePlayers(home, events);
+  assert.strictEqual(homeLive.players.length, 11);
+  assert.strictEqual(homeLive.substitutions.length, 3);
+  assert.deepStrictEqual(homeLive.bench.map((p) => p.name), ['A. Reyes', 'C. Dufour', 'I. Barros']);
+  // 교체 선수는 나간 선수의 grid 자리를 이어받는다
+  const walsh = byName(homeLive.players, 'O. Walsh');
+  assert.strictEqual(walsh.number, '23');
+  assert.strictEqual(walsh.grid, '4:2');
+  assert.strictEqual(walsh.role, 'FW');
+  assert.ok(!homeLive.players.some((p) => p.name === 'E. Novak'), 'substituted scorer left the pitch');
+  assert.strictEqual(byName(homeLive.players, 'S. Adeyemi').goals, 1); // penalty
+  assert.strictEqual(byName(homeLive.players, 'M. Lindqvist').yellowCards, 1);
+  assert.strictEqual(byName(homeLive.players, 'N. Holm').yellowCards, 0); // Brandt's card stays with Brandt
+  assert.deepStrictEqual(homeLive.substitutions[0], {
+    minute: 63,
+    playerOut: { number: '11', name: 'P. Quinn', role: 'FW' },
+    playerIn: { number: '19', name: 'F. Santoro', role: 'FW' },
+  });
+  console.log('ok - getLivePlayers applies home substitutions, goals and cards');
+
+  const awayLive = getLivePlayers(away, events);
+  const tanaka = byName(awayLive.players, 'Y. Tanaka');
+  assert.strictEqual(tanaka.redCard, true);
+  assert.strictEqual(tanaka.redCardReason, 'second-yellow');
+  assert.strictEqual(tanaka.yellowCards, 2);
+  assert.strictEqual(byName(awayLive.players, 'M. Strand').goals, 1);
+  assert.strictEqual(byName(awayLive.players, 'V. Kowalski').goals, 0); // own goal
+  const nwosu = byName(awayLive.players, 'B. Nwosu');
+  assert.strictEqual(nwosu.goals, 0); // missed penalty
+  assert.strictEqual(nwosu.grid, '4:1');
+  assert.ok(awayLive.players.every((p) => p.captain === undefined), 'no captains without player statistics');
+  console.log('ok - getLivePlayers leaves own goals and missed penalties uncredited and tracks second yellows');
+
+  const homeFormation = { name: home.formation, lines: parseFormation(home.formation) };
+  const awayFormation = { name: away.formation, lines: parseFormation(away.formation) };
+  checkGridLayout(modules, { ...homeLive, formation: homeFormation }, { ...awayLive, formation: awayFormation });
+  checkPolling(modules);
+}
+
+try {
+  main();
+} catch (err) {
+  console.error('not ok -', err && err.stack ? err.stack : err);
+  process.exit(1);
+}
@@ -0,0 +1,361 @@
+#!/usr/bin/env node
+// Checks the pure match-state rules: manual substitutions and their undo
+// (src/lib/substitutions.ts), the match clock with stoppage time and API sync
+// (src/lib/match-clock.ts), card accumulation (src/lib/cards.ts), the
+// penalty shootout (src/lib/shootout.ts), two-legged ties (src/lib/tie.ts),
+// player roles with the role-aware layout (src/lib/roles.ts, positions.ts),
+// kits (src/lib/kits.ts) and kit colour distance and clashes (src/lib/colors.ts).
+const assert = require('assert');
+const { loadModule } = require('./load-ts-module');
+
+function checkSubstitutions() {
+  const { applySubstitution, undoLastSubstitution } = loadModule('substitutions.ts');
+  const starter = { number: '9', name: 'Starter', grid: '4:1', role: 'FW', detailedPosition: 'ST', yellowCards: 1, goals: 2, captain: true };
+  const sheet = {
+    players: [{ number: '1', name: 'Keeper', grid: '1:1' }, starter],
+    bench: [{ number: '12', name: 'Sub Keeper', role: 'GK' }, { number: '19', name: 'Sub' }],
+    substitutions: [],
+  };
+
+  const subbed = applySubstitution(sheet, 1, 1, 63);
+  assert.deepStrictEqual(subbed.players[1], { number: '19', name: 'Sub', grid: '4:1', role: 'FW', detailedPosition: 'ST' });
+  assert.deepStrictEqual(subbed.bench.map((p) => p.number), ['12']);
+  assert.deepStrictEqual(subbed.substitutions, [{
+    minute: 63,
+    playerOut: { number: '9', name: 'Starter', role: 'FW', detailedPosition: 'ST' },
+    playerIn: { number: '19', name: 'Sub', role: undefined, detailedPosition: undefined },
+    replaced: starter,
+    substitute: sheet.bench[1],
+  }]);
+  assert.strictEqual(sheet.players[1], starter, 'the input sheet is left untouched');
+  assert.strictEqual(applySubstitution(sheet, 5, 0, null), null);
+  assert.strictEqual(applySubstitution(sheet, 0, 5, null), null);
+  const sentOff = { ...sheet, players: [sheet.players[0], { ...starter, redCard: true, redCardReason: 'straight' }] };
+  assert.strictEqual(applySubstitution(sentOff, 1, 1, 70), null, 'a sent-off player cannot be replaced');
+  console.log('ok - applySubstitution puts the bench player in the same slot without passing on cards, goals or the armband');
+
+  const undone = undoLastSubstitution(subbed);
+  assert.deepStrictEqual(undone.players, sheet.players);
+  assert.deepStrictEqual(undone.bench.map((p) => p.number), ['12', '19']);
+  // 벤치 주장 등 벤치에서의 정보도 그대로 돌아간다
+  const captainOnBench = { ...sheet, bench: [{ number: '4', name: 'Skipper', role: 'DF', captain: true, goals: 0 }] };
+  const benchReturn = undoLastSubstitution(applySubstitution(captainOnBench, 1, 0, 80));
+  assert.deepStrictEqual(benchReturn.bench, captainOnBench.bench);
+  assert.deepStrictEqual(undone.substitutions, []);
+  assert.strictEqual(undoLastSubstitution(sheet), null);
+  // 기록만 있고 선수가 이미 바뀐 경우 (API 교체 등): 라인업은 그대로, 벤치와 기록만 되돌린다
+  const legacy = { ...subbed, players: sheet.players, substitutions: subbed.substitutions.map(({ replaced, substitute, ...sub }) => sub) };
+  assert.deepStrictEqual(undoLastSubstitution(legacy).players, sheet.players);
+  console.log('ok - undoLastSubstitution restores the full outgoing player and returns the full substitute to the bench');
+}
+
+function checkMatchClock() {
+  const { DEFAULT_MATCH_CLOCK, readClock, startPeriod, pauseClock, setClockTime, syncClockToApi } = loadModule('match-clock.ts');
+  const t0 = 1_000_000;
+  const at = (seconds) => t0 + seconds * 1000;
+
+  const firstHalf = startPeriod(DEFAULT_MATCH_CLOCK, '1H', t0);
+  assert.strictEqual(readClock(firstHalf, at(0)).label, "1'");
+  assert.strictEqual(readClock(firstHalf, at(22 * 60 + 5)).label, "23'");
+  assert.strictEqual(readClock(firstHalf, at(22 * 60 + 5)).timer, '22:05');
+  const stoppage = readClock(firstHalf, at(46 * 60 + 30));
+  assert.strictEqual(stoppage.label, "45+2'");
+  assert.strictEqual(stoppage.addedMinute, 2);
+  assert.strictEqual(stoppage.minute, 46);
+  assert.strictEqual(readClock(firstHalf, at(44 * 60 + 59)).addedMinute, null);
+
+  const secondHalf = startPeriod(DEFAULT_MATCH_CLOCK, '2H', t0);
+  assert.strictEqual(readClock(secondHalf, at(0)).label, "46'");
+  assert.strictEqual(readClock(secondHalf, at(48 * 60)).label, "90+4'");
+  const et2 = startPeriod(DEFAULT_MATCH_CLOCK, 'ET2', t0);
+  assert.strictEqual(readClock(et2, at(15 * 60)).label, "120+1'");
+  assert.strictEqual(readClock(startPeriod(DEFAULT_MATCH_CLOCK, 'HT', t0), at(60)).label, 'HT');
+  assert.strictEqual(readClock(DEFAULT_MATCH_CLOCK, t0).timer, null);
+
+  const paused = pauseClock(firstHalf, at(600));
+  assert.strictEqual(readClock(paused, at(900)).timer, '10:00');
+  assert.strictEqual(readClock(setClockTime(startPeriod(DEFAULT_MATCH_CLOCK, '2H', t0), 67, 0, t0), t0).timer, '67:00');
+  console.log('ok - readClock labels regular time, stoppage time and breaks');
+
+  // 새 구간은 API 경과 분에서 시작하고, 작은 어긋남은 그대로 둔다
+  const synced = syncClockToApi(DEFAULT_MATCH_CLOCK, '1H', 23, null, t0);
+  assert.strictEqual(synced.period, '1H');
+  assert.strictEqual(readClock(synced, t0).timer, '22:00');
+  assert.strictEqual(syncClockToApi(synced, '1H', 24, null, at(100)), synced, 'within tolerance');
+  assert.strictEqual(readClock(syncClockToApi(synced, '1H', 30, null, at(60)), at(60)).timer, '29:00');
+  assert.strictEqual(syncClockToApi(synced, 'HT', 45, null, at(60)).period, 'HT');
+  assert.strictEqual(syncClockToApi(DEFAULT_MATCH_CLOCK, 'ET', 108, null, t0).period, 'ET2');
+  console.log('ok - syncClockToApi follows API periods and corrects drift beyond the tolerance');
+
+  // 45+N / 90+N: extra가 오면 추가시간 분으로 맞추고, 이미 맞는 시계는 되돌리지 않는다
+  const lateFirst = syncClockToApi(firstHalf, '1H', 45, 3, at(40 * 60));
+  assert.strictEqual(readClock(lateFirst, at(40 * 60)).label, "45+3'");
+  const running = startPeriod(DEFAULT_MATCH_CLOCK, '2H', t0);
+  const injury = at(47 * 60 + 30); // 90+3
+  assert.strictEqual(syncClockToApi(running, '2H', 90, 3, injury), running);
+  assert.strictEqual(readClock(syncClockToApi(running, '2H', 90, 3, injury), injury).label, "90+3'");
+  // extra가 없는 피드도 elapsed 90에 머무는 동안 앞서 가는 시계를 89:00으로 되돌리지 않는다
+  assert.strictEqual(syncClockToApi(running, '2H', 90, null, injury), running);
+  assert.strictEqual(readClock(syncClockToApi(running, '2H', 90, null, injury), injury).label, "90+3'");
+  const behind = pauseClock(running, at(40 * 60));
+  assert.strictEqual(readClock(syncClockToApi(behind, '2H', 90, null, injury), injury).timer, '89:00');
+  console.log('ok - syncClockToApi keeps 45+N and 90+N stoppage time instead of pulling the clock back');
+}
+
+function checkCards() {
+  const { addYellowCard, removeYellowCard, setRedCard, normalizePlayerCards } = loadModule('cards.ts');
+  const player = { number: '6', name: 'Holder' };
+
+  const booked = addYellowCard(player);
+  assert.deepStrictEqual(booked, { ...player, yellowCards: 1 });
+  const sentOff = addYellowCard(booked);
+  assert.deepStrictEqual(sentOff, { ...player, yellowCards: 2, redCard: true, redCardReason: 'second-yellow' });
+  assert.strictEqual(addYellowCard(sentOff), sentOff, 'no more cards after a red');
+  const rescinded = removeYellowCard(sentOff);
+  assert.strictEqual(rescinded.yellowCards, 1);
+  assert.strictEqual(rescinded.redCard, false);
+  assert.strictEqual(rescinded.redCardReason, undefined);
+  assert.strictEqual(removeYellowCard(player).yellowCards, 0);
+  console.log('ok - a second yellow becomes a red and removing it rescinds the red');
+
+  const straight = setRedCard(booked, 'straight');
+  assert.deepStrictEqual(straight, { ...player, yellowCards: 1, redCard: true, redCardReason: 'straight' });
+  assert.strictEqual(removeYellowCard(straight).redCard, true, 'a straight red survives removing a yellow');
+  assert.strictEqual(setRedCard(straight, null).yellowCards, 1);
+  assert.strictEqual(setRedCard(player, 'second-yellow').yellowCards, 2);
+  assert.strictEqual(setRedCard(setRedCard(player, 'second-yellow'), null).yellowCards, 1);
+  console.log('ok - setRedCard shows and clears straight and second-yellow reds');
+
+  assert.deepStrictEqual(normalizePlayerCards({ number: 7, name: 'Old', yellowCard: true, redCard: true }), {
+    number: '7', name: 'Old', yellowCards: 1, redCard: true, redCardReason: 'straight',
+  });
+  assert.strictEqual(normalizePlayerCards({ number: '8', name: 'New', yellowCards: 2, redCard: true, redCardReason: 'second-yellow' }).redCardReason, 'second-yellow');
+  assert.deepStrictEqual(normalizePlayerCards({ number: '9', name: 'Clean' }), { number: '9', name: 'Clean', yellowCards: 0, redCard: false, redCardReason: undefined });
+  console.log('ok - normalizePlayerCards reads the old yellowCard flag and reasonless reds');
+}
+
+function checkShootout() {
+  const { DEFAULT_SHOOTOUT, summarizeShootout, addShootoutKick, undoShootoutKick } = loadModule('shootout.ts');
+  const kick = (team, scored) => ({ team, taker: null, scored, source: 'manual' });
+  // 'A+' 득점, 'B-' 실축 순서로 킥을 기록
+  const take = (codes, state = DEFAULT_SHOOTOUT) =>
+    codes.split(' ').reduce((s, code) => addShootoutKick(s, kick(code[0], code[1] === '+')), state);
+
+  const opening = summarizeShootout(take('A+ B-'));
+  assert.deepStrictEqual(opening.score, { A: 1, B: 0 });
+  assert.deepStrictEqual(opening.rounds.A, [true, null, null, null, null]);
+  assert.strictEqual(opening.nextTeam, 'A');
+  assert.strictEqual(summarizeShootout(take('A+', { ...DEFAULT_SHOOTOUT, firstTeam: 'B' })).nextTeam, 'B');
+
+  // 3-0이면 B가 남은 두 킥을 넣어도 따라잡을 수 없다
+  const early = take('A+ B- A+ B- A+');
+  assert.strictEqual(summarizeShootout(early).winner, null);
+  const over = take('B-', early);
+  const decided = summarizeShootout(over);
+  assert.strictEqual(decided.winner, 'A');
+  assert.strictEqual(decided.nextTeam, null);
+  assert.strictEqual(addShootoutKick(over, kick('A', true)), over, 'no kicks after the winner');
+  assert.deepStrictEqual(summarizeShootout({ ...over, kicks: [...over.kicks, kick('A', true)] }).score, decided.score, 'stray kicks are ignored');
+  assert.strictEqual(summarizeShootout(undoShootoutKick(over)).winner, null);
+  console.log('ok - summarizeShootout ends the best-of-five once a team cannot catch up');
+
+  const level = take('A+ B+ A+ B+ A- B- A+ B+ A+ B+');
+  const afterFive = summarizeShootout(level);
+  assert.deepStrictEqual(afterFive.score, { A: 4, B: 4 });
+  assert.strictEqual(afterFive.suddenDeath, true);
+  assert.strictEqual(afterFive.winner, null);
+  const halfRound = summarizeShootout(take('A+', level));
+  assert.strictEqual(halfRound.winner, null, 'B still gets to answer in sudden death');
+  assert.strictEqual(halfRound.nextTeam, 'B');
+  assert.strictEqual(summarizeShootout(take('A+ B+', level)).winner, null);
+  const suddenDeath = summarizeShootout(take('A+ B+ A- B+', level));
+  assert.strictEqual(suddenDeath.winner, 'B');
+  assert.strictEqual(suddenDeath.suddenDeath, false);
+  assert.deepStrictEqual(suddenDeath.score, { A: 5, B: 6 });
+  assert.strictEqual(suddenDeath.rounds.A.length, 7);
+  assert.strictEqual(suddenDeath.rounds.B[6], true);
+  console.log('ok - summarizeShootout goes to sudden death and decides it after a full round');
+}
+
+function checkTie() {
+  const { DEFAULT_TIE, aggregateScore, swapTieSides, tieHeading } = loadModule('tie.ts');
+  const secondLeg = { ...DEFAULT_TIE, roundName: 'Round of 16', leg: 2, firstLeg: { A: 1, B: 2 } };
+
+  assert.strictEqual(aggregateScore(DEFAULT_TIE, 1, 0), null);
+  assert.strictEqual(aggregateScore({ ...secondLeg, leg: 1 }, 1, 0), null);
+  assert.strictEqual(aggregateScore({ ...secondLeg, firstLeg: null }, 1, 0), null);
+  assert.deepStrictEqual(aggregateScore(secondLeg, 2, 0), { A: 3, B: 2, awayGoals: null, leader: 'A', decidedBy: 'aggregate', label: 'agg. 3–2' });
+  assert.strictEqual(aggregateScore(secondLeg, 0, 1).leader, 'B');
+  assert.strictEqual(aggregateScore(secondLeg, 1, 0).leader, null, 'level without the away goals rule');
+  console.log('ok - aggregateScore adds the first leg in the second leg only');
+
+  // A가 2차전 홈: A의 원정골은 1차전 득점(1), B의 원정골은 2차전 득점
+  const awayGoals = { ...secondLeg, awayGoalsRule: true };
+  const levelNoAway = aggregateScore(awayGoals, 1, 0);
+  assert.deepStrictEqual(levelNoAway.awayGoals, { A: 1, B: 0 });
+  assert.strictEqual(levelNoAway.leader, 'A');
+  assert.strictEqual(levelNoAway.decidedBy, 'away-goals');
+  const levelAway = aggregateScore(awayGoals, 3, 2);
+  assert.deepStrictEqual([levelAway.A, levelAway.B], [4, 4]);
+  assert.strictEqual(levelAway.leader, 'B');
+  assert.strictEqual(levelAway.decidedBy, 'away-goals');
+  const dead = aggregateScore({ ...awayGoals, firstLeg: { A: 1, B: 1 } }, 1, 1);
+  assert.strictEqual(dead.leader, null);
+  assert.strictEqual(dead.decidedBy, null);
+  assert.strictEqual(aggregateScore(awayGoals, 2, 0).decidedBy, 'aggregate');
+  console.log('ok - aggregateScore breaks level aggregates on away goals when the rule is on');
+
+  // 팀 교환 후에도 같은 팀이 진출: 2차전 홈이 B로 바뀌고 원정골도 따라간다
+  const swapped = swapTieSides(awayGoals);
+  assert.deepStrictEqual(swapped.firstLeg, { A: 2, B: 1 });
+  assert.strictEqual(swapped.secondLegHost, 'B');
+  const afterSwap = aggregateScore(swapped, 0, 1);
+  assert.deepStrictEqual(afterSwap.awayGoals, { A: 0, B: 1 });
+  assert.strictEqual(afterSwap.leader, 'B');
+  assert.strictEqual(afterSwap.decidedBy, 'away-goals');
+  assert.deepStrictEqual(swapTieSides(swapped), awayGoals);
+  assert.strictEqual(swapTieSides(DEFAULT_TIE).firstLeg, null);
+  console.log('ok - swapTieSides keeps the second-leg host and away goals with the right team');
+
+  assert.strictEqual(tieHeading(secondLeg), 'Round of 16 · 2차전');
+  assert.strictEqual(tieHeading({ ...DEFAULT_TIE, roundName: '  Final ' }), 'Final');
+  assert.strictEqual(tieHeading(DEFAULT_TIE), '');
+  console.log('ok - tieHeading joins the round name and leg');
+}
+
+function checkRoles() {
+  const { roleForSlot, playerRole, roleFromApiPosition, positionSide } = loadModule('roles.ts');
+  const { calcPlayerPositions, calcPositions } = loadModule('positions.ts');
+  const F442 = { name: '4-4-2', lines: [1, 4, 4, 2] };
+  const F3412 = { name: '3-4-1-2', lines: [1, 3, 4, 1, 2] };
+
+  assert.strictEqual(Array.from({ length: 11 }, (_, i) => roleForSlot(F442, i)).join(' '), 'GK DF DF DF DF MF MF MF MF FW FW');
+  assert.strictEqual(roleForSlot(F3412, 8), 'MF', 'the lone 10 is midfield, not attack');
+  assert.strictEqual(roleForSlot(F3412, 9), 'FW');
+  assert.strictEqual(playerRole({ number: '5', name: 'Pivot', role: 'FW' }, F442, 2), 'FW');
+  assert.strictEqual(playerRole({ number: '5', name: 'Pivot' }, F442, 2), 'DF');
+  assert.strictEqual(roleFromApiPosition(' g '), 'GK');
+  assert.strictEqual(roleFromApiPosition('F'), 'FW');
+  assert.strictEqual(roleFromApiPosition('X'), undefined);
+  assert.strictEqual(roleFromApiPosition(null), undefined);
+  assert.strictEqual(positionSide('LWB'), 'left');
+  assert.strictEqual(positionSide('RW'), 'right');
+  assert.strictEqual(positionSide('CB'), null);
+  console.log('ok - roles follow the player, else their formation line; API and detailed positions map to roles and sides');
+
+  // 4-4-2 수비 라인: 기본 배치는 첫 선수가 오른쪽. LB/RB는 각자 측면 끝으로 간다
+  const back = (positions) => positions.slice(1, 5).map((p) => p.x);
+  const plain = back(calcPositions(F442));
+  const players = Array.from({ length: 11 }, () => ({}));
+  players[1] = { detailedPosition: 'LB' };
+  players[4] = { detailedPosition: 'RB' };
+  const layout = calcPlayerPositions(F442, players);
+  assert.deepStrictEqual(back(layout), [plain[3], plain[1], plain[2], plain[0]]);
+  assert.deepStrictEqual(layout.slice(5), calcPositions(F442).slice(5), 'other lines untouched');
+  assert.deepStrictEqual(calcPlayerPositions(F442, Array.from({ length: 11 }, () => ({}))), calcPositions(F442));
+
+  // 3명 라인의 LM은 가장 왼쪽 자리보다 더 바깥(최소 폭)으로
+  const F433 = { name: '4-3-3', lines: [1, 4, 3, 3] };
+  const midfield = Array.from({ length: 11 }, () => ({}));
+  midfield[5] = { detailedPosition: 'LM' };
+  const wide = calcPlayerPositions(F433, midfield);
+  assert.strictEqual(wide[5].x, 14);
+  assert.ok(calcPositions(F433)[7].x > 14, 'the plain left slot is narrower');
+  console.log('ok - calcPlayerPositions moves wide players to their side of the line and keeps them wide');
+
+  // 역할이 라인과 다르면 역할의 라인으로: 미드필더 자리의 FW는 공격 라인으로, 밀려난 선수는 미드필드로
+  const slots = calcPositions(F442);
+  const roles = ['GK', 'DF', 'DF', 'DF', 'DF', 'MF', 'FW', 'MF', 'MF', 'MF', 'FW'].map((role) => ({ role }));
+  const byRole = calcPlayerPositions(F442, roles);
+  assert.deepStrictEqual(byRole[6], slots[9]);
+  assert.deepStrictEqual(byRole[9], slots[6]);
+  assert.deepStrictEqual(byRole.slice(7, 9), slots.slice(7, 9));
+  assert.deepStrictEqual(byRole[10], slots[10]);
+  const partialRoles = Array.from({ length: 11 }, (_, i) => (i === 2 ? { role: 'FW' } : {}));
+  const moved = calcPlayerPositions(F442, partialRoles);
+  assert.deepStrictEqual(moved[2], slots[9], 'a DF-slot forward trades with the first attacker without a role');
+  assert.deepStrictEqual(moved[9], slots[2]);
+  assert.deepStrictEqual(moved.slice(3, 9), slots.slice(3, 9), 'other lines keep their players');
+  assert.deepStrictEqual(moved[10], slots[10]);
+  // 역할이 맞지 않아도 바꿀 상대가 없으면 (골키퍼 둘) 자리 유지
+  const twoKeepers = Array.from({ length: 11 }, (_, i) => ({ role: roleForSlot(F442, i) }));
+  twoKeepers[5] = { role: 'GK' };
+  assert.deepStrictEqual(calcPlayerPositions(F442, twoKeepers), slots);
+  // 로스터/텍스트 입력처럼 역할이 라인과 맞으면 그대로, API grid가 있으면 grid가 우선
+  assert.deepStrictEqual(calcPlayerPositions(F442, ['GK', 'DF', 'DF', 'DF', 'DF', 'MF', 'MF', 'MF', 'MF', 'FW', 'FW'].map((role) => ({ role }))), slots);
+  const grids = ['1:1', '2:1', '2:2', '2:3', '2:4', '3:1', '3:2', '3:3', '3:4', '4:1', '4:2'];
+  assert.deepStrictEqual(calcPlayerPositions(F442, roles.map((p, i) => ({ ...p, grid: grids[i] }))), slots);
+  console.log('ok - calcPlayerPositions moves players whose role differs from their slot to the line of their role');
+}
+
+function checkKits() {
+  const { kitFromColor, goalkeeperKit, normalizeKit } = loadModule('kits.ts');
+
+  const red = kitFromColor('#dc2626');
+  assert.deepStrictEqual(red, { primary: '#dc2626', secondary: '#ffffff', number: '#ffffff', pattern: 'solid', contrastSleeves: false });
+  const striped = { ...red, secondary: '#111111', number: '#000000', pattern: 'stripes', contrastSleeves: true };
+  assert.deepStrictEqual(goalkeeperKit('#eab308', striped), { ...kitFromColor('#eab308'), number: '#000000' });
+  console.log('ok - kitFromColor and goalkeeperKit build plain shirts');
+
+  assert.deepStrictEqual(normalizeKit(striped, '#2563eb'), striped);
+  assert.deepStrictEqual(normalizeKit(undefined, '#2563eb'), kitFromColor('#2563eb'));
+  assert.deepStrictEqual(normalizeKit('red', '#2563eb'), kitFromColor('#2563eb'));
+  assert.deepStrictEqual(
+    normalizeKit({ primary: 'red', secondary: '#12345', number: '#ABCDEF', pattern: 'zigzag', contrastSleeves: 'yes' }, '#2563eb'),
+    { ...kitFromColor('#2563eb'), number: '#ABCDEF' },
+  );
+  console.log('ok - normalizeKit keeps valid saved fields and fills the rest from the fallback colour');
+}
+
+function checkKitColors() {
+  const { colorDistance, detectKitClash, hexToRgb, rgbToHex, CLASH_DISTANCE } = loadModule('colors.ts');
+  const { kitFromColor, recolorKit } = loadModule('kits.ts');
+  const near = (actual, expected) => assert.ok(Math.abs(actual - expected) < 0.01, `${actual} != ${expected}`);
+
+  // sRGB 기준 CIEDE2000 참고값
+  near(colorDistance('#000000', '#ffffff'), 100);
+  near(colorDistance('#ff0000', '#00ff00'), 86.615);
+  near(colorDistance('#ff0000', '#0000ff'), 52.8787);
+  assert.strictEqual(colorDistance('#dc2626', '#dc2626'), 0);
+  near(colorDistance('#2563eb', '#16a34a'), colorDistance('#16a34a', '#2563eb'));
+  assert.ok(colorDistance('#ffffff', '#f5f5f5') < 3, 'white and off-white barely differ');
+  assert.deepStrictEqual(hexToRgb('#ea580c'), [234, 88, 12]);
+  assert.strictEqual(rgbToHex([300, -4, 15.6]), '#ff0010');
+  console.log('ok - colorDistance matches CIEDE2000 reference values');
+
+  const red = kitFromColor('#dc2626');
+  const blue = kitFromColor('#2563eb');
+  assert.strictEqual(detectKitClash(red, blue), null);
+  assert.ok(colorDistance('#dc2626', '#b91c1c') < CLASH_DISTANCE);
+  const darkRed = { ...kitFromColor('#b91c1c'), secondary: '#111111' };
+  const clash = detectKitClash(red, darkRed);
+  near(clash.distance, colorDistance('#dc2626', '#b91c1c'));
+  assert.deepStrictEqual(clash.alternate, { ...darkRed, primary: '#111111', secondary: '#b91c1c' });
+  // 보조 색도 겹치면 후보 중 가장 먼 색, 흰 등번호가 흰 셔츠와 겹치면 원래 기본 색으로
+  const allRed = { ...kitFromColor('#b91c1c'), secondary: '#c81e1e' };
+  const proposal = detectKitClash(red, allRed).alternate;
+  assert.notStrictEqual(proposal.primary, '#c81e1e');
+  assert.ok(colorDistance(proposal.primary, red.primary) >= CLASH_DISTANCE);
+  const whiteAway = detectKitClash(red, kitFromColor('#b91c1c')).alternate;
+  assert.strictEqual(whiteAway.primary, '#ffffff');
+  assert.strictEqual(whiteAway.number, '#b91c1c');
+  console.log('ok - detectKitClash flags kits under the clash distance and proposes a clear alternate for team B');
+
+  assert.deepStrictEqual(recolorKit({ ...red, pattern: 'hoops' }, '#0a0a0a', null), { ...red, pattern: 'hoops', primary: '#0a0a0a', number: '#ffffff' });
+  assert.deepStrictEqual(recolorKit(red, '#facc15', '#1e3a8a'), { ...red, primary: '#facc15', secondary: '#1e3a8a', number: '#000000' });
+  console.log('ok - recolorKit keeps the pattern and picks readable number colours');
+}
+
+try {
+  checkSubstitutions();
+  checkMatchClock();
+  checkCards();
+  checkShootout();
+  checkTie();
+  checkRoles();
+  checkKits();
+  checkKitColors();
+} catch (err) {
+  console.error('not ok -', err && err.stack ? err.stack : err);
+  process.exit(1);
+}
@@ -0,0 +1,27 @@
+#!/usr/bin/env node
+// Runs the fake API-Football server outside Electron (e.g. next to `npm run dev`).
+//   node scripts/mock-api-football.js [--port 9105] [--speed 10] [--start-minute -2]
+const path = require('path');
+const { startMockApiServer, DEFAULT_MOCK_PORT } = require('../electron/mock-api-server');
+
+function option(name, fallback) {
+  const index = process.argv.indexOf(`--${name}`);
+  if (index === -1 || index + 1 >= process.argv.length) return fallback;
+  const value = Number(process.argv[index + 1]);
+  return Number.isFinite(value) ? value : fallback;
+}
+
+const root = path.resolve(__dirname, '..');
+
+startMockApiServer({
+  port: option('port', DEFAULT_MOCK_PORT),
+  speed: option('speed', 1),
+  startMinute: option('start-minute', 0),
+  assetRoots: [path.join(root, 'public', 'assets'), path.join(root, 'src', 'assets')],
+}).then(({ info }) => {
+  if (!info.running) {
+    console.error('mock API-Football server failed to start:', info.error);
+    process.exit(1);
+  }
+  console.log(`mock API-Football on ${info.url} (${info.fixtures} recorded fixtures, speed x${info.speed})`);
+});
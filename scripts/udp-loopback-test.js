@@ -0,0 +1,226 @@
+#!/usr/bin/env node
+// Loopback check for the UDP broadcast path: builds a payload with the same
+// builder App.tsx uses, sends it through electron/udp-sender.js to a socket on
+// 127.0.0.1 and verifies the JSON that arrives.
+const assert = require('assert');
+const dgram = require('dgram');
+const { createUdpSender, createChunkAssembler, encodeDatagrams, MAX_DATAGRAM_BYTES } = require('../electron/udp-sender');
+const { createBroadcastHub } = require('../electron/broadcast-hub');
+const { diffPayloads } = require('../electron/broadcast-delta');
+const { loadModule } = require('./load-ts-module');
+
+function listen() {
+  return new Promise((resolve) => {
+    const socket = dgram.createSocket('udp4');
+    socket.bind(0, '127.0.0.1', () => resolve(socket));
+  });
+}
+
+function receiveOne(socket, assemble) {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error('timed out waiting for datagram')), 2000);
+    const onMessage = (msg) => {
+      const payload = assemble(msg);
+      if (payload === null) return;
+      clearTimeout(timer);
+      socket.off('message', onMessage);
+      resolve({ payload, size: msg.length });
+    };
+    socket.on('message', onMessage);
+  });
+}
+
+// the hub's socket binds lazily on first send; wait until it has a port
+async function waitForBoundPort(udp) {
+  for (let i = 0; i < 50; i++) {
+    const address = udp.getLocalAddress();
+    if (address) return { address: '127.0.0.1', port: address.port };
+    // eslint-disable-next-line no-await-in-loop
+    await new Promise((resolve) => setTimeout(resolve, 20));
+  }
+  throw new Error('udp sender never bound');
+}
+
+function samplePlayers(count, prefix) {
+  return Array.from({ length: count }, (_, i) => ({ number: String(i + 1), name: `${prefix} ${i + 1}` }));
+}
+
+async function main() {
+  const { buildBroadcastPayload, BROADCAST_SCHEMA_VERSION } = loadModule('broadcast.ts');
+  const receiver = await listen();
+  const { port } = receiver.address();
+  const sender = createUdpSender({ host: '127.0.0.1', port });
+  const assemble = createChunkAssembler();
+
+  try {
+    // 1. regular payload arrives as a single datagram and round-trips unchanged
+    const formation = { name: '4-3-3', lines: [1, 4, 3, 3] };
+    const formationB = { name: '4-2-3-1', lines: [1, 4, 2, 3, 1] };
+    const players = samplePlayers(11, 'Home');
+    players[9] = { ...players[9], yellowCards: 1, goals: 2 };
+    players[4] = { ...players[4], yellowCards: 2, redCard: true, redCardReason: 'second-yellow' };
+    const playersB = samplePlayers(11, 'Away');
+    const teamLogoA = {
+      id: 'england/arsenal',
+      slug: 'arsenal',
+      country: 'england',
+      englishName: 'Arsenal',
+      logos: { svg: './assets/logos/england/arsenal.svg', png: null },
+    };
+    const payload = buildBroadcastPayload({
+      formation,
+      formationB,
+      players,
+      playersB,
+      bench: [{ number: '12', name: 'Home Sub' }],
+      benchB: [],
+      substitutions: [{ minute: 60, playerOut: { number: '7', name: 'Home 7' }, playerIn: { number: '14', name: 'Home 14' } }],
+      substitutionsB: [],
+      overrides: { 0: { x: 40, y: 80 } },
+      overridesB: {},
+      verticalMode: false,
+      scoreA: 2,
+      scoreB: 1,
+      teamNameA: 'Arsenal',
+      teamNameB: '',
+      teamLogoA,
+      teamLogoB: null,
+      uniformColor: '#dc2626',
+      uniformColorB: '#f5f5f5',
+      matchTime: '67:00',
+      matchStatus: '2H',
+      statsA: [{ type: 'Total Shots', value: '9' }],
+      statsB: [],
+    });
+
+    const received = receiveOne(receiver, assemble);
+    const result = await sender.send(payload);
+    assert.strictEqual(result.success, true, result.error);
+    assert.strictEqual(result.datagrams, 1);
+    const { payload: got } = await received;
+
+    assert.deepStrictEqual(got, JSON.parse(JSON.stringify(payload)));
+    assert.strictEqual(got.schemaVersion, BROADCAST_SCHEMA_VERSION);
+    assert.strictEqual(got.match.scoreA, 2);
+    assert.strictEqual(got.match.elapsed, '67:00');
+    assert.strictEqual(got.match.teamA.formation, '4-3-3');
+    assert.strictEqual(got.match.teamB.name, 'Team B');
+    assert.strictEqual(got.match.teamA.logo.svgUrl, 'http://127.0.0.1:9104/assets/logos/england/arsenal.svg');
+    assert.strictEqual(got.teams.A.length, 11);
+    assert.strictEqual(got.teams.B.length, 11);
+    assert.deepStrictEqual([got.teams.A[0].x, got.teams.A[0].y], [40, 80]);
+    assert.strictEqual(got.teams.A[9].yellowCard, true);
+    assert.strictEqual(got.teams.A[9].yellowCards, 1);
+    assert.strictEqual(got.teams.A[9].redCardReason, null);
+    assert.strictEqual(got.teams.A[4].redCard, true);
+    assert.strictEqual(got.teams.A[4].redCardReason, 'second-yellow');
+    assert.strictEqual(got.teams.A[9].goals, 2);
+    assert.strictEqual(got.teams.B[0].goals, 0);
+    assert.strictEqual(got.match.teamA.uniformColor, '#dc2626');
+    assert.strictEqual(got.match.teamB.uniformColor, '#f5f5f5');
+    assert.deepStrictEqual(got.bench.A, [{ number: '12', name: 'Home Sub' }]);
+    assert.strictEqual(got.substitutions.A[0].playerIn.number, '14');
+    assert.strictEqual(got.teams.B[0].id, 'B-0');
+    assert.deepStrictEqual(got.stats.A, [{ type: 'Total Shots', value: '9' }]);
+    console.log(`ok - full payload (${result.bytes} bytes) round-trips as one datagram`);
+
+    // 2. oversized payloads are split and reassemble to the original object
+    const big = { ...payload, padding: 'x'.repeat(MAX_DATAGRAM_BYTES * 2) };
+    const receivedBig = receiveOne(receiver, assemble);
+    const bigResult = await sender.send(big);
+    assert.strictEqual(bigResult.success, true, bigResult.error);
+    assert.ok(bigResult.datagrams > 1);
+    const { payload: gotBig } = await receivedBig;
+    assert.strictEqual(gotBig.padding.length, big.padding.length);
+    assert.deepStrictEqual(gotBig.teams, got.teams);
+    console.log(`ok - ${bigResult.bytes} byte payload split into ${bigResult.datagrams} datagrams`);
+
+    // 3. payloads beyond the chunk limit are rejected with an error, not sent
+    const huge = { padding: 'x'.repeat(MAX_DATAGRAM_BYTES * 40) };
+    const hugeResult = await sender.send(huge);
+    assert.strictEqual(hugeResult.success, false);
+    assert.strictEqual(hugeResult.code, 'EPAYLOADTOOLARGE');
+    console.log('ok - oversized payload rejected:', hugeResult.error);
+
+    // 3b. partial messages whose fragments were lost are evicted by age and count
+    let clock = 0;
+    const partial = createChunkAssembler({ timeoutMs: 1000, maxPending: 2, now: () => clock });
+    const { datagrams: parts } = encodeDatagrams({ blob: 'y'.repeat(MAX_DATAGRAM_BYTES * 2) }, 1);
+    const fragment = (id) => Buffer.from(parts[0].toString('utf8').replace(/^#chunk 1 /, `#chunk ${id} `), 'utf8');
+    [10, 11, 12].forEach((id) => partial(fragment(id)));
+    assert.strictEqual(partial.pendingCount(), 2);
+    clock = 1500;
+    partial(fragment(13));
+    assert.strictEqual(partial.pendingCount(), 1);
+    const whole = parts.map((d) => partial(d)).find((result) => result !== null);
+    assert.strictEqual(whole.blob.length, MAX_DATAGRAM_BYTES * 2);
+    assert.strictEqual(partial.pendingCount(), 1);
+    console.log('ok - incomplete chunk sets are evicted after the timeout and beyond the pending limit');
+
+    // 3c. keys dropped from the payload are sent as removals, not left stale until the next keyframe
+    const withExtras = JSON.parse(JSON.stringify(got));
+    withExtras.match.tie = { round: 'Final', leg: 2 };
+    withExtras.shootout = { active: true, kicks: [] };
+    withExtras.teams.A[0].captain = true;
+    const cleared = JSON.parse(JSON.stringify(got));
+    delete cleared.teams.A[0].role;
+    cleared.teams.A[4] = { ...cleared.teams.A[4], redCard: false };
+    delete cleared.teams.A[4].yellowCards;
+    delete cleared.teams.A[4].redCardReason;
+    assert.deepStrictEqual(diffPayloads(withExtras, cleared), [
+      { op: 'player-updated', team: 'A', id: 'A-0', fields: { captain: false }, unset: ['role'] },
+      { op: 'card-changed', team: 'A', id: 'A-4', yellowCard: true, redCard: false, unset: ['yellowCards', 'redCardReason'] },
+      { op: 'unset', path: 'match.tie' },
+      { op: 'unset', path: 'shootout' },
+    ]);
+    assert.deepStrictEqual(diffPayloads(cleared, withExtras).find((c) => c.path === 'match.tie'), { op: 'set', path: 'match.tie', value: { round: 'Final', leg: 2 } });
+    console.log('ok - delta diff sends removed match, top-level and player keys as unset');
+
+    // 4. delta mode: keyframe first, then only the changes, keyframe again on resync
+    const hub = createBroadcastHub();
+    hub.udp.setPort(port);
+    hub.setMode('delta');
+    try {
+      const receivedKeyframe = receiveOne(receiver, assemble);
+      await hub.send(payload);
+      const { payload: keyframe } = await receivedKeyframe;
+      assert.strictEqual(keyframe.type, 'keyframe');
+      assert.deepStrictEqual(keyframe.data, got);
+
+      const skipped = await hub.send({ ...payload, timestamp: payload.timestamp + 1 });
+      assert.strictEqual(skipped.skipped, true);
+
+      const moved = JSON.parse(JSON.stringify(payload));
+      moved.teams.A[3] = { ...moved.teams.A[3], x: 12, y: 34 };
+      moved.match.scoreB = 2;
+      const receivedDelta = receiveOne(receiver, assemble);
+      await hub.send(moved);
+      const { payload: delta } = await receivedDelta;
+      assert.strictEqual(delta.type, 'delta');
+      assert.strictEqual(delta.baseSeq, keyframe.seq);
+      assert.deepStrictEqual(delta.changes, [
+        { op: 'player-moved', team: 'A', id: 'A-3', x: 12, y: 34 },
+        { op: 'score-changed', scoreA: 2, scoreB: 2 },
+      ]);
+
+      const receivedResync = receiveOne(receiver, assemble);
+      const { address, port: hubPort } = await waitForBoundPort(hub.udp);
+      receiver.send(JSON.stringify({ type: 'resync' }), hubPort, address);
+      const { payload: resync } = await receivedResync;
+      assert.strictEqual(resync.type, 'keyframe');
+      assert.strictEqual(resync.seq, delta.seq + 1);
+      assert.deepStrictEqual(resync.data, moved);
+      console.log(`ok - delta mode sends ${JSON.stringify(delta).length} bytes instead of ${JSON.stringify(moved).length} and resyncs on request`);
+    } finally {
+      await hub.close();
+    }
+  } finally {
+    sender.close();
+    receiver.close();
+  }
+}
+
+main().catch((err) => {
+  console.error('not ok -', err && err.stack ? err.stack : err);
+  process.exit(1);
+});
@@ -0,0 +1,165 @@
+#!/usr/bin/env node
+// Loopback check for the WebSocket broadcast path: starts electron/ws-server.js
+// (directly and through the broadcast hub) on an ephemeral port on 127.0.0.1,
+// connects a `ws` client and verifies the retained state, heartbeats, live
+// updates and delta-mode resync.
+const assert = require('assert');
+const { WebSocket } = require('ws');
+const { createWsBroadcaster } = require('../electron/ws-server');
+const { createBroadcastHub } = require('../electron/broadcast-hub');
+const { loadModule } = require('./load-ts-module');
+
+const HEARTBEAT_MS = 50;
+
+// connects and queues every JSON message so none is missed between awaits
+function connect(url) {
+  return new Promise((resolve, reject) => {
+    const client = new WebSocket(url);
+    const queue = [];
+    const waiters = [];
+    client.on('message', (raw) => {
+      queue.push(JSON.parse(String(raw)));
+      waiters.splice(0).forEach((wake) => wake());
+    });
+    client.once('error', reject);
+    client.once('open', () => resolve({
+      // strings go out as-is, anything else as JSON
+      send: (message) => client.send(typeof message === 'string' ? message : JSON.stringify(message)),
+      close: () => client.terminate(),
+      // next message of `type`, skipping others (heartbeats in between)
+      async next(type) {
+        const deadline = Date.now() + 2000;
+        for (;;) {
+          const index = queue.findIndex((m) => m.type === type);
+          if (index >= 0) return queue.splice(index, 1)[0];
+          const left = deadline - Date.now();
+          if (left <= 0) throw new Error(`timed out waiting for ${type}`);
+          // eslint-disable-next-line no-await-in-loop
+          await new Promise((wake) => {
+            const timer = setTimeout(wake, left);
+            waiters.push(() => { clearTimeout(timer); wake(); });
+          });
+        }
+      },
+    }));
+  });
+}
+
+function samplePlayers(count, prefix) {
+  return Array.from({ length: count }, (_, i) => ({ number: String(i + 1), name: `${prefix} ${i + 1}` }));
+}
+
+async function checkBroadcaster(payload) {
+  const received = [];
+  const ws = createWsBroadcaster({ port: 0, heartbeatIntervalMs: HEARTBEAT_MS, onClientMessage: (m) => received.push(m) });
+  const info = await ws.start();
+  assert.strictEqual(info.running, true, info.error);
+  assert.notStrictEqual(info.port, 0);
+
+  let client = null;
+  try {
+    // 1. state published before anyone listens is handed to a late joiner on connect
+    assert.strictEqual(ws.publish(payload).clients, 0);
+    client = await connect(info.url);
+    const retained = await client.next('state');
+    assert.deepStrictEqual(retained.data, JSON.parse(JSON.stringify(payload)));
+    console.log(`ok - late joiner gets the retained state on ${info.url}`);
+
+    // 2. heartbeats keep arriving while the feed is quiet
+    const first = await client.next('heartbeat');
+    const second = await client.next('heartbeat');
+    assert.ok(second.timestamp >= first.timestamp);
+    assert.strictEqual(ws.getInfo().clients, 1, 'client answering pings stays connected');
+    console.log('ok - heartbeat messages arrive and the client stays connected');
+
+    // 3. live updates reach connected clients, and client messages reach the app
+    const update = { ...payload, match: { ...payload.match, scoreA: 3 } };
+    assert.strictEqual(ws.publish(update).clients, 1);
+    assert.strictEqual((await client.next('state')).data.match.scoreA, 3);
+    client.send({ type: 'resync' });
+    client.send('not json');
+    await client.next('heartbeat');
+    assert.deepStrictEqual(received, [{ type: 'resync' }]);
+    console.log('ok - published state reaches the client and client messages are passed on');
+  } finally {
+    if (client) client.close();
+    await ws.stop();
+  }
+  assert.strictEqual(ws.getInfo().running, false);
+}
+
+async function checkHub(payload) {
+  const hub = createBroadcastHub({ wsOptions: { port: 0, heartbeatIntervalMs: HEARTBEAT_MS } });
+  const clients = [];
+  try {
+    const transport = await hub.setTransport('websocket');
+    assert.strictEqual(transport.success, true, transport.error);
+    hub.setMode('delta');
+    const client = await connect(transport.websocket.url);
+    clients.push(client);
+
+    // 4. delta mode over WebSocket: keyframe first, then only the changes
+    await hub.send(payload);
+    const keyframe = await client.next('keyframe');
+    assert.deepStrictEqual(keyframe.data, JSON.parse(JSON.stringify(payload)));
+
+    const moved = JSON.parse(JSON.stringify(payload));
+    moved.teams.A[3] = { ...moved.teams.A[3], x: 12, y: 34 };
+    const sent = await hub.send(moved);
+    assert.strictEqual(sent.clients, 1);
+    const delta = await client.next('delta');
+    assert.strictEqual(delta.baseSeq, keyframe.seq);
+    assert.deepStrictEqual(delta.changes, [{ op: 'player-moved', team: 'A', id: 'A-3', x: 12, y: 34 }]);
+
+    // 5. a resync request from the client brings a fresh keyframe of the latest state
+    client.send({ type: 'resync' });
+    const resync = await client.next('keyframe');
+    assert.strictEqual(resync.seq, delta.seq + 1);
+    assert.deepStrictEqual(resync.data, moved);
+
+    // 6. a client joining mid-sequence starts from a keyframe of the latest state
+    const late = await connect(transport.websocket.url);
+    clients.push(late);
+    assert.deepStrictEqual((await late.next('keyframe')).data, moved);
+    console.log('ok - hub sends keyframe and deltas over WebSocket and resyncs on request');
+  } finally {
+    clients.forEach((c) => c.close());
+    await hub.close();
+  }
+}
+
+async function main() {
+  const { buildBroadcastPayload } = loadModule('broadcast.ts');
+  const payload = buildBroadcastPayload({
+    formation: { name: '4-3-3', lines: [1, 4, 3, 3] },
+    formationB: { name: '4-2-3-1', lines: [1, 4, 2, 3, 1] },
+    players: samplePlayers(11, 'Home'),
+    playersB: samplePlayers(11, 'Away'),
+    bench: [],
+    benchB: [],
+    substitutions: [],
+    substitutionsB: [],
+    overrides: {},
+    overridesB: {},
+    verticalMode: false,
+    scoreA: 1,
+    scoreB: 0,
+    teamNameA: 'Home',
+    teamNameB: 'Away',
+    teamLogoA: null,
+    teamLogoB: null,
+    uniformColor: '#dc2626',
+    uniformColorB: '#f5f5f5',
+    matchStatus: '1H',
+    statsA: [],
+    statsB: [],
+  });
+
+  await checkBroadcaster(payload);
+  await checkHub(payload);
+}
+
+main().catch((err) => {
+  console.error('not ok -', err && err.stack ? err.stack : err);
+  process.exit(1);
+});
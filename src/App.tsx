@@ -1,32 +1,59 @@
 import { useState, useMemo, useRef, useCallback, useEffect, lazy, Suspense } from 'react';
 import { FootballField } from './components/FootballField';
 import { PlayerCard } from './components/PlayerCard';
+import { CardEditor } from './components/CardEditor';
+import { TieEditor } from './components/TieEditor';
+import { RosterManager } from './components/RosterManager';
+import { LineupImport } from './components/LineupImport';
 import { FormationEditor } from './components/FormationEditor';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from './components/ui/dialog';
 import { Input } from './components/ui/input';
 import { TeamEntry } from './components/TeamSearch';
 // Prefer a single import path for ScoreDraggable to avoid import cycles / duplicate module instances
 const ScoreDraggable = lazy(() => import('./components/ScoreDraggable'));
+const MatchClock = lazy(() => import('./components/MatchClock'));
+const EventTimeline = lazy(() => import('./components/EventTimeline'));
+const ShootoutTracker = lazy(() => import('./components/ShootoutTracker'));
 import { Label } from './components/ui/label';
 import { Button } from './components/ui/button';
 import ControlButton from './components/ControlButton';
+import type { Formation } from './types/formation';
+import type { Player, SentOffDisplay, Substitution } from './types/player';
+import type { StatEntry } from './types/stats';
+import type { MatchClockState } from './types/clock';
+import type { TimelineEvent, TimelinePlayer } from './types/timeline';
+import type { ShootoutState } from './types/shootout';
+import type { TieInfo } from './types/tie';
+import type { RosterLibrary } from './types/roster';
+import type { Kit } from './types/kit';
+import type { BroadcastPayload } from './types/broadcast';
+import { calcPlayerPositions } from './lib/positions';
+import { fitPlayersToFormation } from './lib/formations';
+import type { FeedTeam, FixtureSummary } from './types/match-data';
+import { buildBroadcastPayload, setAssetServerUrl, type BroadcastInput } from './lib/broadcast';
+import { API_FOOTBALL_BASE_URL, ApiFootballError, createApiFootballProvider, type ApiQuota } from './lib/match-data/api-football';
+import { getLivePlayers, parseFormation } from './lib/match-data/lineup';
+import { nextPollDelay, type PollState } from './lib/match-data/polling';
+import { toShootoutKicks, toTimelineEvents } from './lib/match-data/events';
+import { DEFAULT_MATCH_CLOCK, isPlayingPeriod, readClock, syncClockToApi } from './lib/match-clock';
+import { normalizePlayerCards } from './lib/cards';
+import { DEFAULT_SHOOTOUT } from './lib/shootout';
+import { DEFAULT_TIE, aggregateScore, swapTieSides, tieHeading } from './lib/tie';
+import { createManualEventId, eventTimeFromClock, mergeApiEvents, sortTimeline } from './lib/timeline';
+import { lineupsToCSV, type LineupTextResult } from './lib/lineup-text';
+import { isGoalkeeper } from './lib/roles';
+import { applySubstitution, undoLastSubstitution } from './lib/substitutions';
+import { goalkeeperKit, kitFromColor, recolorKit } from './lib/kits';
+import { detectKitClash } from './lib/colors';
+import { SNAPSHOT_VERSION, parseSnapshot } from './lib/snapshot';
+import type { AppSnapshot } from './types/snapshot';
+import { EMPTY_HISTORY, recordHistory, redoHistory, undoHistory, type History } from './lib/history';
+import { extractLogoColors, type LogoColors } from './lib/logo-colors';
+import { loadRosterLibrary, lineupFromRoster, mergeRosterLibraries, parseRosterFile, rosterFromLineup, saveRosterLibrary, toRosterFile } from './lib/rosters';
 
 /********************
  * Types & Utilities *
  ********************/
-interface Player {
-  number: string;
-  name: string;
-  yellowCard?: boolean;
-  redCard?: boolean;
-  goals?: number;
-}
-
-interface Formation {
-  name: string;
-  lines: number[]; // e.g., [1,4,3,3]
-}
-
 interface DragState {
   index: number;
   startX: number;
@@ -36,15 +63,132 @@ interface DragState {
   pointerOffsetY: number;
 }
 
+interface UdpSendResult {
+  success: boolean;
+  bytes?: number;
+  datagrams?: number;
+  error?: string;
+  code?: string | null;
+}
+
+type BroadcastTransport = 'udp' | 'websocket' | 'both';
+type BroadcastMode = 'full' | 'delta';
+
+const SENT_OFF_DISPLAYS: SentOffDisplay[] = ['show', 'dim', 'hide'];
+const SENT_OFF_DISPLAY_LABELS: Record<SentOffDisplay, string> = { show: '표시', dim: '흐리게', hide: '숨김' };
+
+interface WsServerInfo {
+  running: boolean;
+  port: number;
+  url: string;
+  clients: number;
+  error?: string | null;
+}
+
+interface BroadcastSendResult extends UdpSendResult {
+  clients?: number;
+  udp?: UdpSendResult;
+  websocket?: { success: boolean; clients: number; error?: string };
+}
+
+interface TransportResult {
+  success?: boolean;
+  error?: string;
+  transport?: BroadcastTransport;
+  mode?: BroadcastMode;
+  port?: number;
+  websocket?: WsServerInfo;
+}
+
+interface UdpSendError {
+  error: string;
+  code?: string | null;
+  host: string;
+  port: number;
+  at: number;
+}
+
+interface AssetServerInfo {
+  running: boolean;
+  port: number | null;
+  url: string | null;
+  requestedPort?: number;
+  error?: string | null;
+}
+
+interface MockApiInfo {
+  running: boolean;
+  url?: string;
+  speed?: number;
+  startMinute?: number;
+  fixtures?: number;
+  error?: string | null;
+}
+
+// 자동 갱신 1회 결과 (다음 갱신 주기 계산용)
+interface LineupRefreshResult {
+  status: string | null;
+  eventCount: number;
+  error?: unknown;
+}
+
+// 텍스트/숫자/색 입력 칸에 포커스가 있는지 (타이핑은 칸을 떠날 때 한 단계로 기록)
+function isEditingText(): boolean {
+  const el = document.activeElement as HTMLElement | null;
+  if (!el) return false;
+  if (el.isContentEditable || el.tagName === 'TEXTAREA') return true;
+  return el.tagName === 'INPUT' && !['checkbox', 'radio', 'button', 'submit', 'file'].includes((el as HTMLInputElement).type);
+}
+
+// 되돌리기/다시 실행으로 복원하는 라인업 상태
+interface LineupHistoryEntry {
+  formation: Formation;
+  formationB: Formation;
+  players: Player[];
+  playersB: Player[];
+  bench: Player[];
+  benchB: Player[];
+  substitutions: Substitution[];
+  substitutionsB: Substitution[];
+  overrides: Record<number, { x: number; y: number }>;
+  overridesB: Record<number, { x: number; y: number }>;
+  scoreA: number;
+  scoreB: number;
+  teamNameA: string;
+  teamNameB: string;
+  teamLogoA: TeamEntry | null;
+  teamLogoB: TeamEntry | null;
+  kit: Kit;
+  kitB: Kit;
+  goalkeeperColor: string;
+  goalkeeperColorB: string;
+  timeline: TimelineEvent[];
+  shootout: ShootoutState;
+  tie: TieInfo;
+}
+
 interface ElectronAPI {
   saveFile?: (opts: any) => Promise<{ canceled?: boolean; filePath?: string } | undefined>;
   openFile?: () => Promise<{ canceled?: boolean; filePath?: string; error?: string; data?: any } | undefined>;
   captureAndSave?: (opts: any) => Promise<{ canceled?: boolean; filePath?: string } | undefined>;
-  broadcastPlayerCoordinates?: (data: any) => Promise<void>;
-  getUdpPort?: () => Promise<{ port?: number } | undefined>;
+  broadcastPlayerCoordinates?: (data: BroadcastPayload) => Promise<BroadcastSendResult | undefined>;
+  getUdpPort?: () => Promise<{ port?: number; host?: string } | undefined>;
   setUdpPort?: (port: number) => Promise<{ success?: boolean; error?: string; port?: number } | undefined>;
+  setUdpHost?: (host: string) => Promise<{ success?: boolean; error?: string; host?: string } | undefined>;
+  onUdpSendError?: (callback: (info: UdpSendError) => void) => () => void;
+  getAssetServerInfo?: () => Promise<AssetServerInfo | undefined>;
+  startMockApi?: (options: { speed?: number; startMinute?: number }) => Promise<MockApiInfo | undefined>;
+  stopMockApi?: () => Promise<MockApiInfo | undefined>;
+  getMockApiInfo?: () => Promise<MockApiInfo | undefined>;
+  getBroadcastTransport?: () => Promise<TransportResult | undefined>;
+  setBroadcastTransport?: (transport: BroadcastTransport) => Promise<TransportResult | undefined>;
+  setBroadcastMode?: (mode: BroadcastMode) => Promise<TransportResult | undefined>;
+  setWsPort?: (port: number) => Promise<TransportResult | undefined>;
   setTransparentMode?: (enabled: boolean) => Promise<{ success: boolean; error?: string }>;
   getTransparentMode?: () => Promise<{ success: boolean; transparent: boolean }>;
+  writeAutosave?: (data: unknown) => Promise<{ success: boolean; skipped?: boolean; error?: string } | undefined>;
+  getLastSession?: () => Promise<{ savedAt: string | null; data: unknown } | null | undefined>;
+  setSnapshotProvider?: (provider: () => unknown) => void;
   minimize?: () => void;
   toggleMaximize?: () => void;
   close?: () => void;
@@ -52,6 +196,22 @@ interface ElectronAPI {
 
 const MOVEMENT_THRESHOLD = 6; // px
 const DEFAULT_UDP_PORT = 9107;
+const DEFAULT_UDP_HOST = '127.0.0.1';
+const DEFAULT_WS_PORT = 9108;
+// scripts/mock-api-football.js 기본 주소 (브라우저 개발 모드에서 사용)
+const DEFAULT_MOCK_API_URL = 'http://127.0.0.1:9105';
+const MOCK_API_SPEEDS = [1, 5, 10, 30];
+// 충돌 대비 자동 저장 주기 (변경이 없으면 메인 프로세스에서 건너뜀)
+const AUTOSAVE_INTERVAL_MS = 15000;
+const BROADCAST_TRANSPORTS: { value: BroadcastTransport; label: string }[] = [
+  { value: 'udp', label: 'UDP' },
+  { value: 'websocket', label: 'WebSocket' },
+  { value: 'both', label: 'UDP + WebSocket' },
+];
+const BROADCAST_MODES: { value: BroadcastMode; label: string }[] = [
+  { value: 'full', label: '전체 상태' },
+  { value: 'delta', label: '변경분 (Delta)' },
+];
 
 function clamp01(v: number) {
   return Math.max(0, Math.min(100, v));
@@ -64,244 +224,31 @@ function parseUdpPort(value: string | number | null | undefined): number | null
   return parsed;
 }
 
-function calcPositions(formation: Formation): { x: number; y: number }[] {
-  const positions: { x: number; y: number }[] = [];
-
-  formation.lines.forEach((lineCount, lineIndex) => {
-    const totalLines = Math.max(1, formation.lines.length - 1);
-    const rawY = (lineIndex / totalLines) * 85 + 8; // original baseline
-    const center = 50;
-    let computedY = center + (rawY - center) * 0.8; // compress toward center
-    computedY = Math.max(0, computedY - 3.5); // slight lift
-
-    let yForLine = computedY;
-    
-    if (lineIndex === 0) {
-      yForLine = 90; // GK (fixed at bottom)
-    } else {
-      // Calculate evenly spaced positions for all other lines
-      const totalLines = formation.lines.length;
-      const topY = 10;    // ATT position (top)
-      const bottomY = 90; // GK position (bottom)
-      const spacing = (bottomY - topY) / (totalLines - 1);
-      
-      // For lineIndex 1,2,3... calculate from top to bottom
-      // Last line (highest lineIndex) should be at topY (15)
-      yForLine = bottomY - (spacing * lineIndex);
-    }
-
-    for (let i = 0; i < lineCount; i++) {
-      // i=0(API의 첫 선수)이 오른쪽(75%~80%)에 오도록 역순 계산 적용
-      const baseX = ((lineCount - i) / (lineCount + 1)) * 100;
-      const x = 50 + (baseX - 50) * 1.2; // widen spacing by 20%
-      positions.push({ x, y: yForLine });
-    }
-  });
-
-  return positions;
-}
-
-// 경기 시간을 MM:SS 형식으로 변환
-function formatMatchTime(minutes: number | null | undefined): string | null {
-  if (minutes === null || minutes === undefined) return null;
-  
-  const mins = Math.floor(minutes);
-  const secs = 0; // API에서는 분 단위만 제공
-  
-  return `${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
-}
-
-// 로컬 파일 경로를 HTTP URL로 변환
-function convertLogoPathToURL(logoPath: string | null): string | null {
-  if (!logoPath) return null;
-  
-  // 이미 HTTP URL이면 그대로 반환
-  if (logoPath.startsWith('http://') || logoPath.startsWith('https://')) {
-    return logoPath;
-  }
-  
-  const HTTP_SERVER_URL = 'http://127.0.0.1:9104';
-  
-  // "./assets/logos/..." 형식 처리 (team-index.json 형식)
-  if (logoPath.startsWith('./assets/')) {
-    return `${HTTP_SERVER_URL}/assets/${logoPath.substring('./assets/'.length)}`;
-  }
-  
-  // "assets/..." 형식 처리
-  if (logoPath.startsWith('assets/')) {
-    return `${HTTP_SERVER_URL}/${logoPath}`;
-  }
-  
-  // "src/assets/..." 형식 처리
-  if (logoPath.startsWith('src/assets/')) {
-    return `${HTTP_SERVER_URL}/assets/${logoPath.substring('src/assets/'.length)}`;
-  }
-  
-  // "public/assets/..." 형식 처리
-  if (logoPath.startsWith('public/assets/')) {
-    return `${HTTP_SERVER_URL}/assets/${logoPath.substring('public/assets/'.length)}`;
-  }
-  
-  // 기본적으로 그대로 반환 (상대 경로 가정)
-  return `${HTTP_SERVER_URL}/${logoPath}`;
-}
-
-const STAT_KEYS = [
-  'Total Shots',
-  'Shots on Goal',
-  'Corner Kicks',
-  'Fouls',
-  'Offsides',
-  'Yellow Cards',
-  'Red Cards',
-  'Ball Possession',
-] as const;
-
-interface StatEntry {
-  type: string;
-  value: string;
+// 데이터 피드 팀 정보를 로고 표시용 TeamEntry로 변환
+function toTeamLogo(team: FeedTeam): TeamEntry {
+  return {
+    id: `api/${team.id}`,
+    slug: team.name.toLowerCase().replace(/\s+/g, '-'),
+    country: team.country || 'unknown',
+    englishName: team.name,
+    logos: { svg: null, png: team.logo },
+  };
 }
 
-function parseTeamStats(statsResponse: any[], teamIndex: number): StatEntry[] {
-  if (!statsResponse || statsResponse.length <= teamIndex) return [];
-  const stats: any[] = statsResponse[teamIndex]?.statistics || [];
-  return STAT_KEYS.map((key) => {
-    const stat = stats.find((s: any) => s.type === key);
-    const raw = stat?.value ?? null;
-    return { type: key, value: raw !== null ? String(raw) : '0' };
-  });
-}
+// IPC 호출 자체가 거부된 경우(전송 방식 재시작 중 등)를 화면에 알리는 콜백. App이 등록한다
+let broadcastInvokeErrorListener: ((error: unknown) => void) | null = null;
 
 // 좌표 데이터를 소켓으로 전송하는 함수
-function broadcastCurrentPlayerPositions(
-  formation: Formation,
-  formationB: Formation,
-  players: Player[],
-  playersB: Player[],
-  overrides: Record<number, { x: number; y: number }>,
-  overridesB: Record<number, { x: number; y: number }>,
-  verticalMode: boolean,
-  scoreA: number,
-  scoreB: number,
-  teamNameA: string,
-  teamNameB: string,
-  teamLogoA: any,
-  teamLogoB: any,
-  matchTime?: string | null,
-  matchStatus?: string | null,
-  electronAPI?: ElectronAPI,
-  statsA?: StatEntry[],
-  statsB?: StatEntry[]
-) {
+function broadcastCurrentPlayerPositions(input: BroadcastInput, electronAPI?: ElectronAPI) {
   if (!electronAPI?.broadcastPlayerCoordinates) return;
 
   try {
-    const playerPositionsA = calcPositions(formation);
-    const playerPositionsB = calcPositions(formationB);
-
-    // 팀 A 선수 좌표 계산
-    const teamAPositions = players.map((player, index) => {
-      const defaultPos = playerPositionsA[index];
-      if (!defaultPos) return null;
-
-      let pos = overrides[index] ?? defaultPos;
-
-      // 세로 모드 좌표 변환
-      if (verticalMode) {
-        const topStart = 2;
-        const topSpan = 50;
-        const mappedY = topStart + (pos.y / 100) * topSpan;
-        const mappedX = 50 + (pos.x - 50) * 1.15;
-        pos = { x: mappedX, y: mappedY };
-      }
-
-      return {
-        id: `A-${index}`,
-        team: 'A',
-        number: player.number,
-        name: player.name,
-        x: Math.round(pos.x * 100) / 100, // 소수점 2자리까지
-        y: Math.round(pos.y * 100) / 100,
-        yellowCard: player.yellowCard || false,
-        redCard: player.redCard || false
-      };
-    }).filter(Boolean);
-
-    // 팀 B 선수 좌표 계산
-    const teamBPositions = playersB.map((player, index) => {
-      const defaultPos = playerPositionsB[index];
-      if (!defaultPos) return null;
-
-      let pos = overridesB[index] ?? defaultPos;
-
-      // 세로 모드 좌표 변환
-      if (verticalMode) {
-        const bottomStart = 48;
-        const bottomSpan = 50;
-        const mirroredY = 100 - pos.y;
-        const mappedY = bottomStart + (mirroredY / 100) * bottomSpan;
-        const mappedX = 50 + (pos.x - 50) * 1.15;
-        pos = { x: mappedX, y: mappedY };
-      }
+    const data = buildBroadcastPayload(input);
 
-      return {
-        id: `B-${index}`,
-        team: 'B',
-        number: player.number,
-        name: player.name,
-        x: Math.round(pos.x * 100) / 100,
-        y: Math.round(pos.y * 100) / 100,
-        yellowCard: player.yellowCard || false,
-        redCard: player.redCard || false
-      };
-    }).filter(Boolean);
-
-    const data = {
-      timestamp: Date.now(),
-      verticalMode,
-      match: {
-        scoreA,
-        scoreB,
-        elapsed: matchTime || null,
-        status: matchStatus || null,
-        teamA: {
-          name: teamNameA || 'Team A',
-          formation: formation.name,
-          uniformColor: players[0]?.name ? 'blue' : 'blue', // 기본값
-          logo: teamLogoA ? {
-            id: teamLogoA.id,
-            slug: teamLogoA.slug,
-            country: teamLogoA.country,
-            englishName: teamLogoA.englishName,
-            svgUrl: convertLogoPathToURL(teamLogoA.logos?.svg),
-            pngUrl: convertLogoPathToURL(teamLogoA.logos?.png)
-          } : null
-        },
-        teamB: {
-          name: teamNameB || 'Team B',
-          formation: formationB.name,
-          uniformColor: playersB[0]?.name ? 'red' : 'red', // 기본값
-          logo: teamLogoB ? {
-            id: teamLogoB.id,
-            slug: teamLogoB.slug,
-            country: teamLogoB.country,
-            englishName: teamLogoB.englishName,
-            svgUrl: convertLogoPathToURL(teamLogoB.logos?.svg),
-            pngUrl: convertLogoPathToURL(teamLogoB.logos?.png)
-          } : null
-        }
-      },
-      teams: {
-        A: teamAPositions,
-        B: teamBPositions
-      },
-      stats: {
-        A: statsA || [],
-        B: statsB || []
-      }
-    };
-
-    electronAPI.broadcastPlayerCoordinates(data);
+    electronAPI.broadcastPlayerCoordinates(data).catch((error) => {
+      console.warn('Failed to broadcast player coordinates:', error);
+      broadcastInvokeErrorListener?.(error);
+    });
   } catch (error) {
     console.warn('Failed to broadcast player coordinates:', error);
   }
@@ -318,30 +265,86 @@ export default function App() {
   const [players, setPlayers] = useState<Player[]>(
     Array.from({ length: 11 }, (_, i) => ({ number: String(i + 1), name: `선수 ${i + 1}` }))
   );
-  const [uniformColor, setUniformColor] = useState('#2563eb');
+  const [kit, setKit] = useState<Kit>(() => kitFromColor('#2563eb'));
+  const [goalkeeperColor, setGoalkeeperColor] = useState('#16a34a');
   const [teamNameA, setTeamNameA] = useState('');
-  const [teamLogoA, setTeamLogoA] = useState<any>(null);
+  const [teamLogoA, setTeamLogoA] = useState<TeamEntry | null>(null);
 
   const [formationB, setFormationB] = useState<Formation>({ name: '4-3-3', lines: [1, 4, 3, 3] });
   const [playersB, setPlayersB] = useState<Player[]>(
     Array.from({ length: 11 }, (_, i) => ({ number: String(i + 1), name: `선수 ${i + 1}` }))
   );
-  const [uniformColorB, setUniformColorB] = useState('#dc2626');
+  const [kitB, setKitB] = useState<Kit>(() => kitFromColor('#dc2626'));
+  const [goalkeeperColorB, setGoalkeeperColorB] = useState('#eab308');
   const [teamNameB, setTeamNameB] = useState('');
-  const [teamLogoB, setTeamLogoB] = useState<any>(null);
+  const [teamLogoB, setTeamLogoB] = useState<TeamEntry | null>(null);
 
   // 기본값을 항상 0으로 시작하도록 변경 (이전에는 localStorage에서 복원했음)
   const [scoreA, setScoreA] = useState<number>(0);
   const [scoreB, setScoreB] = useState<number>(0);
 
+  // 경기 시계 (수동 조작, 실시간 경기 선택 시 API 경과 시간에 맞춤)
+  const [matchClock, setMatchClock] = useState<MatchClockState>(DEFAULT_MATCH_CLOCK);
+  const matchClockRef = useRef<MatchClockState>(matchClock);
+  matchClockRef.current = matchClock;
+  // 선택한 실시간 경기의 API 상태 코드 (수동 경기는 null)
+  const [fixtureStatus, setFixtureStatus] = useState<string | null>(null);
+
+  // 경기 이벤트 타임라인 (API 이벤트 + 수동 입력). 삭제한 API 이벤트 id는 갱신 때 다시 추가하지 않는다
+  const [timeline, setTimeline] = useState<TimelineEvent[]>([]);
+  const [dismissedEventIds, setDismissedEventIds] = useState<string[]>([]);
+  const timelineRef = useRef(timeline);
+  timelineRef.current = timeline;
+  const dismissedEventIdsRef = useRef(dismissedEventIds);
+  dismissedEventIdsRef.current = dismissedEventIds;
+  const [showTimeline, setShowTimeline] = useState(false);
+
+  // 승부차기 (API 상태 P/PEN 또는 시계 PEN 구간에서 시작)
+  const [shootout, setShootout] = useState<ShootoutState>(DEFAULT_SHOOTOUT);
+  const shootoutRef = useRef(shootout);
+  shootoutRef.current = shootout;
+
+  // 대회 라운드, 1/2차전, 1차전 스코어 (합계 표시용)
+  const [tie, setTie] = useState<TieInfo>(DEFAULT_TIE);
+  const tieRef = useRef(tie);
+  tieRef.current = tie;
+  const [showTieEditor, setShowTieEditor] = useState(false);
+
+  // 팀별 스쿼드 라이브러리 (team-index id 기준). 팀 선택 시 저장된 스쿼드가 있으면 채우기를 제안한다
+  const [rosterLibrary, setRosterLibrary] = useState<RosterLibrary>(loadRosterLibrary);
+  const rosterLibraryRef = useRef(rosterLibrary);
+  rosterLibraryRef.current = rosterLibrary;
+  const [showRosters, setShowRosters] = useState(false);
+  const [showLineupImport, setShowLineupImport] = useState(false);
+  const [rosterOffer, setRosterOffer] = useState<{ team: 'A' | 'B'; teamId: string } | null>(null);
+  // 팀 로고에서 뽑은 유니폼 색 제안. 운영자가 적용을 눌러야 유니폼이 바뀐다
+  const [kitSuggestions, setKitSuggestions] = useState<Partial<Record<'A' | 'B', LogoColors>>>({});
+  // 팀별 마지막 선택 (늦게 끝난 이전 팀의 색 추출 결과는 버린다)
+  const logoPickRef = useRef<Partial<Record<'A' | 'B', string>>>({});
+
   const [matchStatsA, setMatchStatsA] = useState<StatEntry[]>([]);
   const [matchStatsB, setMatchStatsB] = useState<StatEntry[]>([]);
 
+  // 벤치 명단과 교체 기록 (API 라인업에서 채워짐)
+  const [bench, setBench] = useState<Player[]>([]);
+  const [benchB, setBenchB] = useState<Player[]>([]);
+  const [substitutions, setSubstitutions] = useState<Substitution[]>([]);
+  const [substitutionsB, setSubstitutionsB] = useState<Substitution[]>([]);
+
   const [verticalMode, setVerticalMode] = useState(false);
+  // 퇴장 선수 표시 방식 (그대로 / 흐리게 / 숨김)
+  const [sentOffDisplay, setSentOffDisplay] = useState<SentOffDisplay>(() => {
+    try {
+      const saved = localStorage.getItem('sent-off-display');
+      return saved === 'dim' || saved === 'hide' ? saved : 'show';
+    } catch {
+      return 'show';
+    }
+  });
   const [selectedPlayer, setSelectedPlayer] = useState<number | null>(null);
-  const [editingPlayer, setEditingPlayer] = useState<Player>({ number: '', name: '', yellowCard: false, redCard: false });
+  const [editingPlayer, setEditingPlayer] = useState<Player>({ number: '', name: '', yellowCards: 0, redCard: false });
   const [selectedPlayerB, setSelectedPlayerB] = useState<number | null>(null);
-  const [editingPlayerB, setEditingPlayerB] = useState<Player>({ number: '', name: '', yellowCard: false, redCard: false });
+  const [editingPlayerB, setEditingPlayerB] = useState<Player>({ number: '', name: '', yellowCards: 0, redCard: false });
 
   const [showFormationA, setShowFormationA] = useState(false);
   const [showFormationB, setShowFormationB] = useState(false);
@@ -354,6 +357,33 @@ export default function App() {
       return '';
     }
   });
+  // 모의 API 서버 (녹화된 경기 재생, 오프라인 개발/리허설용)
+  const [useMockApi, setUseMockApi] = useState(() => {
+    try {
+      return localStorage.getItem('api-football-mock') === '1';
+    } catch {
+      return false;
+    }
+  });
+  const [mockApiSpeed, setMockApiSpeed] = useState(() => {
+    try {
+      const saved = Number(localStorage.getItem('api-football-mock-speed'));
+      return MOCK_API_SPEEDS.includes(saved) ? saved : 1;
+    } catch {
+      return 1;
+    }
+  });
+  const [mockApiInfo, setMockApiInfo] = useState<MockApiInfo | null>(null);
+  const apiBaseUrl = useMockApi ? (mockApiInfo?.url ?? DEFAULT_MOCK_API_URL) : API_FOOTBALL_BASE_URL;
+  // 모의 서버는 API 키 없이 동작
+  const apiReady = useMockApi || apiKey.trim() !== '';
+  // 응답 헤더의 남은 일일 요청 수 (x-ratelimit-requests-remaining)
+  const [apiQuota, setApiQuota] = useState<ApiQuota | null>(null);
+  const [nextRefreshMs, setNextRefreshMs] = useState<number | null>(null);
+  const matchData = useMemo(
+    () => createApiFootballProvider({ apiKey, baseUrl: apiBaseUrl, onQuota: setApiQuota }),
+    [apiKey, apiBaseUrl],
+  );
   const [udpPortInput, setUdpPortInput] = useState(() => {
     try {
       const savedPort = parseUdpPort(localStorage.getItem('udp-port'));
@@ -362,10 +392,45 @@ export default function App() {
       return String(DEFAULT_UDP_PORT);
     }
   });
+  const [udpHostInput, setUdpHostInput] = useState(() => {
+    try {
+      return localStorage.getItem('udp-host') || DEFAULT_UDP_HOST;
+    } catch {
+      return DEFAULT_UDP_HOST;
+    }
+  });
+  const [udpSendError, setUdpSendError] = useState<UdpSendError | null>(null);
+  const udpTargetRef = useRef({ host: udpHostInput, port: udpPortInput });
+  udpTargetRef.current = { host: udpHostInput, port: udpPortInput };
+  const [assetServerInfo, setAssetServerInfo] = useState<AssetServerInfo | null>(null);
+  const [broadcastTransport, setBroadcastTransport] = useState<BroadcastTransport>(() => {
+    try {
+      const saved = localStorage.getItem('broadcast-transport');
+      return BROADCAST_TRANSPORTS.some((t) => t.value === saved) ? (saved as BroadcastTransport) : 'udp';
+    } catch {
+      return 'udp';
+    }
+  });
+  const [broadcastMode, setBroadcastMode] = useState<BroadcastMode>(() => {
+    try {
+      return localStorage.getItem('broadcast-mode') === 'delta' ? 'delta' : 'full';
+    } catch {
+      return 'full';
+    }
+  });
+  const [wsPortInput, setWsPortInput] = useState(() => {
+    try {
+      const savedPort = parseUdpPort(localStorage.getItem('ws-port'));
+      return String(savedPort ?? DEFAULT_WS_PORT);
+    } catch {
+      return String(DEFAULT_WS_PORT);
+    }
+  });
+  const [wsInfo, setWsInfo] = useState<WsServerInfo | null>(null);
   const [showLiveMatches, setShowLiveMatches] = useState(false);
-  const [liveMatches, setLiveMatches] = useState<any[]>([]);
+  const [liveMatches, setLiveMatches] = useState<FixtureSummary[]>([]);
   const [isLoadingMatches, setIsLoadingMatches] = useState(false);
-  const [selectedFixtureId, setSelectedFixtureId] = useState<number | null>(null);
+  const [selectedFixtureId, setSelectedFixtureId] = useState<string | null>(null);
   const [autoRefreshEnabled, setAutoRefreshEnabled] = useState(false);
   const refreshIntervalRef = useRef<number | null>(null);
 
@@ -412,6 +477,156 @@ export default function App() {
   const [overrides, setOverrides] = useState<Record<number, { x: number; y: number }>>({});
   const [overridesB, setOverridesB] = useState<Record<number, { x: number; y: number }>>({});
 
+  // 현재 상태 기준 브로드캐스트 입력값 (호출부에서 바뀐 값만 덮어써서 사용)
+  const currentBroadcastInput = (): BroadcastInput => ({
+    formation, formationB, players, playersB, bench, benchB, substitutions, substitutionsB,
+    overrides, overridesB, verticalMode, sentOffDisplay, scoreA, scoreB, teamNameA, teamNameB, teamLogoA, teamLogoB,
+    uniformColor: kit.primary, uniformColorB: kitB.primary, kit, kitB, goalkeeperColor, goalkeeperColorB, matchStatus: fixtureStatus, clock: matchClockRef.current, events: timelineRef.current, shootout: shootoutRef.current, tie: tieRef.current, statsA: matchStatsA, statsB: matchStatsB,
+  });
+  // 타이머/콜백에서 최신 상태로 전송하기 위한 참조
+  const currentBroadcastInputRef = useRef(currentBroadcastInput);
+  currentBroadcastInputRef.current = currentBroadcastInput;
+
+  // 교체 입력 시점의 경기 분 (시계가 멈춘 구간이면 null)
+  const getCurrentMinute = useCallback((): number | null => {
+    const clock = matchClockRef.current;
+    if (!isPlayingPeriod(clock.period)) return null;
+    return readClock(clock).minute + 1;
+  }, []);
+
+  const getEventTime = useCallback(() => eventTimeFromClock(matchClockRef.current), []);
+
+  /******************
+   * Undo / Redo    *
+   ******************/
+  // 되돌리기 대상: 배치(드래그), 포메이션, 선수/벤치/교체, 스코어, 팀 정보/유니폼 (팀 교체 포함)
+  const historyEntry: LineupHistoryEntry = {
+    formation, formationB, players, playersB, bench, benchB, substitutions, substitutionsB, overrides, overridesB,
+    scoreA, scoreB, teamNameA, teamNameB, teamLogoA, teamLogoB, kit, kitB, goalkeeperColor, goalkeeperColorB, timeline, shootout, tie,
+  };
+  const historyRef = useRef<History<LineupHistoryEntry>>(EMPTY_HISTORY);
+  // 마지막으로 기록된 상태 (JSON은 내용이 같은 갱신을 건너뛰는 비교용)
+  const committedHistoryRef = useRef<{ entry: LineupHistoryEntry; json: string } | null>(null);
+  const restoringHistoryRef = useRef(false);
+  const [historyCounts, setHistoryCounts] = useState({ undo: 0, redo: 0 });
+  // 드래그 종료, 입력 칸 이탈, 피드 갱신 때 올려서 기록 효과를 다시 실행
+  const [historyTick, setHistoryTick] = useState(0);
+  // API 피드(경기 불러오기/자동 갱신)로 바뀐 상태는 되돌리기 단계로 남기지 않고 기준 상태에 합친다
+  const skipHistoryRef = useRef(false);
+  // 입력 칸을 떠날 때 입력 중에 쌓인 변경을 한 단계로 기록
+  const flushHistoryRef = useRef(false);
+
+  useEffect(() => {
+    const json = JSON.stringify(historyEntry);
+    const committed = committedHistoryRef.current;
+    if (!committed || restoringHistoryRef.current || skipHistoryRef.current) {
+      restoringHistoryRef.current = false;
+      skipHistoryRef.current = false;
+      committedHistoryRef.current = { entry: historyEntry, json };
+      return;
+    }
+    // 드래그 중이나 입력 칸에서 타이핑 중에는 기록하지 않는다 (놓거나 칸을 떠날 때 한 번에)
+    if (draggingRef.current || draggingRefB.current) return;
+    if (isEditingText() && !flushHistoryRef.current) return;
+    flushHistoryRef.current = false;
+    if (committed.json === json) return;
+    historyRef.current = recordHistory(historyRef.current, committed.entry);
+    committedHistoryRef.current = { entry: historyEntry, json };
+    setHistoryCounts({ undo: historyRef.current.past.length, redo: 0 });
+  }, [
+    formation, formationB, players, playersB, bench, benchB, substitutions, substitutionsB, overrides, overridesB,
+    scoreA, scoreB, teamNameA, teamNameB, teamLogoA, teamLogoB, kit, kitB, goalkeeperColor, goalkeeperColorB, timeline, shootout, tie, historyTick,
+  ]);
+
+  const restoreHistoryEntry = (entry: LineupHistoryEntry) => {
+    restoringHistoryRef.current = true;
+    setFormation(entry.formation);
+    setFormationB(entry.formationB);
+    setPlayers(entry.players);
+    setPlayersB(entry.playersB);
+    setBench(entry.bench);
+    setBenchB(entry.benchB);
+    setSubstitutions(entry.substitutions);
+    setSubstitutionsB(entry.substitutionsB);
+    setOverrides(entry.overrides);
+    setOverridesB(entry.overridesB);
+    setScoreA(entry.scoreA);
+    setScoreB(entry.scoreB);
+    setTeamNameA(entry.teamNameA);
+    setTeamNameB(entry.teamNameB);
+    setTeamLogoA(entry.teamLogoA);
+    setTeamLogoB(entry.teamLogoB);
+    setKit(entry.kit);
+    setKitB(entry.kitB);
+    setGoalkeeperColor(entry.goalkeeperColor);
+    setGoalkeeperColorB(entry.goalkeeperColorB);
+    timelineRef.current = entry.timeline;
+    setTimeline(entry.timeline);
+    shootoutRef.current = entry.shootout;
+    setShootout(entry.shootout);
+    tieRef.current = entry.tie;
+    setTie(entry.tie);
+    setHistoryCounts({ undo: historyRef.current.past.length, redo: historyRef.current.future.length });
+
+    setTimeout(() => {
+      broadcastCurrentPlayerPositions({
+        ...currentBroadcastInput(),
+        ...entry,
+        uniformColor: entry.kit.primary,
+        uniformColorB: entry.kitB.primary,
+        events: entry.timeline,
+      }, electronAPI);
+    }, 0);
+  };
+
+  const undo = () => {
+    const committed = committedHistoryRef.current;
+    const result = committed && undoHistory(historyRef.current, committed.entry);
+    if (!result) return;
+    historyRef.current = result.history;
+    restoreHistoryEntry(result.state);
+  };
+
+  const redo = () => {
+    const committed = committedHistoryRef.current;
+    const result = committed && redoHistory(historyRef.current, committed.entry);
+    if (!result) return;
+    historyRef.current = result.history;
+    restoreHistoryEntry(result.state);
+  };
+
+  useEffect(() => {
+    const onFocusOut = () => {
+      flushHistoryRef.current = true;
+      setHistoryTick((t) => t + 1);
+    };
+    window.addEventListener('focusout', onFocusOut);
+    return () => window.removeEventListener('focusout', onFocusOut);
+  }, []);
+
+  // 키보드 핸들러는 한 번만 등록하므로 최신 undo/redo를 ref로 전달
+  const historyActionsRef = useRef({ undo, redo });
+  historyActionsRef.current = { undo, redo };
+
+  // Ctrl+Z / Ctrl+Shift+Z (Ctrl+Y). 입력 칸에서는 브라우저 기본 텍스트 되돌리기 유지
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+      const target = e.target as HTMLElement | null;
+      if (target && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        historyActionsRef.current.undo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        historyActionsRef.current.redo();
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, []);
+
   const getDefaultPlayers = (count: number = 11): Player[] =>
     Array.from({ length: count }, (_, idx) => ({ number: String(idx + 1), name: `선수 ${idx + 1}` }));
 
@@ -454,6 +669,19 @@ export default function App() {
           setTeamNameB(team.englishName ?? team.slug ?? '');
           setTeamLogoB(team);
         }
+        // 로고에서 유니폼 기본/보조 색을 추출해 제안만 한다 (적용은 운영자가)
+        if (target === 'A' || target === 'B') {
+          const side: 'A' | 'B' = target;
+          logoPickRef.current[side] = team.id;
+          setKitSuggestions((prev) => ({ ...prev, [side]: undefined }));
+          extractLogoColors(team.logos).then((colors) => {
+            if (!colors || logoPickRef.current[side] !== team.id) return;
+            setKitSuggestions((prev) => ({ ...prev, [side]: colors }));
+          });
+        }
+        if ((target === 'A' || target === 'B') && rosterLibraryRef.current[team.id]?.length) {
+          setRosterOffer({ team: target, teamId: team.id });
+        }
       } catch (err) {
         // ignore malformed messages
       }
@@ -469,14 +697,10 @@ export default function App() {
 
     if (broadcastTimerRef.current) window.clearTimeout(broadcastTimerRef.current);
     broadcastTimerRef.current = window.setTimeout(() => {
-      broadcastCurrentPlayerPositions(
-        formation, formationB, players, playersB, overrides, overridesB,
-        verticalMode, scoreA, scoreB, teamNameA, teamNameB, teamLogoA, teamLogoB,
-        null, null, electronAPI, matchStatsA, matchStatsB
-      );
+      broadcastCurrentPlayerPositions(currentBroadcastInput(), electronAPI);
       broadcastTimerRef.current = null;
     }, 100);
-  }, [players, playersB]);
+  }, [players, playersB, bench, benchB]);
 
   // API 키 저장
   useEffect(() => {
@@ -489,16 +713,62 @@ export default function App() {
     }
   }, [apiKey]);
 
-  // UDP 전송 포트 초기화 (기본 9107, 저장값 우선)
+  // 모의 API 서버 사용 중이면 앱 시작 시 함께 기동
+  useEffect(() => {
+    if (!useMockApi || !electronAPI?.startMockApi) return;
+    electronAPI.startMockApi({ speed: mockApiSpeed })
+      .then((info) => {
+        if (info) setMockApiInfo(info);
+      })
+      .catch(() => {});
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  // 모의 서버 켜기/끄기, 재생 속도 변경 (켜져 있으면 시뮬레이션 시계를 킥오프부터 다시 시작)
+  const applyMockApi = useCallback(async (enabled: boolean, speed: number) => {
+    setUseMockApi(enabled);
+    setMockApiSpeed(speed);
+    try {
+      localStorage.setItem('api-football-mock', enabled ? '1' : '0');
+      localStorage.setItem('api-football-mock-speed', String(speed));
+    } catch (error) {
+      // ignore localStorage errors
+    }
+
+    if (!enabled) {
+      setMockApiInfo(null);
+      if (electronAPI?.stopMockApi) void electronAPI.stopMockApi().catch(() => {});
+      return;
+    }
+    if (!electronAPI?.startMockApi) return;
+
+    try {
+      const info = await electronAPI.startMockApi({ speed, startMinute: 0 });
+      if (info) setMockApiInfo(info);
+      if (info && !info.running) {
+        alert(`모의 API 서버 시작에 실패했습니다: ${info.error ?? '알 수 없는 오류'}`);
+      }
+    } catch (error) {
+      alert('모의 API 서버 시작에 실패했습니다.');
+    }
+  }, [electronAPI]);
+
+  // UDP 전송 대상 초기화 (기본 127.0.0.1:9107, 저장값 우선)
   useEffect(() => {
     let cancelled = false;
 
-    const initUdpPort = async () => {
+    const initUdpTarget = async () => {
       let targetPort = DEFAULT_UDP_PORT;
       const savedPort = parseUdpPort(udpPortInput);
       if (savedPort !== null) targetPort = savedPort;
 
       try {
+        if (electronAPI?.setUdpHost) {
+          const res = await electronAPI.setUdpHost(udpHostInput.trim() || DEFAULT_UDP_HOST);
+          if (!cancelled && res?.host) {
+            setUdpHostInput(res.host);
+          }
+        }
         if (electronAPI?.setUdpPort) {
           const res = await electronAPI.setUdpPort(targetPort);
           const confirmed = parseUdpPort(res?.port);
@@ -511,22 +781,176 @@ export default function App() {
       }
     };
 
-    void initUdpPort();
+    void initUdpTarget();
+    return () => {
+      cancelled = true;
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  // 메인 프로세스의 UDP 전송 실패 알림 수신
+  useEffect(() => {
+    if (!electronAPI?.onUdpSendError) return;
+    const unsubscribe = electronAPI.onUdpSendError((info) => setUdpSendError(info));
+    return unsubscribe;
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  // 전송 IPC 호출이 거부되어도 같은 전송 실패 표시로 보여준다
+  useEffect(() => {
+    broadcastInvokeErrorListener = (error) => {
+      const { host, port } = udpTargetRef.current;
+      setUdpSendError({
+        error: error instanceof Error ? error.message : String(error),
+        code: null,
+        host: host.trim() || DEFAULT_UDP_HOST,
+        port: parseUdpPort(port) ?? DEFAULT_UDP_PORT,
+        at: Date.now(),
+      });
+    };
+    return () => {
+      broadcastInvokeErrorListener = null;
+    };
+  }, []);
+
+  // 전송 방식(UDP / WebSocket) 초기화: 저장된 WebSocket 포트를 먼저 적용한 뒤 전송 방식 설정
+  useEffect(() => {
+    let cancelled = false;
+
+    const initTransport = async () => {
+      try {
+        const savedPort = parseUdpPort(wsPortInput);
+        if (electronAPI?.setWsPort && savedPort !== null) {
+          await electronAPI.setWsPort(savedPort);
+        }
+        if (electronAPI?.setBroadcastTransport) {
+          const res = await electronAPI.setBroadcastTransport(broadcastTransport);
+          if (!cancelled && res?.websocket) setWsInfo(res.websocket);
+        }
+        if (electronAPI?.setBroadcastMode) {
+          await electronAPI.setBroadcastMode(broadcastMode);
+        }
+      } catch (error) {
+        // ignore: local preview/browser mode or unavailable IPC
+      }
+    };
+
+    void initTransport();
+    return () => {
+      cancelled = true;
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const applyBroadcastTransport = useCallback(async (transport: BroadcastTransport) => {
+    setBroadcastTransport(transport);
+    try {
+      localStorage.setItem('broadcast-transport', transport);
+    } catch (error) {
+      // ignore localStorage errors
+    }
+
+    if (!electronAPI?.setBroadcastTransport) return;
+
+    try {
+      const res = await electronAPI.setBroadcastTransport(transport);
+      if (res?.websocket) setWsInfo(res.websocket);
+      if (res?.success === false) {
+        alert(`전송 방식 적용에 실패했습니다: ${res.error ?? transport}`);
+      }
+    } catch (error) {
+      alert('전송 방식 적용에 실패했습니다.');
+    }
+  }, [electronAPI]);
+
+  const applyBroadcastMode = useCallback(async (mode: BroadcastMode) => {
+    setBroadcastMode(mode);
+    try {
+      localStorage.setItem('broadcast-mode', mode);
+    } catch (error) {
+      // ignore localStorage errors
+    }
+
+    if (!electronAPI?.setBroadcastMode) return;
+
+    try {
+      const res = await electronAPI.setBroadcastMode(mode);
+      if (res?.success === false) {
+        alert(`전송 모드 적용에 실패했습니다: ${res.error ?? mode}`);
+        return;
+      }
+      // 새 시퀀스는 키프레임으로 시작하므로 현재 상태를 바로 보낸다
+      void broadcastCurrentPlayerPositions(currentBroadcastInputRef.current(), electronAPI);
+    } catch (error) {
+      alert('전송 모드 적용에 실패했습니다.');
+    }
+  }, [electronAPI]);
+
+  const applyWsPort = useCallback(async () => {
+    const parsedPort = parseUdpPort(wsPortInput);
+    if (parsedPort === null) {
+      alert('포트는 1~65535 사이의 숫자여야 합니다.');
+      return;
+    }
+
+    try {
+      localStorage.setItem('ws-port', String(parsedPort));
+    } catch (error) {
+      // ignore localStorage errors
+    }
+
+    if (!electronAPI?.setWsPort) return;
+
+    try {
+      const res = await electronAPI.setWsPort(parsedPort);
+      if (res?.websocket) setWsInfo(res.websocket);
+      if (res?.success === false) {
+        alert(`WebSocket 포트 적용에 실패했습니다: ${res.error ?? parsedPort}`);
+      }
+    } catch (error) {
+      alert('WebSocket 포트 적용에 실패했습니다.');
+    }
+  }, [wsPortInput, electronAPI]);
+
+  // 설정 창을 열 때 WebSocket 접속 수 갱신
+  useEffect(() => {
+    if (!showLiveMatches || !electronAPI?.getBroadcastTransport) return;
+    electronAPI.getBroadcastTransport()
+      .then((res) => {
+        if (res?.websocket) setWsInfo(res.websocket);
+      })
+      .catch(() => {});
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [showLiveMatches]);
+
+  // 로고 HTTP 서버가 실제로 사용 중인 포트를 받아 브로드캐스트 URL에 반영
+  useEffect(() => {
+    if (!electronAPI?.getAssetServerInfo) return;
+    let cancelled = false;
+    electronAPI.getAssetServerInfo()
+      .then((info) => {
+        if (cancelled || !info) return;
+        setAssetServerInfo(info);
+        if (info.running) setAssetServerUrl(info.url);
+      })
+      .catch(() => {});
     return () => {
       cancelled = true;
     };
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
-  const applyUdpPort = useCallback(async () => {
+  const applyUdpTarget = useCallback(async () => {
     const parsedPort = parseUdpPort(udpPortInput);
     if (parsedPort === null) {
       alert('포트는 1~65535 사이의 숫자여야 합니다.');
       return;
     }
+    const host = udpHostInput.trim() || DEFAULT_UDP_HOST;
 
     try {
       localStorage.setItem('udp-port', String(parsedPort));
+      localStorage.setItem('udp-host', host);
     } catch (error) {
       // ignore localStorage errors
     }
@@ -534,6 +958,14 @@ export default function App() {
     if (!electronAPI?.setUdpPort) return;
 
     try {
+      if (electronAPI.setUdpHost) {
+        const hostRes = await electronAPI.setUdpHost(host);
+        if (hostRes?.success === false) {
+          alert(`UDP 호스트 적용에 실패했습니다: ${hostRes.error ?? host}`);
+          return;
+        }
+        if (hostRes?.host) setUdpHostInput(hostRes.host);
+      }
       const res = await electronAPI.setUdpPort(parsedPort);
       if (res?.success === false) {
         alert('UDP 포트 적용에 실패했습니다.');
@@ -543,23 +975,20 @@ export default function App() {
       if (confirmed !== null) {
         setUdpPortInput(String(confirmed));
       }
+      setUdpSendError(null);
     } catch (error) {
       alert('UDP 포트 적용에 실패했습니다.');
     }
-  }, [udpPortInput, electronAPI]);
+  }, [udpPortInput, udpHostInput, electronAPI]);
 
-  // 팀 이름 변경 시 데이터 전송
+  // 팀 이름 / 유니폼(골키퍼 포함) 색상 변경 시 데이터 전송
   useEffect(() => {
     if (isInitialMount.current) return;
 
     setTimeout(() => {
-      broadcastCurrentPlayerPositions(
-        formation, formationB, players, playersB, overrides, overridesB,
-        verticalMode, scoreA, scoreB, teamNameA, teamNameB, teamLogoA, teamLogoB,
-        null, null, electronAPI, matchStatsA, matchStatsB
-      );
+      broadcastCurrentPlayerPositions(currentBroadcastInput(), electronAPI);
     }, 0);
-  }, [teamNameA, teamNameB]);
+  }, [teamNameA, teamNameB, kit, kitB, goalkeeperColor, goalkeeperColorB]);
 
   // 스코어 변경 시 데이터 전송
   useEffect(() => {
@@ -570,28 +999,95 @@ export default function App() {
 
     if (broadcastTimerRef.current) window.clearTimeout(broadcastTimerRef.current);
     broadcastTimerRef.current = window.setTimeout(() => {
-      broadcastCurrentPlayerPositions(
-        formation, formationB, players, playersB, overrides, overridesB,
-        verticalMode, scoreA, scoreB, teamNameA, teamNameB, teamLogoA, teamLogoB,
-        null, null, electronAPI, matchStatsA, matchStatsB
-      );
+      broadcastCurrentPlayerPositions(currentBroadcastInput(), electronAPI);
       broadcastTimerRef.current = null;
     }, 100);
   }, [scoreA, scoreB]);
 
+  // 퇴장 선수 표시 방식 변경 시 저장 후 데이터 전송
+  useEffect(() => {
+    try {
+      localStorage.setItem('sent-off-display', sentOffDisplay);
+    } catch (error) {
+      // ignore localStorage errors
+    }
+    if (isInitialMount.current) return;
+
+    setTimeout(() => {
+      broadcastCurrentPlayerPositions(currentBroadcastInput(), electronAPI);
+    }, 0);
+  }, [sentOffDisplay]);
+
+  // 시계 조작(시작/정지/구간/조정) 시 데이터 전송
+  useEffect(() => {
+    if (isInitialMount.current) return;
+
+    setTimeout(() => {
+      broadcastCurrentPlayerPositions(currentBroadcastInput(), electronAPI);
+    }, 0);
+  }, [matchClock]);
+
+  // 시계를 승부차기 구간으로 넘기면 승부차기 기록 시작
+  useEffect(() => {
+    if (matchClock.period === 'PEN') setShootout((prev) => (prev.active ? prev : { ...prev, active: true }));
+  }, [matchClock.period]);
+
+  // 라운드/합계 정보 변경 시 데이터 전송
+  useEffect(() => {
+    if (isInitialMount.current) return;
+
+    if (broadcastTimerRef.current) window.clearTimeout(broadcastTimerRef.current);
+    broadcastTimerRef.current = window.setTimeout(() => {
+      broadcastCurrentPlayerPositions(currentBroadcastInput(), electronAPI);
+      broadcastTimerRef.current = null;
+    }, 100);
+  }, [tie]);
+
+  // 승부차기 기록 변경 시 데이터 전송
+  useEffect(() => {
+    if (isInitialMount.current) return;
+
+    setTimeout(() => {
+      broadcastCurrentPlayerPositions(currentBroadcastInput(), electronAPI);
+    }, 0);
+  }, [shootout]);
+
+  // 타임라인 변경 시 데이터 전송
+  useEffect(() => {
+    if (isInitialMount.current) return;
+
+    if (broadcastTimerRef.current) window.clearTimeout(broadcastTimerRef.current);
+    broadcastTimerRef.current = window.setTimeout(() => {
+      broadcastCurrentPlayerPositions(currentBroadcastInput(), electronAPI);
+      broadcastTimerRef.current = null;
+    }, 100);
+  }, [timeline]);
+
   /***********************
    * Save / Load JSON     *
    ***********************/
-  const collectAppSnapshot = () => {
-    // Collect the minimal app state to export
+  // 불러오기 실패 시 검사 오류 목록
+  const [snapshotErrors, setSnapshotErrors] = useState<string[] | null>(null);
+
+  const collectAppSnapshot = (): AppSnapshot => {
+    // Collect the app state to export (format version SNAPSHOT_VERSION, see lib/snapshot)
     return {
+      version: SNAPSHOT_VERSION,
       formation,
       players,
-      uniformColor,
+      bench,
+      substitutions,
+      uniformColor: kit.primary,
+      kit,
+      goalkeeperColor,
       overrides,
       formationB,
       playersB,
-      uniformColorB,
+      benchB,
+      substitutionsB,
+      uniformColorB: kitB.primary,
+      kitB,
+      goalkeeperColorB,
       overridesB,
       teamNameA,
       teamLogoA,
@@ -600,19 +1096,37 @@ export default function App() {
       scoreA,
       scoreB,
       verticalMode,
-    } as const;
+      matchClock,
+      timeline,
+      dismissedEventIds,
+      shootout,
+      tie,
+      matchStats: { A: matchStatsA, B: matchStatsB },
+      fixture: { id: selectedFixtureId, status: fixtureStatus },
+    };
   };
 
-  const applySnapshot = (data: any) => {
+  // 불러온 파일을 현재 버전으로 변환하고 검사한 뒤 적용. 문제가 있으면 아무것도 바꾸지 않고 오류 목록을 보여준다
+  const applySnapshot = (raw: unknown): boolean => {
+    const { snapshot: data, errors } = parseSnapshot(raw);
+    if (!data) {
+      setSnapshotErrors(errors);
+      return false;
+    }
     try {
-      if (!data || typeof data !== 'object') return;
       if (data.formation) setFormation(data.formation);
-      if (Array.isArray(data.players)) setPlayers(data.players);
-      if (typeof data.uniformColor === 'string') setUniformColor(data.uniformColor);
+      if (Array.isArray(data.players)) setPlayers(data.players.map(normalizePlayerCards));
+      if (Array.isArray(data.bench)) setBench(data.bench.map(normalizePlayerCards));
+      if (Array.isArray(data.substitutions)) setSubstitutions(data.substitutions);
+      if (data.kit) setKit(data.kit);
+      if (typeof data.goalkeeperColor === 'string') setGoalkeeperColor(data.goalkeeperColor);
       if (data.overrides && typeof data.overrides === 'object') setOverrides(data.overrides);
       if (data.formationB) setFormationB(data.formationB);
-      if (Array.isArray(data.playersB)) setPlayersB(data.playersB);
-      if (typeof data.uniformColorB === 'string') setUniformColorB(data.uniformColorB);
+      if (Array.isArray(data.playersB)) setPlayersB(data.playersB.map(normalizePlayerCards));
+      if (Array.isArray(data.benchB)) setBenchB(data.benchB.map(normalizePlayerCards));
+      if (Array.isArray(data.substitutionsB)) setSubstitutionsB(data.substitutionsB);
+      if (data.kitB) setKitB(data.kitB);
+      if (typeof data.goalkeeperColorB === 'string') setGoalkeeperColorB(data.goalkeeperColorB);
       if (data.overridesB && typeof data.overridesB === 'object') setOverridesB(data.overridesB);
       if (typeof data.teamNameA === 'string') setTeamNameA(data.teamNameA);
       if (data.teamLogoA) setTeamLogoA(data.teamLogoA);
@@ -621,17 +1135,31 @@ export default function App() {
       if (typeof data.scoreA === 'number') setScoreA(data.scoreA);
       if (typeof data.scoreB === 'number') setScoreB(data.scoreB);
       if (typeof data.verticalMode === 'boolean') setVerticalMode(data.verticalMode);
+      if (data.matchClock) setMatchClock(data.matchClock);
+      if (data.timeline) setTimeline(data.timeline);
+      if (data.dismissedEventIds) setDismissedEventIds(data.dismissedEventIds);
+      if (data.shootout) setShootout(data.shootout);
+      if (data.tie) setTie(data.tie);
+      if (data.matchStats) {
+        setMatchStatsA(data.matchStats.A);
+        setMatchStatsB(data.matchStats.B);
+      }
+      if (data.fixture) {
+        setSelectedFixtureId(data.fixture.id);
+        setFixtureStatus(data.fixture.status);
+      }
     } catch (err) {
       console.warn('applySnapshot failed', err);
     }
+    return true;
   };
 
-  const handleSaveJSON = async () => {
-    const snapshot = collectAppSnapshot();
+  // 파일 저장 (JSON data 또는 CSV text): Electron 저장 대화상자, 없으면 브라우저 다운로드
+  const saveFileAs = async ({ data, text, defaultPath }: { data?: unknown; text?: string; defaultPath: string }) => {
     // Use Electron IPC if available, otherwise trigger browser download
     try {
       if ((window as any).electronAPI?.saveFile) {
-        await (window as any).electronAPI.saveFile({ data: snapshot, defaultPath: 'lineup.json' });
+        await (window as any).electronAPI.saveFile({ data, text, defaultPath });
         return;
       }
     } catch (err) {
@@ -640,11 +1168,13 @@ export default function App() {
 
     // Browser fallback
     try {
-      const blob = new Blob([JSON.stringify(snapshot, null, 2)], { type: 'application/json' });
+      const blob = text !== undefined
+        ? new Blob([text], { type: 'text/csv' })
+        : new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
       const url = URL.createObjectURL(blob);
       const a = document.createElement('a');
       a.href = url;
-      a.download = 'lineup.json';
+      a.download = defaultPath;
       document.body.appendChild(a);
       a.click();
       a.remove();
@@ -654,46 +1184,177 @@ export default function App() {
     }
   };
 
-  const handleLoadJSON = async () => {
+  // JSON 파일 열기: 파싱된 내용을 onData로 전달 (취소 시 호출 안 함)
+  const openJSONFile = async (onData: (data: any) => void) => {
     // Try Electron open-file first
     try {
       if ((window as any).electronAPI?.openFile) {
         const res = await (window as any).electronAPI.openFile();
         if (!res || res.canceled) return;
         const data = res.data ?? null;
-        applySnapshot(data);
+        onData(data);
         return;
       }
     } catch (err) {
       console.warn('electron openFile failed, falling back to browser file input', err);
     }
 
-    // Browser fallback: create invisible file input
+    // Browser fallback: create invisible file input
+    try {
+      const input = document.createElement('input');
+      input.type = 'file';
+      input.accept = '.json,application/json';
+      input.style.display = 'none';
+      input.onchange = (e: any) => {
+        const file = e.target.files && e.target.files[0];
+        if (!file) return;
+        const reader = new FileReader();
+        reader.onload = () => {
+          try {
+            const parsed = JSON.parse(String(reader.result));
+            onData(parsed);
+          } catch (err) {
+            console.error('Failed to parse uploaded JSON', err);
+          }
+        };
+        reader.readAsText(file);
+      };
+      document.body.appendChild(input);
+      input.click();
+      input.remove();
+    } catch (err) {
+      console.error('Browser file input failed', err);
+    }
+  };
+
+  const handleSaveJSON = () => saveFileAs({ data: collectAppSnapshot(), defaultPath: 'lineup.json' });
+
+  const handleExportCSV = () => saveFileAs({
+    text: lineupsToCSV([
+      { team: 'A', formation, players, bench },
+      { team: 'B', formation: formationB, players: playersB, bench: benchB },
+    ]),
+    defaultPath: 'lineups.csv',
+  });
+
+  // 텍스트/CSV 명단 적용: 포메이션 줄이 없으면 현재 포메이션 유지, 교체 기록과 드래그 위치는 초기화
+  const applyImportedLineup = (team: 'A' | 'B', result: LineupTextResult) => {
+    const nextFormation = result.formation ?? (team === 'A' ? formation : formationB);
+    if (team === 'A') {
+      setFormation(nextFormation);
+      setPlayers(result.players);
+      setBench(result.bench);
+      setSubstitutions([]);
+      setOverrides({});
+    } else {
+      setFormationB(nextFormation);
+      setPlayersB(result.players);
+      setBenchB(result.bench);
+      setSubstitutionsB([]);
+      setOverridesB({});
+    }
+    setShowLineupImport(false);
+
+    setTimeout(() => {
+      broadcastCurrentPlayerPositions(
+        team === 'A'
+          ? { ...currentBroadcastInput(), formation: nextFormation, players: result.players, bench: result.bench, substitutions: [], overrides: {} }
+          : { ...currentBroadcastInput(), formationB: nextFormation, playersB: result.players, benchB: result.bench, substitutionsB: [], overridesB: {} },
+        electronAPI,
+      );
+    }, 0);
+  };
+
+  const updateRosterLibrary = (next: RosterLibrary) => {
+    setRosterLibrary(next);
+    saveRosterLibrary(next);
+  };
+
+  // 저장된 스쿼드로 선발(포메이션 역할 순)과 벤치를 채우고 교체 기록/드래그 위치를 초기화
+  const fillLineupFromRoster = (team: 'A' | 'B', teamId: string) => {
+    const roster = rosterLibrary[teamId];
+    if (!roster || roster.length === 0) return;
+    const filled = lineupFromRoster(roster, team === 'A' ? formation : formationB);
+    if (team === 'A') {
+      setPlayers(filled.players);
+      setBench(filled.bench);
+      setSubstitutions([]);
+      setOverrides({});
+    } else {
+      setPlayersB(filled.players);
+      setBenchB(filled.bench);
+      setSubstitutionsB([]);
+      setOverridesB({});
+    }
+
+    setTimeout(() => {
+      broadcastCurrentPlayerPositions(
+        team === 'A'
+          ? { ...currentBroadcastInput(), players: filled.players, bench: filled.bench, substitutions: [], overrides: {} }
+          : { ...currentBroadcastInput(), playersB: filled.players, benchB: filled.bench, substitutionsB: [], overridesB: {} },
+        electronAPI,
+      );
+    }, 0);
+  };
+
+  const saveLineupToRoster = (team: 'A' | 'B') => {
+    const teamId = (team === 'A' ? teamLogoA : teamLogoB)?.id;
+    if (!teamId) return;
+    const roster = team === 'A' ? rosterFromLineup(players, bench, rosterLibrary[teamId]) : rosterFromLineup(playersB, benchB, rosterLibrary[teamId]);
+    updateRosterLibrary({ ...rosterLibrary, [teamId]: roster });
+  };
+
+  const handleImportRosters = () => openJSONFile((data) => {
     try {
-      const input = document.createElement('input');
-      input.type = 'file';
-      input.accept = '.json,application/json';
-      input.style.display = 'none';
-      input.onchange = (e: any) => {
-        const file = e.target.files && e.target.files[0];
-        if (!file) return;
-        const reader = new FileReader();
-        reader.onload = () => {
-          try {
-            const parsed = JSON.parse(String(reader.result));
-            applySnapshot(parsed);
-          } catch (err) {
-            console.error('Failed to parse uploaded JSON', err);
-          }
-        };
-        reader.readAsText(file);
-      };
-      document.body.appendChild(input);
-      input.click();
-      input.remove();
+      updateRosterLibrary(mergeRosterLibraries(rosterLibraryRef.current, parseRosterFile(data)));
     } catch (err) {
-      console.error('Browser file input failed', err);
+      alert(`스쿼드를 가져오지 못했습니다: ${err instanceof Error ? err.message : String(err)}`);
     }
+  });
+
+  const handleExportRosters = () => saveFileAs({ data: toRosterFile(rosterLibrary), defaultPath: 'rosters.json' });
+
+  const handleLoadJSON = () => openJSONFile(applySnapshot);
+
+  /****************
+   * Autosave      *
+   ****************/
+  // 지난 세션 복원 제안. 복원 여부를 정하기 전에는 자동 저장하지 않는다 (기본 상태가 최신 버전이 되지 않도록)
+  const [lastSession, setLastSession] = useState<{ savedAt: string | null; data: unknown } | null>(null);
+  const [autosaveReady, setAutosaveReady] = useState(false);
+  const autosaveReadyRef = useRef(false);
+  autosaveReadyRef.current = autosaveReady;
+  const collectAppSnapshotRef = useRef(collectAppSnapshot);
+  collectAppSnapshotRef.current = collectAppSnapshot;
+
+  useEffect(() => {
+    if (!electronAPI?.getLastSession) return;
+    // 창을 닫을 때 메인 프로세스가 마지막 스냅샷을 요청한다
+    electronAPI.setSnapshotProvider?.(() => (autosaveReadyRef.current ? collectAppSnapshotRef.current() : null));
+    electronAPI.getLastSession()
+      .then((session) => {
+        if (session?.data) setLastSession(session);
+        else setAutosaveReady(true);
+      })
+      .catch(() => setAutosaveReady(true));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  useEffect(() => {
+    if (!autosaveReady || !electronAPI?.writeAutosave) return;
+    const id = window.setInterval(() => {
+      electronAPI.writeAutosave?.(collectAppSnapshotRef.current())
+        .then((res) => { if (res && !res.success) console.warn('autosave failed', res.error); })
+        .catch((err) => console.warn('autosave failed', err));
+    }, AUTOSAVE_INTERVAL_MS);
+    return () => window.clearInterval(id);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [autosaveReady]);
+
+  const answerLastSession = (restore: boolean) => {
+    if (restore && lastSession) applySnapshot(lastSession.data);
+    setLastSession(null);
+    setAutosaveReady(true);
   };
 
   // cleanup timers on unmount
@@ -702,7 +1363,7 @@ export default function App() {
       if (singleClickTimerRef.current) window.clearTimeout(singleClickTimerRef.current);
       if (singleClickTimerRefB.current) window.clearTimeout(singleClickTimerRefB.current);
       if (broadcastTimerRef.current) window.clearTimeout(broadcastTimerRef.current);
-      if (refreshIntervalRef.current) window.clearInterval(refreshIntervalRef.current);
+      if (refreshIntervalRef.current) window.clearTimeout(refreshIntervalRef.current);
     };
   }, []);
 
@@ -715,32 +1376,24 @@ export default function App() {
    *******************************/
 
   const updatePlayersForFormation = (newFormation: Formation) => {
-    const newTotal = newFormation.lines.reduce((sum, line) => sum + line, 0);
-    const newPlayers = Array.from({ length: newTotal }, (_, i) => ({
-      number: players[i]?.number || String(i + 1),
-      name: players[i]?.name || `선수 ${i + 1}`,
-    }));
+    const newPlayers = fitPlayersToFormation(players, formation, newFormation);
     setPlayers(newPlayers);
     setFormation(newFormation);
     setOverrides({}); // reset manual drags
 
     setTimeout(() => {
-      broadcastCurrentPlayerPositions(newFormation, formationB, newPlayers, playersB, {}, overridesB, verticalMode, scoreA, scoreB, teamNameA, teamNameB, teamLogoA, teamLogoB, null, null, electronAPI, matchStatsA, matchStatsB);
+      broadcastCurrentPlayerPositions({ ...currentBroadcastInput(), formation: newFormation, players: newPlayers, overrides: {} }, electronAPI);
     }, 0);
   };
 
   const updatePlayersForFormationB = (newFormation: Formation) => {
-    const newTotal = newFormation.lines.reduce((sum, line) => sum + line, 0);
-    const newPlayers = Array.from({ length: newTotal }, (_, i) => ({
-      number: playersB[i]?.number || String(i + 1),
-      name: playersB[i]?.name || `선수 ${i + 1}`,
-    }));
+    const newPlayers = fitPlayersToFormation(playersB, formationB, newFormation);
     setPlayersB(newPlayers);
     setFormationB(newFormation);
     setOverridesB({});
 
     setTimeout(() => {
-      broadcastCurrentPlayerPositions(formation, newFormation, players, newPlayers, overrides, {}, verticalMode, scoreA, scoreB, teamNameA, teamNameB, teamLogoA, teamLogoB, null, null, electronAPI, matchStatsA, matchStatsB);
+      broadcastCurrentPlayerPositions({ ...currentBroadcastInput(), formationB: newFormation, playersB: newPlayers, overridesB: {} }, electronAPI);
     }, 0);
   };
 
@@ -760,6 +1413,99 @@ export default function App() {
     });
   };
 
+  // 수동 교체: 벤치 선수가 선발 선수 자리(같은 인덱스 = 같은 위치)에 들어가고 교체 기록을 남긴다
+  const substitutePlayer = (team: 'A' | 'B', starterIndex: number, benchIndex: number, minute: number | null) => {
+    const sheet = team === 'A'
+      ? { players, bench, substitutions }
+      : { players: playersB, bench: benchB, substitutions: substitutionsB };
+    const result = applySubstitution(sheet, starterIndex, benchIndex, minute);
+    if (!result) return;
+    const { players: nextPlayers, bench: nextBench, substitutions: nextSubs } = result;
+    const { playerOut, playerIn } = nextSubs[nextSubs.length - 1];
+    const nextTimeline = sortTimeline([...timeline, {
+      id: createManualEventId(), source: 'manual', type: 'subst', detail: 'normal', team, minute, extra: null,
+      player: { number: playerOut.number, name: playerOut.name }, assist: { number: playerIn.number, name: playerIn.name },
+    }]);
+
+    if (team === 'A') {
+      setPlayers(nextPlayers);
+      setBench(nextBench);
+      setSubstitutions(nextSubs);
+    } else {
+      setPlayersB(nextPlayers);
+      setBenchB(nextBench);
+      setSubstitutionsB(nextSubs);
+    }
+    setTimeline(nextTimeline);
+
+    setTimeout(() => {
+      broadcastCurrentPlayerPositions(
+        team === 'A'
+          ? { ...currentBroadcastInput(), players: nextPlayers, bench: nextBench, substitutions: nextSubs, events: nextTimeline }
+          : { ...currentBroadcastInput(), playersB: nextPlayers, benchB: nextBench, substitutionsB: nextSubs, events: nextTimeline },
+        electronAPI,
+      );
+    }, 0);
+  };
+
+  // 마지막 교체 되돌리기: 들어간 선수를 벤치로, 나간 선수를 같은 자리로 복귀
+  const undoSubstitution = (team: 'A' | 'B') => {
+    const sheet = team === 'A'
+      ? { players, bench, substitutions }
+      : { players: playersB, bench: benchB, substitutions: substitutionsB };
+    const last = sheet.substitutions[sheet.substitutions.length - 1];
+    const result = undoLastSubstitution(sheet);
+    if (!last || !result) return;
+    const { players: nextPlayers, bench: nextBench, substitutions: nextSubs } = result;
+    // 같은 교체의 수동 타임라인 항목도 제거
+    const timelineIndex = timeline.map((e, i) => ({ e, i })).reverse().find(({ e }) =>
+      e.source === 'manual' && e.type === 'subst' && e.team === team &&
+      e.assist?.number === last.playerIn.number && e.assist?.name === last.playerIn.name)?.i;
+    const nextTimeline = timelineIndex === undefined ? timeline : timeline.filter((_, i) => i !== timelineIndex);
+
+    if (team === 'A') {
+      setPlayers(nextPlayers);
+      setBench(nextBench);
+      setSubstitutions(nextSubs);
+    } else {
+      setPlayersB(nextPlayers);
+      setBenchB(nextBench);
+      setSubstitutionsB(nextSubs);
+    }
+    setTimeline(nextTimeline);
+
+    setTimeout(() => {
+      broadcastCurrentPlayerPositions(
+        team === 'A'
+          ? { ...currentBroadcastInput(), players: nextPlayers, bench: nextBench, substitutions: nextSubs, events: nextTimeline }
+          : { ...currentBroadcastInput(), playersB: nextPlayers, benchB: nextBench, substitutionsB: nextSubs, events: nextTimeline },
+        electronAPI,
+      );
+    }, 0);
+  };
+
+  // 타임라인 수동 편집 (API 이벤트 삭제는 다음 갱신에서 다시 추가되지 않도록 기록)
+  const addTimelineEvent = (event: TimelineEvent) => setTimeline((prev) => sortTimeline([...prev, event]));
+  const updateTimelineEvent = (event: TimelineEvent) =>
+    setTimeline((prev) => sortTimeline(prev.map((e) => (e.id === event.id ? event : e))));
+  const deleteTimelineEvent = (event: TimelineEvent) => {
+    setTimeline((prev) => prev.filter((e) => e.id !== event.id));
+    if (event.source === 'api') setDismissedEventIds((prev) => [...prev, event.id]);
+  };
+
+  // 타임라인 선수 선택지: 현재 출전 선수, 벤치, 교체로 나간 선수
+  const timelineRoster = (lineup: Player[], teamBench: Player[], subs: Substitution[]): TimelinePlayer[] => {
+    const seen = new Set<string>();
+    return [...lineup, ...teamBench, ...subs.map((s) => s.playerOut)]
+      .map((p) => ({ number: p.number, name: p.name }))
+      .filter((p) => {
+        const key = `${p.number}|${p.name}`;
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      });
+  };
+
   const handlePlayerClick = (index: number) => {
     setSelectedPlayer(index);
     setEditingPlayer(players[index]);
@@ -788,24 +1534,43 @@ export default function App() {
     // 팀 A와 팀 B의 모든 정보를 서로 교환
     const tempFormation = formation;
     const tempPlayers = players;
-    const tempUniformColor = uniformColor;
+    const tempKit = kit;
+    const tempGoalkeeperColor = goalkeeperColor;
     const tempTeamName = teamNameA;
     const tempTeamLogo = teamLogoA;
     const tempOverrides = overrides;
+    const tempBench = bench;
+    const tempSubstitutions = substitutions;
 
     setFormation(formationB);
     setPlayers(playersB);
-    setUniformColor(uniformColorB);
+    setKit(kitB);
+    setGoalkeeperColor(goalkeeperColorB);
     setTeamNameA(teamNameB);
     setTeamLogoA(teamLogoB);
     setOverrides(overridesB);
+    setBench(benchB);
+    setSubstitutions(substitutionsB);
 
     setFormationB(tempFormation);
     setPlayersB(tempPlayers);
-    setUniformColorB(tempUniformColor);
+    setKitB(tempKit);
+    setGoalkeeperColorB(tempGoalkeeperColor);
     setTeamNameB(tempTeamName);
     setTeamLogoB(tempTeamLogo);
     setOverridesB(tempOverrides);
+    setBenchB(tempBench);
+    setSubstitutionsB(tempSubstitutions);
+
+    setTimeline((prev) => prev.map((e) => ({ ...e, team: e.team === 'A' ? 'B' : 'A' })));
+    setShootout((prev) => ({
+      ...prev,
+      firstTeam: prev.firstTeam === 'A' ? 'B' : 'A',
+      kicks: prev.kicks.map((k) => ({ ...k, team: k.team === 'A' ? 'B' : 'A' })),
+    }));
+    setTie(swapTieSides);
+    setKitSuggestions((prev) => ({ A: prev.B, B: prev.A }));
+    logoPickRef.current = { A: logoPickRef.current.B, B: logoPickRef.current.A };
   };
 
 /***************************
@@ -814,7 +1579,7 @@ export default function App() {
   
   // 실시간, 예정, 종료 경기 목록 통합 가져오기 (EPL, 분데스리가 필터 적용)
   const loadLiveMatches = async () => {
-    if (!apiKey.trim()) {
+    if (!apiReady) {
       alert('API 키를 입력하세요');
       return;
     }
@@ -825,18 +1590,10 @@ export default function App() {
      // 1. 오늘 날짜 계산 (ISO 포맷: YYYY-MM-DD)
       const todayStr = new Date().toISOString().split('T')[0];
 
-      // 2. 오늘 날짜의 모든 경기 요청
-      const response = await fetch(`https://v3.football.api-sports.io/fixtures?date=${todayStr}`, {
-        headers: { 'x-apisports-key': apiKey }
-      });
-
-      const data = await response.json();
-      const allMatches = data.response || [];
+      // 2. 오늘 날짜의 모든 경기 요청 (시간 순 정렬)
+      const allMatches = await matchData.listFixtures(todayStr);
 
       if (allMatches.length > 0) {
-        // 시간 순으로 정렬 (보기 편하게)
-        allMatches.sort((a: any, b: any) => a.fixture.timestamp - b.fixture.timestamp);
-
         setLiveMatches(allMatches);
       } else {
         setLiveMatches([]);
@@ -850,305 +1607,286 @@ export default function App() {
     }
   };
 
-  // 포메이션 문자열을 배열로 변환 (예: "4-3-3" -> [1, 4, 3, 3])
-  const parseFormation = (formationStr: string): number[] => {
-    if (!formationStr) return [1, 4, 3, 3];
-    
-    // API 데이터는 "4-3-3" 형식이므로 하이픈으로 분리
-    const parts = formationStr.split('-').map(n => parseInt(n, 10));
-    return [1, ...parts]; // 골키퍼 1명 추가
-  };
-
   // 경기 라인업 가져오기 및 적용
-  const loadMatchLineup = async (fixtureId: number, homeTeam: any, awayTeam: any, score: any, isAutoRefresh: boolean = false) => {
+  const loadMatchLineup = async (match: FixtureSummary, isAutoRefresh: boolean = false): Promise<LineupRefreshResult> => {
     if (!isAutoRefresh) {
       setIsLoadingMatches(true);
     }
     
     try {
-      const headers = { 'x-apisports-key': apiKey };
-
-      // 라인업, 경기 정보, 통계 병렬 요청
-      const [lineupResponse, fixtureResponse, statsResponse] = await Promise.all([
-        fetch(`https://v3.football.api-sports.io/fixtures/lineups?fixture=${fixtureId}`, { headers }),
-        fetch(`https://v3.football.api-sports.io/fixtures?id=${fixtureId}`, { headers }),
-        fetch(`https://v3.football.api-sports.io/fixtures/statistics?fixture=${fixtureId}`, { headers }),
-      ]);
-
-      const [lineupData, fixtureData, statsData] = await Promise.all([
-        lineupResponse.json(),
-        fixtureResponse.json(),
-        statsResponse.json(),
+      // 라인업, 경기 정보, 이벤트, 통계 병렬 요청
+      const [lineups, latestFixture, allEvents, stats] = await Promise.all([
+        matchData.getLineups(match.id),
+        matchData.getFixture(match.id),
+        matchData.getEvents(match.id),
+        matchData.getStats(match.id),
       ]);
-
-      const latestFixture = fixtureData.response[0];
-      const events = latestFixture.events || [];
-
-      if (lineupData.response && lineupData.response.length >= 2 && fixtureData.response[0]) {
-        const homeLineup = lineupData.response[0];
-        const awayLineup = lineupData.response[1];
-        const latestFixture = fixtureData.response[0];
-        const allEvents = latestFixture.events || [];
-
+      // 이후 상태 변경은 한 번에 처리되며 되돌리기 기록에 남기지 않는다
+      skipHistoryRef.current = true;
+      setHistoryTick((t) => t + 1);
+
+      const homeTeam = latestFixture?.home ?? match.home;
+      const awayTeam = latestFixture?.away ?? match.away;
+
+      // 같은 경기 갱신이면 수동 입력/수정을 유지하고, 새 경기를 고르면 타임라인을 새로 시작
+      const sameFixture = isAutoRefresh || match.id === selectedFixtureId;
+      const dismissed = sameFixture ? dismissedEventIdsRef.current : [];
+      const nextTimeline = mergeApiEvents(
+        sameFixture ? timelineRef.current : [],
+        toTimelineEvents(allEvents, lineups, { A: homeTeam.id, B: awayTeam.id }),
+        dismissed,
+      );
+      timelineRef.current = nextTimeline;
+      setTimeline(nextTimeline);
+      setDismissedEventIds(dismissed);
+
+      // 승부차기: API에 킥 이벤트가 있으면 그대로 사용, 없으면 수동 기록 유지
+      const apiKicks = toShootoutKicks(allEvents, lineups, { A: homeTeam.id, B: awayTeam.id });
+      const currentShootout = sameFixture ? shootoutRef.current : DEFAULT_SHOOTOUT;
+      const inShootout = ['P', 'PEN'].includes(latestFixture?.status.short ?? '');
+      const nextShootout: ShootoutState = apiKicks.length > 0
+        ? { active: true, firstTeam: apiKicks[0].team, kicks: apiKicks }
+        : { ...currentShootout, active: currentShootout.active || inShootout };
+      shootoutRef.current = nextShootout;
+      setShootout(nextShootout);
+
+      // 새 경기를 고르면 API 라운드 이름으로 시작 (1/2차전, 1차전 스코어는 직접 입력)
+      const nextTie = sameFixture ? tieRef.current : { ...DEFAULT_TIE, roundName: (latestFixture ?? match).round ?? '' };
+      if (!sameFixture) setTie(nextTie);
+      const homeLogoData = toTeamLogo(homeTeam);
+      const awayLogoData = toTeamLogo(awayTeam);
+
+      if (lineups && latestFixture) {
         console.log(`------- 🔄 실시간 데이터 분석 시작 (Events: ${allEvents.length}개) -------`);
 
-        const getLivePlayers = (lineup: any, teamName: string) => {
-          const teamId = Number(lineup.team.id);
-          
-          // 1. 초기 선발 명단 설정
-          let currentXI = lineup.startXI.map((p: any) => ({
-            id: Number(p.player.id),
-            name: p.player.name,
-            number: p.player.number?.toString() || "0"
-          }));
-
-          // 2. 교체(subst) 이벤트 처리
-          const substEvents = allEvents
-            .filter((ev: any) => ev.type?.toLowerCase() === 'subst' && Number(ev.team?.id) === teamId)
-            .sort((a: any, b: any) => a.time.elapsed - b.time.elapsed);
-
-          substEvents.forEach((ev: any) => {
-            const outId = Number(ev.player?.id); // 나가는 선수 (예: 6561 N. Solís)
-            const inId = Number(ev.assist?.id);   // 들어오는 선수 (예: 35845 H. Burbano)
-            const inName = ev.assist?.name;
-
-            if (outId && inId) {
-              const idx = currentXI.findIndex((p: any) => Number(p.id) === outId);
-              if (idx !== -1) {
-                console.log(`🔄 [교체 확인] ${teamName}: ${currentXI[idx].name} ➡️ ${inName}`);
-                
-                // 벤치 명단에서 들어온 선수의 등번호 확인
-                const benchPlayer = lineup.substitutes.find((s: any) => Number(s.player.id) === inId);
-                
-                currentXI[idx] = {
-                  id: inId,
-                  name: inName,
-                  number: benchPlayer?.player.number?.toString() || currentXI[idx].number
-                };
-              }
-            }
-          });
-
-          // 3. 최종 명단에 득점/카드 매핑 (교체된 선수 포함)
-          return currentXI.map((p: any, idx: number) => {
-            const pId = Number(p.id);
-            const pName = p.name;
-
-            // 득점 매칭
-            const goalCount = allEvents.filter((ev: any) => 
-              ev.type?.toLowerCase() === 'goal' && 
-              (Number(ev.player?.id) === pId || (pName && ev.player?.name === pName))
-            ).length;
-
-            // 카드 매칭 (예: 90분 Hernán Burbano 레드카드 감지)
-            const hasYellow = allEvents.some((ev: any) => 
-              ev.type?.toLowerCase() === 'card' && 
-              ev.detail?.toLowerCase().includes('yellow card') && 
-              (Number(ev.player?.id) === pId || ev.player?.name === pName)
-            );
-            const hasRed = allEvents.some((ev: any) => 
-              ev.type?.toLowerCase() === 'card' && 
-              ev.detail?.toLowerCase().includes('red card') && 
-              (Number(ev.player?.id) === pId || ev.player?.name === pName)
-            );
-
-            return {
-              number: p.number || (idx + 1).toString(),
-              name: pName || `선수 ${idx + 1}`,
-              yellowCard: hasYellow,
-              redCard: hasRed,
-              goals: goalCount
-            };
-          });
-        };
-
-        // 4. 홈/어웨이 선수 상태 업데이트
+        // 홈/어웨이 선수 상태 업데이트
 
         // 홈팀 (팀 A) 설정
-        const homeFormationStr = homeLineup.formation || '4-3-3';
-        const homePlayers = getLivePlayers(homeLineup, "HOME");;
+        const homeFormationStr = lineups.home.formation;
+        const { players: homePlayers, bench: homeBench, substitutions: homeSubs } = getLivePlayers(lineups.home, allEvents);
         const homeFormation: Formation = { name: homeFormationStr, lines: parseFormation(homeFormationStr) };
 
         // 어웨이팀 (팀 B) 설정
-        const awayFormationStr = awayLineup.formation || '4-3-3';
-        const awayPlayers = getLivePlayers(awayLineup, "AWAY");
+        const awayFormationStr = lineups.away.formation;
+        const { players: awayPlayers, bench: awayBench, substitutions: awaySubs } = getLivePlayers(lineups.away, allEvents);
         const awayFormation: Formation = { name: awayFormationStr, lines: parseFormation(awayFormationStr) };
 
         console.log("---------------------------------------");
 
-        // 팀 로고 설정
-        const homeLogoData = {
-          id: `api/${homeTeam.id}`,
-          slug: homeTeam.name.toLowerCase().replace(/\s+/g, '-'),
-          country: homeLineup.team.country || 'unknown',
-          englishName: homeTeam.name,
-          logos: { svg: null, png: homeTeam.logo }
-        };
-
-        const awayLogoData = {
-          id: `api/${awayTeam.id}`,
-          slug: awayTeam.name.toLowerCase().replace(/\s+/g, '-'),
-          country: awayLineup.team.country || 'unknown',
-          englishName: awayTeam.name,
-          logos: { svg: null, png: awayTeam.logo }
-        };
-
         // 상태 업데이트
+        // 골키퍼 유니폼 색은 새 경기를 불러올 때만 API 값으로 (자동 갱신은 수동 변경 유지)
+        if (!isAutoRefresh && lineups.home.colors.goalkeeper) setGoalkeeperColor(lineups.home.colors.goalkeeper);
+        if (!isAutoRefresh && lineups.away.colors.goalkeeper) setGoalkeeperColorB(lineups.away.colors.goalkeeper);
+
         setFormation(homeFormation);
         setPlayers(homePlayers);
+        setBench(homeBench);
+        setSubstitutions(homeSubs);
         setTeamNameA(homeTeam.name);
         setTeamLogoA(homeLogoData);
         if (!isAutoRefresh) setOverrides({});
 
         setFormationB(awayFormation);
         setPlayersB(awayPlayers);
+        setBenchB(awayBench);
+        setSubstitutionsB(awaySubs);
         setTeamNameB(awayTeam.name);
         setTeamLogoB(awayLogoData);
         if (!isAutoRefresh) setOverridesB({});
 
         const newScoreA = latestFixture.goals.home || 0;
         const newScoreB = latestFixture.goals.away || 0;
-        const matchElapsedFormatted = formatMatchTime(latestFixture.fixture.status.elapsed);
-        const matchStatus = latestFixture.fixture.status.short;
-
-        // 통계 파싱 (홈=index 0, 어웨이=index 1)
-        const statsRaw = statsData.response || [];
-        const newStatsA = parseTeamStats(statsRaw, 0);
-        const newStatsB = parseTeamStats(statsRaw, 1);
+        const matchStatus = latestFixture.status.short;
+        const syncedClock = syncClockToApi(matchClockRef.current, matchStatus, latestFixture.status.elapsed, latestFixture.status.extra);
+        matchClockRef.current = syncedClock;
 
         setScoreA(newScoreA);
         setScoreB(newScoreB);
-        setMatchStatsA(newStatsA);
-        setMatchStatsB(newStatsB);
+        setMatchClock(syncedClock);
+        setFixtureStatus(matchStatus);
+        setMatchStatsA(stats.home);
+        setMatchStatsB(stats.away);
 
         // 데이터 전송
         setTimeout(() => {
-          broadcastCurrentPlayerPositions(
-            homeFormation, awayFormation, homePlayers, awayPlayers,
-            isAutoRefresh ? overrides : {}, isAutoRefresh ? overridesB : {},
-            verticalMode, newScoreA, newScoreB, homeTeam.name, awayTeam.name,
-            homeLogoData, awayLogoData, matchElapsedFormatted, matchStatus, electronAPI,
-            newStatsA, newStatsB
-          );
+          const latest = currentBroadcastInputRef.current();
+          broadcastCurrentPlayerPositions({
+            ...latest,
+            formation: homeFormation, formationB: awayFormation,
+            players: homePlayers, playersB: awayPlayers,
+            bench: homeBench, benchB: awayBench,
+            substitutions: homeSubs, substitutionsB: awaySubs,
+            overrides: isAutoRefresh ? latest.overrides : {}, overridesB: isAutoRefresh ? latest.overridesB : {},
+            scoreA: newScoreA, scoreB: newScoreB,
+            teamNameA: homeTeam.name, teamNameB: awayTeam.name,
+            teamLogoA: homeLogoData, teamLogoB: awayLogoData,
+            matchStatus, clock: syncedClock, events: nextTimeline, shootout: nextShootout, tie: nextTie,
+            statsA: stats.home, statsB: stats.away,
+          }, electronAPI);
         }, 100);
 
         if (!isAutoRefresh) {
-          setSelectedFixtureId(fixtureId);
+          setSelectedFixtureId(match.id);
           setAutoRefreshEnabled(true);
           setShowLiveMatches(false);
-          alert(`${homeTeam.name} vs ${awayTeam.name} 라인업 로드 완료 (10초 자동갱신)`);
+          alert(`${homeTeam.name} vs ${awayTeam.name} 라인업 로드 완료 (자동갱신 시작)`);
         } else {
           console.log(`🔄 자동 갱신 완료: ${homeTeam.name} vs ${awayTeam.name}`);
         }
+        return { status: matchStatus, eventCount: allEvents.length };
       } else {
         // 라인업 정보가 없을 때: 팀명/로고만 반영하고 선수는 빈 상태로 유지
-        const homeLogoData = {
-          id: `api/${homeTeam.id}`,
-          slug: homeTeam.name.toLowerCase().replace(/\s+/g, '-'),
-          country: homeTeam.country || 'unknown',
-          englishName: homeTeam.name,
-          logos: { svg: null, png: homeTeam.logo }
-        };
-
-        const awayLogoData = {
-          id: `api/${awayTeam.id}`,
-          slug: awayTeam.name.toLowerCase().replace(/\s+/g, '-'),
-          country: awayTeam.country || 'unknown',
-          englishName: awayTeam.name,
-          logos: { svg: null, png: awayTeam.logo }
-        };
-
         const emptyFormation: Formation = { name: '4-3-3', lines: [1, 4, 3, 3] };
 
         setTeamNameA(homeTeam.name);
         setTeamLogoA(homeLogoData);
         setFormation(emptyFormation);
         setPlayers(getDefaultPlayers());
+        setBench([]);
+        setSubstitutions([]);
         setOverrides({});
 
         setTeamNameB(awayTeam.name);
         setTeamLogoB(awayLogoData);
         setFormationB(emptyFormation);
         setPlayersB(getDefaultPlayers());
+        setBenchB([]);
+        setSubstitutionsB([]);
         setOverridesB({});
 
-        const newScoreA = score?.home || 0;
-        const newScoreB = score?.away || 0;
-        const matchElapsedFormatted = latestFixture?.fixture?.status?.elapsed ? formatMatchTime(latestFixture.fixture.status.elapsed) : null;
-        const matchStatus = latestFixture?.fixture?.status?.short ?? null;
+        const newScoreA = match.goals.home || 0;
+        const newScoreB = match.goals.away || 0;
+        const matchStatus = latestFixture?.status.short ?? null;
+        const syncedClock = matchStatus
+          ? syncClockToApi(
+              matchClockRef.current,
+              matchStatus,
+              latestFixture?.status.elapsed ?? null,
+              latestFixture?.status.extra ?? null,
+            )
+          : matchClockRef.current;
+        matchClockRef.current = syncedClock;
 
         setScoreA(newScoreA);
         setScoreB(newScoreB);
+        setMatchClock(syncedClock);
+        setFixtureStatus(matchStatus);
         setMatchStatsA([]);
         setMatchStatsB([]);
 
         setTimeout(() => {
-          broadcastCurrentPlayerPositions(
-            emptyFormation, emptyFormation, [], [], {}, {},
-            verticalMode, newScoreA, newScoreB, homeTeam.name, awayTeam.name,
-            homeLogoData, awayLogoData, matchElapsedFormatted, matchStatus, electronAPI,
-            [], []
-          );
+          broadcastCurrentPlayerPositions({
+            ...currentBroadcastInputRef.current(),
+            formation: emptyFormation, formationB: emptyFormation,
+            players: [], playersB: [], bench: [], benchB: [],
+            substitutions: [], substitutionsB: [],
+            overrides: {}, overridesB: {},
+            scoreA: newScoreA, scoreB: newScoreB,
+            teamNameA: homeTeam.name, teamNameB: awayTeam.name,
+            teamLogoA: homeLogoData, teamLogoB: awayLogoData,
+            matchStatus, clock: syncedClock, events: nextTimeline, shootout: nextShootout, tie: nextTie,
+            statsA: [], statsB: [],
+          }, electronAPI);
         }, 100);
 
         if (!isAutoRefresh) {
-          setSelectedFixtureId(fixtureId);
+          setSelectedFixtureId(match.id);
           setAutoRefreshEnabled(true);
           setShowLiveMatches(false);
-          alert(`${homeTeam.name} vs ${awayTeam.name} 라인업 정보가 현재 미제공입니다. 팀 기본 정보만 적용 후 10초 자동재조회 시작`);
+          alert(`${homeTeam.name} vs ${awayTeam.name} 라인업 정보가 현재 미제공입니다. 팀 기본 정보만 적용 후 자동재조회 시작`);
         } else {
           console.log(`🔄 자동 갱신 - 라인업 미제공 상태: ${homeTeam.name} vs ${awayTeam.name}`);
         }
+        return { status: matchStatus, eventCount: allEvents.length };
       }
     } catch (error) {
       console.error('Failed to load lineup:', error);
       if (!isAutoRefresh) {
-        alert('라인업을 불러오는데 실패했습니다');
+        const rateLimited = error instanceof ApiFootballError && error.rateLimited;
+        alert(rateLimited ? 'API 요청 한도를 초과했습니다. 잠시 후 다시 시도하세요' : '라인업을 불러오는데 실패했습니다');
       }
+      return { status: null, eventCount: 0, error };
     } finally {
       if (!isAutoRefresh) {
         setIsLoadingMatches(false);
       }
     }
   };
+  // 자동 갱신 타이머는 매 렌더의 최신 함수를 호출 (수동 배치/유니폼 변경 반영)
+  const loadMatchLineupRef = useRef(loadMatchLineup);
+  loadMatchLineupRef.current = loadMatchLineup;
 
   // 자동 갱신 중지
   const stopAutoRefresh = () => {
     if (refreshIntervalRef.current) {
-      window.clearInterval(refreshIntervalRef.current);
+      window.clearTimeout(refreshIntervalRef.current);
       refreshIntervalRef.current = null;
     }
     setAutoRefreshEnabled(false);
     setSelectedFixtureId(null);
+    setNextRefreshMs(null);
   };
 
-  // 자동 갱신 효과
+  // 자동 갱신 효과: 경기 상태/최근 이벤트/남은 할당량에 따라 다음 갱신 시점을 정하고, 429면 점점 늦춘다
+  const apiQuotaRef = useRef<ApiQuota | null>(null);
+  apiQuotaRef.current = apiQuota;
   useEffect(() => {
-    if (autoRefreshEnabled && selectedFixtureId && apiKey) {
-      // 10초마다 갱신
-      refreshIntervalRef.current = window.setInterval(() => {
-        // 현재 선택된 경기 정보 찾기
-        const selectedMatch = liveMatches.find(m => m.fixture.id === selectedFixtureId);
-        if (selectedMatch) {
-          loadMatchLineup(
-            selectedFixtureId,
-            selectedMatch.teams.home,
-            selectedMatch.teams.away,
-            selectedMatch.goals,
-            true // 자동 갱신 플래그
-          );
-        }
-      }, 10000); // 10초
+    if (!autoRefreshEnabled || !selectedFixtureId || !apiReady) return;
+    const selectedMatch = liveMatches.find(m => m.id === selectedFixtureId);
+    if (!selectedMatch) return;
 
-      // cleanup
-      return () => {
-        if (refreshIntervalRef.current) {
-          window.clearInterval(refreshIntervalRef.current);
-          refreshIntervalRef.current = null;
-        }
-      };
-    }
-  }, [autoRefreshEnabled, selectedFixtureId, apiKey, liveMatches]);
+    let cancelled = false;
+    let lastEventCount: number | null = null;
+    const poll: PollState = {
+      status: selectedMatch.status.short,
+      lastEventAt: null,
+      rateLimitStrikes: 0,
+      retryAfterMs: null,
+      quota: apiQuotaRef.current,
+    };
+
+    const schedule = () => {
+      poll.quota = apiQuotaRef.current;
+      const delay = nextPollDelay(poll);
+      // 할당량 소진: 자동 갱신 중단
+      if (!Number.isFinite(delay)) {
+        console.warn('API-Football 일일 요청 한도 소진, 자동 갱신 중단');
+        setNextRefreshMs(null);
+        return;
+      }
+      setNextRefreshMs(delay);
+      refreshIntervalRef.current = window.setTimeout(tick, delay);
+    };
+
+    const tick = async () => {
+      const result = await loadMatchLineupRef.current(selectedMatch, true); // 자동 갱신 플래그
+      if (cancelled) return;
+
+      if (result.error) {
+        const rateLimited = result.error instanceof ApiFootballError && result.error.rateLimited;
+        poll.rateLimitStrikes = rateLimited ? poll.rateLimitStrikes + 1 : 0;
+        poll.retryAfterMs = rateLimited ? (result.error as ApiFootballError).retryAfterMs : null;
+      } else {
+        poll.rateLimitStrikes = 0;
+        poll.retryAfterMs = null;
+        poll.status = result.status;
+        if (lastEventCount !== null && result.eventCount > lastEventCount) poll.lastEventAt = Date.now();
+        lastEventCount = result.eventCount;
+      }
+      schedule();
+    };
+
+    schedule();
+
+    // cleanup
+    return () => {
+      cancelled = true;
+      if (refreshIntervalRef.current) {
+        window.clearTimeout(refreshIntervalRef.current);
+        refreshIntervalRef.current = null;
+      }
+    };
+  }, [autoRefreshEnabled, selectedFixtureId, apiReady, matchData, liveMatches]);
 
   /***************************
    * Pointer / Drag Handlers *
@@ -1205,6 +1943,7 @@ export default function App() {
     try { (e.currentTarget as HTMLElement).releasePointerCapture(e.pointerId); } catch {}
     const { index, moved } = draggingRef.current;
     draggingRef.current = null;
+    if (moved) setHistoryTick((t) => t + 1);
 
     if (!moved) {
       if (singleClickTimerRef.current) window.clearTimeout(singleClickTimerRef.current);
@@ -1215,7 +1954,7 @@ export default function App() {
     } else {
       if (broadcastTimerRef.current) window.clearTimeout(broadcastTimerRef.current);
       broadcastTimerRef.current = window.setTimeout(() => {
-        broadcastCurrentPlayerPositions(formation, formationB, players, playersB, overrides, overridesB, verticalMode, scoreA, scoreB, teamNameA, teamNameB, teamLogoA, teamLogoB, null, null, electronAPI, matchStatsA, matchStatsB);
+        broadcastCurrentPlayerPositions(currentBroadcastInput(), electronAPI);
         broadcastTimerRef.current = null;
       }, 100);
     }
@@ -1261,6 +2000,7 @@ export default function App() {
     try { (e.currentTarget as HTMLElement).releasePointerCapture(e.pointerId); } catch {}
     const { index, moved } = draggingRefB.current;
     draggingRefB.current = null;
+    if (moved) setHistoryTick((t) => t + 1);
 
     if (!moved) {
       if (singleClickTimerRefB.current) window.clearTimeout(singleClickTimerRefB.current);
@@ -1271,7 +2011,7 @@ export default function App() {
     } else {
       if (broadcastTimerRef.current) window.clearTimeout(broadcastTimerRef.current);
       broadcastTimerRef.current = window.setTimeout(() => {
-        broadcastCurrentPlayerPositions(formation, formationB, players, playersB, overrides, overridesB, verticalMode, scoreA, scoreB, teamNameA, teamNameB, teamLogoA, teamLogoB, null, null, electronAPI, matchStatsA, matchStatsB);
+        broadcastCurrentPlayerPositions(currentBroadcastInput(), electronAPI);
         broadcastTimerRef.current = null;
       }, 100);
     }
@@ -1280,8 +2020,13 @@ export default function App() {
   /****************
    * Derived Data *
    ****************/
-  const playerPositions = useMemo(() => calcPositions(formation), [formation]);
-  const playerPositionsB = useMemo(() => calcPositions(formationB), [formationB]);
+  const kitClash = useMemo(() => detectKitClash(kit, kitB), [kit, kitB]);
+  const goalkeeperKitA = useMemo(() => goalkeeperKit(goalkeeperColor, kit), [goalkeeperColor, kit]);
+  const goalkeeperKitB = useMemo(() => goalkeeperKit(goalkeeperColorB, kitB), [goalkeeperColorB, kitB]);
+  const playerPositions = useMemo(() => calcPlayerPositions(formation, players), [formation, players]);
+  const aggregate = aggregateScore(tie, scoreA, scoreB);
+  const playerPositionsB = useMemo(() => calcPlayerPositions(formationB, playersB), [formationB, playersB]);
+  const apiQuotaLow = !!apiQuota?.limit && apiQuota.remaining !== null && apiQuota.remaining / apiQuota.limit < 0.1;
 
   /********
    * View *
@@ -1309,7 +2054,7 @@ export default function App() {
               const newVerticalMode = !verticalMode;
               setVerticalMode(newVerticalMode);
               setTimeout(() => {
-                broadcastCurrentPlayerPositions(formation, formationB, players, playersB, overrides, overridesB, newVerticalMode, scoreA, scoreB, teamNameA, teamNameB, teamLogoA, teamLogoB, null, null, electronAPI, matchStatsA, matchStatsB);
+                broadcastCurrentPlayerPositions({ ...currentBroadcastInput(), verticalMode: newVerticalMode }, electronAPI);
               }, 0);
             }} className="px-3 py-1 app-no-drag" style={{ border: '2px solid #e6e6e6', background: '#ffffff', color: '#111' }}>{verticalMode ? '가로모드' : '세로모드'}</Button>
             <Button onClick={handleSwapTeams} className="px-3 py-1 app-no-drag" style={{ border: '2px solid #e6e6e6', background: '#ffffff', color: '#111' }} title="팀 A와 팀 B 정보 교환">⇄ 팀교환</Button>
@@ -1321,10 +2066,61 @@ export default function App() {
                 </span>
               </Button>
             )}
+            <Button
+              onClick={() => setSentOffDisplay(SENT_OFF_DISPLAYS[(SENT_OFF_DISPLAYS.indexOf(sentOffDisplay) + 1) % SENT_OFF_DISPLAYS.length])}
+              className="px-3 py-1 app-no-drag"
+              style={{ border: '2px solid #e6e6e6', background: '#ffffff', color: '#111' }}
+              title="퇴장 선수 표시 방식"
+            >
+              🟥 퇴장: {SENT_OFF_DISPLAY_LABELS[sentOffDisplay]}
+            </Button>
+            <Button onClick={() => setShowTieEditor(true)} className="px-3 py-1 app-no-drag" style={{ border: '2px solid #e6e6e6', background: '#ffffff', color: '#111' }} title="라운드 / 1·2차전 합계">🏆 라운드</Button>
+            <Button onClick={() => setShowTimeline(true)} className="px-3 py-1 app-no-drag" style={{ border: '2px solid #e6e6e6', background: '#ffffff', color: '#111' }} title="경기 이벤트 타임라인">📋 이벤트</Button>
+            <Button onClick={() => setShowRosters(true)} className="px-3 py-1 app-no-drag" style={{ border: '2px solid #e6e6e6', background: '#ffffff', color: '#111' }} title="팀별 스쿼드 저장 / 불러오기">👥 스쿼드</Button>
+            <Button onClick={undo} disabled={historyCounts.undo === 0} className="px-3 py-1 app-no-drag" style={{ border: '2px solid #e6e6e6', background: '#ffffff', color: '#111' }} title="되돌리기 (Ctrl+Z)">↶</Button>
+            <Button onClick={redo} disabled={historyCounts.redo === 0} className="px-3 py-1 app-no-drag" style={{ border: '2px solid #e6e6e6', background: '#ffffff', color: '#111' }} title="다시 실행 (Ctrl+Shift+Z)">↷</Button>
             {/* Placeholder SAVE/LOAD buttons (UI only) */}
             <Button onClick={handleSaveJSON} className="px-3 py-1 app-no-drag" style={{ border: '2px solid #e6e6e6', background: '#ffffff', color: '#111' }}>SAVE</Button>
             <Button onClick={handleLoadJSON} className="px-3 py-1 app-no-drag" style={{ border: '2px solid #e6e6e6', background: '#ffffff', color: '#111' }}>LOAD</Button>
+            <Button onClick={() => setShowLineupImport(true)} className="px-3 py-1 app-no-drag" style={{ border: '2px solid #e6e6e6', background: '#ffffff', color: '#111' }} title="텍스트 / CSV 명단 붙여넣기">📝 명단 입력</Button>
+            <Button onClick={handleExportCSV} className="px-3 py-1 app-no-drag" style={{ border: '2px solid #e6e6e6', background: '#ffffff', color: '#111' }} title="양 팀 라인업 CSV 저장">CSV</Button>
         </div>
+          {/* 로고에서 추출한 유니폼 색 제안 (적용 시 무늬는 유지) */}
+          {(['A', 'B'] as const).map((team) => {
+            const suggestion = kitSuggestions[team];
+            if (!suggestion) return null;
+            const setTeamKit = team === 'A' ? setKit : setKitB;
+            const dismiss = () => setKitSuggestions((prev) => ({ ...prev, [team]: undefined }));
+            return (
+              <div key={team} className="flex gap-2 items-center mt-2 px-3 py-1 rounded text-sm" style={{ background: '#eff6ff', color: '#1e3a8a', border: '1px solid #60a5fa', width: 'fit-content' }}>
+                팀 {team} 로고 색으로 유니폼을 바꿀까요?
+                {[suggestion.primary, suggestion.secondary].filter((c): c is string => c !== null).map((color) => (
+                  <span key={color} style={{ display: 'inline-block', width: 14, height: 14, borderRadius: 3, background: color, border: '1px solid #0006' }} />
+                ))}
+                <button
+                  onClick={() => { setTeamKit((prev) => recolorKit(prev, suggestion.primary, suggestion.secondary)); dismiss(); }}
+                  className="px-2 rounded bg-blue-600 text-white app-no-drag"
+                >
+                  적용
+                </button>
+                <button onClick={dismiss} className="px-2 rounded border border-blue-400 app-no-drag">그대로 두기</button>
+              </div>
+            );
+          })}
+          {/* 양 팀 유니폼 색이 비슷하면 경고 + B팀 대체 색 제안 */}
+          {kitClash && (
+            <div className="flex gap-2 items-center mt-2 px-3 py-1 rounded text-sm" style={{ background: '#fef3c7', color: '#92400e', border: '1px solid #f59e0b', width: 'fit-content' }}>
+              ⚠ 유니폼 색이 비슷합니다 (ΔE {kitClash.distance.toFixed(1)})
+              {kitClash.alternate && (
+                <>
+                  <span style={{ display: 'inline-block', width: 14, height: 14, borderRadius: 3, background: kitClash.alternate.primary, border: '1px solid #0006' }} />
+                  <button onClick={() => kitClash.alternate && setKitB(kitClash.alternate)} className="px-2 rounded bg-amber-600 text-white app-no-drag">
+                    팀 B 대체 색 적용
+                  </button>
+                </>
+              )}
+            </div>
+          )}
       </div>
 
       <div className="flex gap-6 h-[700px] max-h-[90vh]" style={{ height: 700, marginTop: 100 }}>
@@ -1348,7 +2144,7 @@ export default function App() {
               <div style={{ flex: 1, display: 'flex', alignItems: 'center', gap: 12, paddingLeft: 18 }}>
                 <div style={{ width: 72, height: 72, display: 'flex', alignItems: 'center', justifyContent: 'center' }}>
                   {teamLogoA ? (
-                    <img src={teamLogoA.logos.png ?? teamLogoA.logos.svg} alt={teamLogoA.englishName} style={{ maxWidth: '100%', maxHeight: '100%', objectFit: 'contain' }} />
+                    <img src={teamLogoA.logos.png ?? teamLogoA.logos.svg ?? undefined} alt={teamLogoA.englishName} style={{ maxWidth: '100%', maxHeight: '100%', objectFit: 'contain' }} />
                   ) : (
                     <div style={{ width: 56, height: 56, borderRadius: 8, background: '#ffffff22' }} />
                   )}
@@ -1358,13 +2154,39 @@ export default function App() {
                 </div>
               </div>
 
-              {/* Center: Score */}
-              <div style={{ flex: 1, display: 'flex', alignItems: 'center', justifyContent: 'center', gap: 12 }}>
+              {/* Center: Score + match clock */}
+              <div style={{ flex: 1, display: 'flex', alignItems: 'center', justifyContent: 'center', gap: 12, position: 'relative', height: '100%' }}>
                 <Suspense fallback={<div style={{ color: '#fff', fontWeight: 900, fontSize: 'clamp(28px, 4.2vw, 64px)' }}>{scoreA} : {scoreB}</div>}>
                   <ScoreDraggable value={scoreA} onChange={(v: number) => setScoreA(v)} />
                   <div style={{ color: '#fff', fontWeight: 900, fontSize: 'clamp(28px, 4.2vw, 64px)' }}>:</div>
                   <ScoreDraggable value={scoreB} onChange={(v: number) => setScoreB(v)} />
                 </Suspense>
+                {tieHeading(tie) && (
+                  <div style={{ position: 'absolute', top: 2, left: '50%', transform: 'translateX(-50%)', color: '#fff', opacity: 0.85, fontSize: 11, fontWeight: 700, whiteSpace: 'nowrap' }}>
+                    {tieHeading(tie)}
+                  </div>
+                )}
+                {aggregate && (
+                  <div style={{ position: 'absolute', bottom: 2, left: '50%', transform: 'translateX(-50%)', color: '#fff', fontSize: 12, fontWeight: 700, whiteSpace: 'nowrap' }}>
+                    {aggregate.label}
+                    {aggregate.decidedBy === 'away-goals' && <span style={{ opacity: 0.8 }}> (원정 다득점)</span>}
+                  </div>
+                )}
+                <div style={{ position: 'absolute', top: '100%', marginTop: 4, left: '50%', transform: 'translateX(-50%)' }}>
+                  <Suspense fallback={null}>
+                    <div style={{ display: 'flex', flexDirection: 'column', alignItems: 'center', gap: 4 }}>
+                      <MatchClock clock={matchClock} onChange={setMatchClock} />
+                      {shootout.active && (
+                        <ShootoutTracker
+                          shootout={shootout}
+                          onChange={setShootout}
+                          teamNames={{ A: teamNameA, B: teamNameB }}
+                          rosters={{ A: timelineRoster(players, [], []), B: timelineRoster(playersB, [], []) }}
+                        />
+                      )}
+                    </div>
+                  </Suspense>
+                </div>
               </div>
 
               {/* Right: Team B */}
@@ -1374,7 +2196,7 @@ export default function App() {
                 </div>
                 <div style={{ width: 72, height: 72, display: 'flex', alignItems: 'center', justifyContent: 'center' }}>
                   {teamLogoB ? (
-                    <img src={teamLogoB.logos.png ?? teamLogoB.logos.svg} alt={teamLogoB.englishName} style={{ maxWidth: '100%', maxHeight: '100%', objectFit: 'contain' }} />
+                    <img src={teamLogoB.logos.png ?? teamLogoB.logos.svg ?? undefined} alt={teamLogoB.englishName} style={{ maxWidth: '100%', maxHeight: '100%', objectFit: 'contain' }} />
                   ) : (
                     <div style={{ width: 56, height: 56, borderRadius: 8, background: '#ffffff22' }} />
                   )}
@@ -1393,6 +2215,7 @@ export default function App() {
                 {/* Team A players mapped to top half */}
                 {players.map((player, index) => {
                   const defaultPos = playerPositions[index];
+                  if (sentOffDisplay === 'hide' && player.redCard) return null;
                   if (!defaultPos) return null;
                   const pos = overrides[index] ?? defaultPos;
                   const topStart = 2;
@@ -1419,11 +2242,14 @@ export default function App() {
                       <PlayerCard 
                       number={player.number} 
                       name={player.name} 
-                      color={uniformColor} 
+                      kit={isGoalkeeper(player, formation, index) ? goalkeeperKitA : kit} 
                       onClick={() => handlePlayerClick(index)} 
                       size={56} 
-                      yellowCard={player.yellowCard} 
+                      yellowCards={player.yellowCards} 
                       redCard={player.redCard} 
+                      redCardReason={player.redCardReason} 
+                      dimmed={sentOffDisplay === 'dim' && player.redCard} 
+                      captain={player.captain} 
                       goals={player.goals} // 👈 이 코드를 추가하세요!
                     />
                     </div>
@@ -1433,6 +2259,7 @@ export default function App() {
                 {/* Team B players mirrored into bottom half */}
                 {playersB.map((player, index) => {
                   const defaultPos = playerPositionsB[index];
+                  if (sentOffDisplay === 'hide' && player.redCard) return null;
                   if (!defaultPos) return null;
                   const basePos = overridesB[index] ?? defaultPos;
                   const bottomStart = 48;
@@ -1460,11 +2287,14 @@ export default function App() {
                       <PlayerCard 
                         number={player.number} 
                         name={player.name} 
-                        color={uniformColorB} 
+                        kit={isGoalkeeper(player, formationB, index) ? goalkeeperKitB : kitB} 
                         onClick={() => handlePlayerClickB(index)} 
                         size={56} 
-                        yellowCard={player.yellowCard} 
+                        yellowCards={player.yellowCards} 
                         redCard={player.redCard} 
+                        redCardReason={player.redCardReason} 
+                        dimmed={sentOffDisplay === 'dim' && player.redCard} 
+                        captain={player.captain} 
                         goals={player.goals} // 👈 이 코드를 추가하세요!
                       />
                     </div>
@@ -1498,6 +2328,7 @@ export default function App() {
                 <FootballField fieldRef={fieldRef}>
                   {players.map((player, index) => {
                     const defaultPos = playerPositions[index];
+                    if (sentOffDisplay === 'hide' && player.redCard) return null;
                     if (!defaultPos) return null;
                     const pos = overrides[index] ?? defaultPos;
                     return (
@@ -1520,11 +2351,14 @@ export default function App() {
                         <PlayerCard 
                           number={player.number} 
                           name={player.name} 
-                          color={uniformColor} 
+                          kit={isGoalkeeper(player, formation, index) ? goalkeeperKitA : kit} 
                           onClick={() => handlePlayerClick(index)} 
                           size={56} 
-                          yellowCard={player.yellowCard} 
+                          yellowCards={player.yellowCards} 
                           redCard={player.redCard} 
+                          redCardReason={player.redCardReason} 
+                          dimmed={sentOffDisplay === 'dim' && player.redCard} 
+                          captain={player.captain} 
                           goals={player.goals} // 👈 이 줄을 "반드시" 추가하세요!
                         />
                       </div>
@@ -1546,6 +2380,7 @@ export default function App() {
                 <FootballField fieldRef={fieldRefB}>
                   {playersB.map((player, index) => {
                     const defaultPos = playerPositionsB[index];
+                    if (sentOffDisplay === 'hide' && player.redCard) return null;
                     if (!defaultPos) return null;
                     const pos = overridesB[index] ?? defaultPos;
                     return (
@@ -1568,11 +2403,14 @@ export default function App() {
                         <PlayerCard 
                           number={player.number} 
                           name={player.name} 
-                          color={uniformColorB} 
+                          kit={isGoalkeeper(player, formationB, index) ? goalkeeperKitB : kitB} 
                           onClick={() => handlePlayerClickB(index)} 
                           size={56} 
-                          yellowCard={player.yellowCard} 
+                          yellowCards={player.yellowCards} 
                           redCard={player.redCard} 
+                          redCardReason={player.redCardReason} 
+                          dimmed={sentOffDisplay === 'dim' && player.redCard} 
+                          captain={player.captain} 
                           goals={player.goals} // 👈 이 줄을 "반드시" 추가하세요!
                         />
                       </div>
@@ -1611,43 +2449,7 @@ export default function App() {
               <Label htmlFor="edit-name">이름</Label>
               <Input id="edit-name" value={editingPlayer.name} onChange={(e) => setEditingPlayer({ ...editingPlayer, name: e.target.value })} placeholder="선수명" />
             </div>
-            <div className="space-y-2">
-              <Label>카드 상태</Label>
-              <div className="flex gap-3">
-                <Button
-                  type="button"
-                  variant="outline"
-                  onClick={() => setEditingPlayer({ ...editingPlayer, yellowCard: !editingPlayer.yellowCard, redCard: editingPlayer.yellowCard ? false : editingPlayer.redCard })}
-                  className={`flex-1 h-12 font-semibold transition-all duration-200 ${
-                    editingPlayer.yellowCard 
-                      ? 'bg-yellow-400 hover:bg-yellow-500 text-black border-yellow-600 shadow-lg scale-105' 
-                      : 'bg-white hover:bg-yellow-50 text-gray-700 border-yellow-300 hover:border-yellow-400'
-                  }`}
-                >
-                  <span className="flex items-center gap-2">
-                    <span className={`w-3 h-3 rounded ${editingPlayer.yellowCard ? 'bg-yellow-600' : 'bg-yellow-200'}`}></span>
-                    옐로우 카드
-                    {editingPlayer.yellowCard && <span className="text-xs">✓</span>}
-                  </span>
-                </Button>
-                <Button
-                  type="button"
-                  variant="outline"
-                  onClick={() => setEditingPlayer({ ...editingPlayer, redCard: !editingPlayer.redCard, yellowCard: editingPlayer.redCard ? false : editingPlayer.yellowCard })}
-                  className={`flex-1 h-12 font-semibold transition-all duration-200 ${
-                    editingPlayer.redCard 
-                      ? 'bg-red-500 hover:bg-red-600 text-black border-red-700 shadow-lg scale-105' 
-                      : 'bg-white hover:bg-red-50 text-black hover:text-black border-red-300 hover:border-red-400'
-                  }`}
-                >
-                  <span className="flex items-center gap-2">
-                    <span className={`w-3 h-3 rounded ${editingPlayer.redCard ? 'bg-red-700' : 'bg-red-200'}`}></span>
-                    레드 카드
-                    {editingPlayer.redCard && <span className="text-xs">✓</span>}
-                  </span>
-                </Button>
-              </div>
-            </div>
+            <CardEditor player={editingPlayer} onChange={setEditingPlayer} />
             <Button onClick={handleSavePlayer} className="w-full">저장</Button>
           </div>
         </DialogContent>
@@ -1667,43 +2469,7 @@ export default function App() {
               <Label htmlFor="edit-name-b">이름</Label>
               <Input id="edit-name-b" value={editingPlayerB.name} onChange={(e) => setEditingPlayerB({ ...editingPlayerB, name: e.target.value })} placeholder="선수명" />
             </div>
-            <div className="space-y-2">
-              <Label>카드 상태</Label>
-              <div className="flex gap-3">
-                <Button
-                  type="button"
-                  variant="outline"
-                  onClick={() => setEditingPlayerB({ ...editingPlayerB, yellowCard: !editingPlayerB.yellowCard, redCard: editingPlayerB.yellowCard ? false : editingPlayerB.redCard })}
-                  className={`flex-1 h-12 font-semibold transition-all duration-200 ${
-                    editingPlayerB.yellowCard 
-                      ? 'bg-yellow-400 hover:bg-yellow-500 text-black border-yellow-600 shadow-lg scale-105' 
-                      : 'bg-white hover:bg-yellow-50 text-gray-700 border-yellow-300 hover:border-yellow-400'
-                  }`}
-                >
-                  <span className="flex items-center gap-2">
-                    <span className={`w-3 h-3 rounded ${editingPlayerB.yellowCard ? 'bg-yellow-600' : 'bg-yellow-200'}`}></span>
-                    옐로우 카드
-                    {editingPlayerB.yellowCard && <span className="text-xs">✓</span>}
-                  </span>
-                </Button>
-                <Button
-                  type="button"
-                  variant="outline"
-                  onClick={() => setEditingPlayerB({ ...editingPlayerB, redCard: !editingPlayerB.redCard, yellowCard: editingPlayerB.redCard ? false : editingPlayerB.yellowCard })}
-                  className={`flex-1 h-12 font-semibold transition-all duration-200 ${
-                    editingPlayerB.redCard 
-                      ? 'bg-red-500 hover:bg-red-600 text-black border-red-700 shadow-lg scale-105' 
-                      : 'bg-white hover:bg-red-50 text-black hover:text-black border-red-300 hover:border-red-400'
-                  }`}
-                >
-                  <span className="flex items-center gap-2">
-                    <span className={`w-3 h-3 rounded ${editingPlayerB.redCard ? 'bg-red-700' : 'bg-red-200'}`}></span>
-                    레드 카드
-                    {editingPlayerB.redCard && <span className="text-xs">✓</span>}
-                  </span>
-                </Button>
-              </div>
-            </div>
+            <CardEditor player={editingPlayerB} onChange={setEditingPlayerB} />
             <Button onClick={handleSavePlayerB} className="w-full">저장</Button>
           </div>
         </DialogContent>
@@ -1716,7 +2482,7 @@ export default function App() {
             <DialogTitle>팀 A 포메이션 편집</DialogTitle>
           </DialogHeader>
           <div style={{ width: '90%' }}>
-            <FormationEditor inline={true} formation={formation} onFormationChange={(f) => { updatePlayersForFormation(f); setShowFormationA(false); }} players={players} onPlayerChange={handlePlayerChange} uniformColor={uniformColor} onUniformColorChange={setUniformColor} offsetPx={0} />
+            <FormationEditor inline={true} formation={formation} onFormationChange={(f) => { updatePlayersForFormation(f); setShowFormationA(false); }} players={players} onPlayerChange={handlePlayerChange} kit={kit} onKitChange={setKit} goalkeeperColor={goalkeeperColor} onGoalkeeperColorChange={setGoalkeeperColor} bench={bench} onBenchChange={setBench} substitutions={substitutions} onSubstitute={(out, inn, minute) => substitutePlayer('A', out, inn, minute)} onUndoSubstitution={() => undoSubstitution('A')} getCurrentMinute={getCurrentMinute} offsetPx={0} />
           </div>
         </DialogContent>
       </Dialog>
@@ -1727,11 +2493,125 @@ export default function App() {
             <DialogTitle>팀 B 포메이션 편집</DialogTitle>
           </DialogHeader>
           <div style={{ width: '90%' }}>
-            <FormationEditor inline={true} formation={formationB} onFormationChange={(f) => { updatePlayersForFormationB(f); setShowFormationB(false); }} players={playersB} onPlayerChange={handlePlayerChangeB} uniformColor={uniformColorB} onUniformColorChange={setUniformColorB} offsetPx={0} />
+            <FormationEditor inline={true} formation={formationB} onFormationChange={(f) => { updatePlayersForFormationB(f); setShowFormationB(false); }} players={playersB} onPlayerChange={handlePlayerChangeB} kit={kitB} onKitChange={setKitB} goalkeeperColor={goalkeeperColorB} onGoalkeeperColorChange={setGoalkeeperColorB} bench={benchB} onBenchChange={setBenchB} substitutions={substitutionsB} onSubstitute={(out, inn, minute) => substitutePlayer('B', out, inn, minute)} onUndoSubstitution={() => undoSubstitution('B')} getCurrentMinute={getCurrentMinute} offsetPx={0} />
           </div>
         </DialogContent>
       </Dialog>
 
+      <Dialog open={showTieEditor} onOpenChange={(open: boolean) => !open && setShowTieEditor(false)}>
+        <DialogContent style={{ width: '480px', maxWidth: '95vw', zIndex: 100 }}>
+          <DialogHeader>
+            <DialogTitle>🏆 라운드 / 합계 스코어</DialogTitle>
+          </DialogHeader>
+          <TieEditor tie={tie} onChange={setTie} teamNames={{ A: teamNameA, B: teamNameB }} scoreA={scoreA} scoreB={scoreB} />
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={showTimeline} onOpenChange={(open: boolean) => !open && setShowTimeline(false)}>
+        <DialogContent className="max-h-[80vh] overflow-auto" style={{ width: '640px', maxWidth: '95vw', zIndex: 100 }}>
+          <DialogHeader>
+            <DialogTitle>📋 경기 이벤트</DialogTitle>
+          </DialogHeader>
+          <Suspense fallback={null}>
+            <EventTimeline
+              events={timeline}
+              teamNames={{ A: teamNameA, B: teamNameB }}
+              rosters={{ A: timelineRoster(players, bench, substitutions), B: timelineRoster(playersB, benchB, substitutionsB) }}
+              onAdd={addTimelineEvent}
+              onUpdate={updateTimelineEvent}
+              onDelete={deleteTimelineEvent}
+              getEventTime={getEventTime}
+            />
+          </Suspense>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={showRosters} onOpenChange={(open: boolean) => !open && setShowRosters(false)}>
+        <DialogContent className="max-h-[80vh] overflow-auto" style={{ width: '720px', maxWidth: '95vw', zIndex: 100 }}>
+          <DialogHeader>
+            <DialogTitle>👥 스쿼드 라이브러리</DialogTitle>
+          </DialogHeader>
+          <RosterManager
+            teams={{ A: teamLogoA, B: teamLogoB }}
+            library={rosterLibrary}
+            onChange={updateRosterLibrary}
+            onFill={(team) => {
+              const teamId = (team === 'A' ? teamLogoA : teamLogoB)?.id;
+              if (teamId) fillLineupFromRoster(team, teamId);
+            }}
+            onSaveLineup={saveLineupToRoster}
+            onImport={handleImportRosters}
+            onExport={handleExportRosters}
+          />
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={showLineupImport} onOpenChange={(open: boolean) => !open && setShowLineupImport(false)}>
+        <DialogContent className="max-h-[85vh] overflow-auto" style={{ width: '640px', maxWidth: '95vw', zIndex: 100 }}>
+          <DialogHeader>
+            <DialogTitle>📝 명단 입력 (텍스트 / CSV)</DialogTitle>
+          </DialogHeader>
+          <LineupImport teamNames={{ A: teamNameA, B: teamNameB }} formations={{ A: formation, B: formationB }} onApply={applyImportedLineup} />
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={rosterOffer !== null} onOpenChange={(open: boolean) => !open && setRosterOffer(null)}>
+        <DialogContent style={{ width: '420px', maxWidth: '95vw', zIndex: 100 }}>
+          <DialogHeader>
+            <DialogTitle>저장된 스쿼드</DialogTitle>
+          </DialogHeader>
+          {rosterOffer && (
+            <div className="space-y-4">
+              <div className="text-sm">
+                {rosterOffer.teamId} 스쿼드({rosterLibrary[rosterOffer.teamId]?.length ?? 0}명)로 팀 {rosterOffer.team} 라인업을 채울까요?
+              </div>
+              <div className="flex justify-end gap-2">
+                <Button variant="outline" onClick={() => setRosterOffer(null)}>그대로 두기</Button>
+                <Button onClick={() => { fillLineupFromRoster(rosterOffer.team, rosterOffer.teamId); setRosterOffer(null); }}>채우기</Button>
+              </div>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={lastSession !== null} onOpenChange={(open: boolean) => !open && answerLastSession(false)}>
+        <DialogContent style={{ width: '420px', maxWidth: '95vw', zIndex: 100 }}>
+          <DialogHeader>
+            <DialogTitle>지난 세션 복원</DialogTitle>
+          </DialogHeader>
+          {lastSession && (
+            <div className="space-y-4">
+              <div className="text-sm">
+                {lastSession.savedAt ? `${new Date(lastSession.savedAt).toLocaleString()}에 ` : ''}자동 저장된 상태가 있습니다. 복원할까요?
+              </div>
+              <div className="flex justify-end gap-2">
+                <Button variant="outline" onClick={() => answerLastSession(false)}>새로 시작</Button>
+                <Button onClick={() => answerLastSession(true)}>복원</Button>
+              </div>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={snapshotErrors !== null} onOpenChange={(open: boolean) => !open && setSnapshotErrors(null)}>
+        <DialogContent className="max-h-[80vh] overflow-auto" style={{ width: '520px', maxWidth: '95vw', zIndex: 100 }}>
+          <DialogHeader>
+            <DialogTitle>라인업 파일을 불러올 수 없습니다</DialogTitle>
+          </DialogHeader>
+          {snapshotErrors && (
+            <div className="space-y-4">
+              <ul className="text-sm list-disc pl-5 space-y-1" style={{ color: '#b91c1c' }}>
+                {snapshotErrors.slice(0, 30).map((error, i) => <li key={i}>{error}</li>)}
+              </ul>
+              {snapshotErrors.length > 30 && <div className="text-sm text-muted-foreground">외 {snapshotErrors.length - 30}개</div>}
+              <div className="flex justify-end">
+                <Button onClick={() => setSnapshotErrors(null)}>닫기</Button>
+              </div>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+
       {/* Live Matches Dialog */}
       <Dialog open={showLiveMatches} onOpenChange={(open: boolean) => !open && setShowLiveMatches(false)}>
         <DialogContent className="max-h-[80vh] overflow-auto" style={{ width: '600px', maxWidth: '95vw', zIndex: 100 }}>
@@ -1754,8 +2634,64 @@ export default function App() {
             </div>
 
             <div className="space-y-2">
-              <Label htmlFor="udp-port">UDP 전송 포트</Label>
+              <Label>데이터 소스</Label>
+              <div className="flex gap-2">
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => void applyMockApi(false, mockApiSpeed)}
+                  className={`flex-1 ${!useMockApi ? 'bg-green-600 text-white hover:bg-green-700 hover:text-white' : ''}`}
+                >
+                  API-Football
+                </Button>
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => void applyMockApi(true, mockApiSpeed)}
+                  className={`flex-1 ${useMockApi ? 'bg-green-600 text-white hover:bg-green-700 hover:text-white' : ''}`}
+                >
+                  모의 서버 (리허설)
+                </Button>
+              </div>
+              {useMockApi && (
+                <>
+                  <div className="flex gap-2">
+                    {MOCK_API_SPEEDS.map((speed) => (
+                      <Button
+                        key={speed}
+                        type="button"
+                        variant="outline"
+                        onClick={() => void applyMockApi(true, speed)}
+                        className={`flex-1 ${mockApiSpeed === speed ? 'bg-green-600 text-white hover:bg-green-700 hover:text-white' : ''}`}
+                      >
+                        {speed}배속
+                      </Button>
+                    ))}
+                  </div>
+                  <p className={`text-sm ${mockApiInfo && !mockApiInfo.running ? 'text-red-600' : 'text-gray-500'}`}>
+                    {mockApiInfo && !mockApiInfo.running
+                      ? `모의 서버 시작 실패: ${mockApiInfo.error ?? '알 수 없는 오류'}`
+                      : `${apiBaseUrl} 에서 녹화된 경기 ${mockApiInfo?.fixtures ?? ''}개를 재생합니다. 배속을 누르면 킥오프부터 다시 시작합니다.`}
+                  </p>
+                </>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="udp-port">UDP 전송 호스트 / 포트</Label>
               <div className="flex gap-2">
+                <Input
+                  id="udp-host"
+                  value={udpHostInput}
+                  onChange={(e) => setUdpHostInput(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') {
+                      e.preventDefault();
+                      void applyUdpTarget();
+                    }
+                  }}
+                  placeholder="127.0.0.1"
+                />
                 <Input
                   id="udp-port"
                   type="number"
@@ -1766,24 +2702,106 @@ export default function App() {
                   onKeyDown={(e) => {
                     if (e.key === 'Enter') {
                       e.preventDefault();
-                      void applyUdpPort();
+                      void applyUdpTarget();
                     }
                   }}
                   placeholder="9107"
                 />
-                <Button type="button" variant="outline" onClick={() => void applyUdpPort()}>
+                <Button type="button" variant="outline" onClick={() => void applyUdpTarget()}>
                   적용
                 </Button>
               </div>
               <p className="text-sm text-gray-500">
-                기본 포트는 9107이며, 적용 후부터 해당 포트로 소켓 데이터를 전송합니다.
+                기본 포트는 9107이며, 적용 후부터 해당 호스트/포트로 소켓 데이터를 전송합니다.
               </p>
+              {udpSendError && (
+                <p className="text-sm text-red-600">
+                  전송 실패 ({udpSendError.host}:{udpSendError.port}, {new Date(udpSendError.at).toLocaleTimeString()}): {udpSendError.error}
+                </p>
+              )}
+              {assetServerInfo && (
+                <p className={`text-sm ${assetServerInfo.running ? 'text-gray-500' : 'text-red-600'}`}>
+                  {assetServerInfo.running
+                    ? `로고 서버: ${assetServerInfo.url}${assetServerInfo.requestedPort && assetServerInfo.port !== assetServerInfo.requestedPort ? ` (${assetServerInfo.requestedPort} 포트 사용 중)` : ''}`
+                    : `로고 서버 시작 실패: ${assetServerInfo.error ?? '알 수 없는 오류'}`}
+                </p>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <Label>전송 방식</Label>
+              <div className="flex gap-2">
+                {BROADCAST_TRANSPORTS.map((t) => (
+                  <Button
+                    key={t.value}
+                    type="button"
+                    variant="outline"
+                    onClick={() => void applyBroadcastTransport(t.value)}
+                    className={`flex-1 ${broadcastTransport === t.value ? 'bg-green-600 text-white hover:bg-green-700 hover:text-white' : ''}`}
+                  >
+                    {t.label}
+                  </Button>
+                ))}
+              </div>
+              {broadcastTransport !== 'udp' && (
+                <>
+                  <div className="flex gap-2">
+                    <Input
+                      id="ws-port"
+                      type="number"
+                      min={1}
+                      max={65535}
+                      value={wsPortInput}
+                      onChange={(e) => setWsPortInput(e.target.value)}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') {
+                          e.preventDefault();
+                          void applyWsPort();
+                        }
+                      }}
+                      placeholder="9108"
+                    />
+                    <Button type="button" variant="outline" onClick={() => void applyWsPort()}>
+                      적용
+                    </Button>
+                  </div>
+                  {wsInfo && (
+                    <p className={`text-sm ${wsInfo.running ? 'text-gray-500' : 'text-red-600'}`}>
+                      {wsInfo.running
+                        ? `WebSocket: ${wsInfo.url} (접속 ${wsInfo.clients}개)`
+                        : `WebSocket 서버 시작 실패: ${wsInfo.error ?? '알 수 없는 오류'}`}
+                    </p>
+                  )}
+                </>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <Label>전송 모드</Label>
+              <div className="flex gap-2">
+                {BROADCAST_MODES.map((m) => (
+                  <Button
+                    key={m.value}
+                    type="button"
+                    variant="outline"
+                    onClick={() => void applyBroadcastMode(m.value)}
+                    className={`flex-1 ${broadcastMode === m.value ? 'bg-green-600 text-white hover:bg-green-700 hover:text-white' : ''}`}
+                  >
+                    {m.label}
+                  </Button>
+                ))}
+              </div>
+              {broadcastMode === 'delta' && (
+                <p className="text-sm text-gray-500">
+                  바뀐 값만 seq 번호와 함께 전송하고 5초마다 전체 키프레임을 보냅니다. 수신 측은 seq가 끊기면 {'{"type":"resync"}'}를 보내 키프레임을 다시 받을 수 있습니다.
+                </p>
+              )}
             </div>
 
             <div className="flex gap-2">
               <Button
                 onClick={loadLiveMatches}
-                disabled={isLoadingMatches || !apiKey.trim()}
+                disabled={isLoadingMatches || !apiReady}
                 className="flex-1"
                 style={{ background: '#16a34a', color: '#ffffff' }}
               >
@@ -1797,6 +2815,14 @@ export default function App() {
               </Button>
             </div>
 
+            {(apiQuota || (autoRefreshEnabled && nextRefreshMs !== null)) && (
+              <p className={`text-sm ${apiQuotaLow ? 'text-red-600' : 'text-gray-500'}`}>
+                {apiQuota && `오늘 남은 API 요청: ${apiQuota.remaining}${apiQuota.limit ? ` / ${apiQuota.limit}` : ''}`}
+                {apiQuota && autoRefreshEnabled && nextRefreshMs !== null && ' · '}
+                {autoRefreshEnabled && nextRefreshMs !== null && `자동 갱신 간격 ${Math.round(nextRefreshMs / 1000)}초`}
+              </p>
+            )}
+
             {liveMatches.length > 0 && (
         <div className="space-y-2">
           <Label>경기 선택</Label>
@@ -1828,8 +2854,8 @@ export default function App() {
 
           <div className="overflow-y-auto space-y-1 border rounded p-2" style={{ maxHeight: '380px' }}>
             {liveMatches
-              .filter((match: any) => {
-                const status = match.fixture.status.short;
+              .filter((match) => {
+                const status = match.status.short;
                 // 🔴 경기중 탭: 현재 진행 중인 상태들
                 if (activeTab === 'LIVE') {
                   return ["1H", "HT", "2H", "ET", "P", "BT"].indexOf(status) !== -1;
@@ -1847,17 +2873,17 @@ export default function App() {
                 
                 return false;
               })
-              .map((match: any) => (
+              .map((match) => (
 <button
-  key={match.fixture.id}
-  onClick={() => loadMatchLineup(match.fixture.id, match.teams.home, match.teams.away, match.goals)}
+  key={match.id}
+  onClick={() => loadMatchLineup(match)}
   className="w-full mb-3 p-4 border rounded-xl bg-white shadow-sm hover:bg-gray-50 transition-all overflow-hidden"
   style={{ display: 'block' }} // 버튼의 기본 flex 동작 방지
 >
   {/* 상단 리그 정보 */}
   <div style={{ display: 'flex', justifyContent: 'space-between', marginBottom: '12px', fontSize: '11px', fontWeight: 'bold', color: '#9ca3af' }}>
-    <span>{match.league.name}</span>
-    <span>{new Date(match.fixture.timestamp * 1000).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}</span>
+    <span>{match.league}</span>
+    <span>{new Date(match.timestamp * 1000).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}</span>
   </div>
 
   {/* 메인 3단 정렬 섹션 */}
@@ -1866,10 +2892,10 @@ export default function App() {
     {/* 1. 홈팀 (정확히 38% 차지) */}
     <div style={{ flex: '0 0 38%', display: 'flex', alignItems: 'center', justifyContent: 'flex-end', gap: '8px', minWidth: 0 }}>
       <span style={{ fontSize: '13px', fontWeight: '800', color: '#1f2937', textAlign: 'right', whiteSpace: 'nowrap', overflow: 'hidden', textOverflow: 'ellipsis' }}>
-        {match.teams.home.name}
+        {match.home.name}
       </span>
       <div style={{ display: 'flex', flexDirection: 'column', alignItems: 'center', flexShrink: 0 }}>
-        <img src={match.teams.home.logo} alt="" style={{ width: '40px', height: '40px', objectFit: 'contain' }} />
+        <img src={match.home.logo ?? undefined} alt="" style={{ width: '40px', height: '40px', objectFit: 'contain' }} />
         <span style={{ fontSize: '9px', fontWeight: '900', color: '#9ca3af', marginTop: '2px' }}>HOME</span>
       </div>
     </div>
@@ -1877,21 +2903,21 @@ export default function App() {
     {/* 2. 중앙 축 (정확히 24% 차지) */}
     <div style={{ flex: '0 0 24%', display: 'flex', flexDirection: 'column', alignItems: 'center', justifyContent: 'center' }}>
       <div style={{ fontSize: '16px', fontWeight: '900', color: '#111827', backgroundColor: '#f3f4f6', padding: '4px 10px', borderRadius: '6px', letterSpacing: '-0.05em' }}>
-        {match.fixture.status.short === 'NS' ? 'VS' : `${match.goals.home}:${match.goals.away}`}
+        {match.status.short === 'NS' ? 'VS' : `${match.goals.home}:${match.goals.away}`}
       </div>
       <div style={{ marginTop: '6px', fontSize: '9px', fontWeight: '900', color: 'white', backgroundColor: '#111827', padding: '2px 6px', borderRadius: '99px' }}>
-        {match.fixture.status.short === 'FT' ? 'FIN' : (match.fixture.status.elapsed ? `${match.fixture.status.elapsed}'` : match.fixture.status.short)}
+        {match.status.short === 'FT' ? 'FIN' : (match.status.elapsed ? `${match.status.elapsed}'` : match.status.short)}
       </div>
     </div>
 
     {/* 3. 어웨이팀 (정확히 38% 차지) */}
     <div style={{ flex: '0 0 38%', display: 'flex', alignItems: 'center', justifyContent: 'flex-start', gap: '8px', minWidth: 0 }}>
       <div style={{ display: 'flex', flexDirection: 'column', alignItems: 'center', flexShrink: 0 }}>
-        <img src={match.teams.away.logo} alt="" style={{ width: '40px', height: '40px', objectFit: 'contain' }} />
+        <img src={match.away.logo ?? undefined} alt="" style={{ width: '40px', height: '40px', objectFit: 'contain' }} />
         <span style={{ fontSize: '9px', fontWeight: '900', color: '#9ca3af', marginTop: '2px' }}>AWAY</span>
       </div>
       <span style={{ fontSize: '13px', fontWeight: '800', color: '#1f2937', textAlign: 'left', whiteSpace: 'nowrap', overflow: 'hidden', textOverflow: 'ellipsis' }}>
-        {match.teams.away.name}
+        {match.away.name}
       </span>
     </div>
 
@@ -1902,7 +2928,7 @@ export default function App() {
         </div>
       )}
 
-            {liveMatches.length === 0 && !isLoadingMatches && apiKey.trim() && (
+            {liveMatches.length === 0 && !isLoadingMatches && apiReady && (
               <div className="text-center py-8 text-gray-500 border rounded bg-gray-50">
                 <div className="text-4xl mb-2">⚽</div>
                 <div>현재 진행 중인 경기가 없습니다</div>
@@ -0,0 +1,66 @@
+
+// =================================
+// CardEditor.tsx
+// =================================
+import React, { memo } from 'react';
+import { Button } from './ui/button';
+import { Label } from './ui/label';
+import type { Player, RedCardReason } from '../types/player';
+import { addYellowCard, removeYellowCard, setRedCard } from '../lib/cards';
+
+export interface CardEditorProps {
+  player: Player;
+  onChange: (player: Player) => void;
+}
+
+const RED_OPTIONS: { reason: RedCardReason | null; label: string }[] = [
+  { reason: null, label: '없음' },
+  { reason: 'straight', label: '다이렉트 퇴장' },
+  { reason: 'second-yellow', label: '경고 누적' },
+];
+
+export const CardEditor: React.FC<CardEditorProps> = memo(function CardEditor({ player, onChange }) {
+  const yellowCards = player.yellowCards ?? 0;
+  const redReason = player.redCard ? player.redCardReason ?? 'straight' : null;
+
+  return (
+    <div className="space-y-2">
+      <Label>카드 상태</Label>
+      <div className="flex items-center gap-3">
+        <span className="flex items-center gap-2 w-28 font-semibold">
+          <span className="w-3 h-4 rounded-sm bg-yellow-400 border border-yellow-600"></span>
+          옐로우 카드
+        </span>
+        <Button type="button" variant="outline" onClick={() => onChange(removeYellowCard(player))} disabled={yellowCards === 0}>
+          -
+        </Button>
+        <span className="w-6 text-center font-bold">{yellowCards}</span>
+        <Button type="button" variant="outline" onClick={() => onChange(addYellowCard(player))} disabled={!!player.redCard}>
+          +
+        </Button>
+      </div>
+      <div className="flex items-center gap-2">
+        <span className="flex items-center gap-2 w-28 font-semibold">
+          <span className="w-3 h-4 rounded-sm bg-red-600 border border-red-800"></span>
+          레드 카드
+        </span>
+        {RED_OPTIONS.map(({ reason, label }) => (
+          <Button
+            key={label}
+            type="button"
+            variant="outline"
+            onClick={() => onChange(setRedCard(player, reason))}
+            className={`flex-1 transition-all duration-200 ${
+              redReason === reason
+                ? reason ? 'bg-red-500 hover:bg-red-600 text-black border-red-700 shadow-lg' : 'bg-gray-200 border-gray-500'
+                : 'bg-white text-gray-700'
+            }`}
+          >
+            {label}
+            {redReason === reason && <span className="text-xs ml-1">✓</span>}
+          </Button>
+        ))}
+      </div>
+    </div>
+  );
+});
@@ -6,11 +6,10 @@ import { Label } from './ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from './ui/collapsible';
 import { Palette, ChevronDown } from 'lucide-react';
+import type { Formation } from '../types/formation';
+import { formationOptions, loadFormationLibrary } from '../lib/formations';
 
-export interface Formation {
-  name: string;
-  lines: number[];
-}
+export type { Formation };
 
 export interface ControlPanelProps {
   formation: Formation;
@@ -19,15 +18,6 @@ export interface ControlPanelProps {
   onUniformColorChange: (color: string) => void;
 }
 
-const FORMATIONS: Formation[] = [
-  { name: '4-4-2', lines: [1, 4, 4, 2] },
-  { name: '4-3-3', lines: [1, 4, 3, 3] },
-  { name: '3-5-2', lines: [1, 3, 5, 2] },
-  { name: '4-2-3-1', lines: [1, 4, 2, 3, 1] },
-  { name: '3-4-3', lines: [1, 3, 4, 3] },
-  { name: '5-3-2', lines: [1, 5, 3, 2] },
-];
-
 const PRESET_COLORS = [
   { name: '빨강', value: '#dc2626' },
   { name: '파랑', value: '#2563eb' },
@@ -47,14 +37,15 @@ export const ControlPanel: React.FC<ControlPanelProps> = memo(function ControlPa
 }) {
   const [isColorOpen, setIsColorOpen] = useState(false);
 
-  const formationNames = useMemo(() => FORMATIONS.map((f) => f.name), []);
+  const options = useMemo(() => formationOptions(loadFormationLibrary(), [formation]), [formation]);
+  const formationNames = useMemo(() => options.map((f) => f.name), [options]);
 
   const handleFormation = useCallback(
     (value: string) => {
-      const f = FORMATIONS.find((x) => x.name === value);
+      const f = options.find((x) => x.name === value);
       if (f) onFormationChange(f);
     },
-    [onFormationChange]
+    [onFormationChange, options]
   );
 
   const handleColor = useCallback(
@@ -0,0 +1,188 @@
+
+// =================================
+// EventTimeline.tsx
+// =================================
+import React, { memo, useState } from 'react';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import type { TimelineEvent, TimelineEventType, TimelinePlayer } from '../types/timeline';
+import {
+  TIMELINE_DETAILS,
+  TIMELINE_DETAIL_LABELS,
+  TIMELINE_TYPE_LABELS,
+  createManualEventId,
+  formatEventMinute,
+} from '../lib/timeline';
+
+export interface EventTimelineProps {
+  events: TimelineEvent[];
+  teamNames: { A: string; B: string };
+  /** Players selectable per team (starters, bench and players already substituted off). */
+  rosters: { A: TimelinePlayer[]; B: TimelinePlayer[] };
+  onAdd: (event: TimelineEvent) => void;
+  onUpdate: (event: TimelineEvent) => void;
+  onDelete: (event: TimelineEvent) => void;
+  /** Minute used for a new entry when the minute field is left empty. */
+  getEventTime?: () => { minute: number; extra: number | null } | null;
+}
+
+const NONE = 'none';
+const playerKey = (p: TimelinePlayer | null) => (p ? `${p.number}|${p.name}` : NONE);
+
+interface Draft {
+  id: string | null;
+  type: TimelineEventType;
+  detail: TimelineEvent['detail'];
+  team: 'A' | 'B';
+  minute: string;
+  extra: string;
+  player: TimelinePlayer | null;
+  assist: TimelinePlayer | null;
+}
+
+const emptyDraft = (team: 'A' | 'B' = 'A'): Draft => ({
+  id: null, type: 'goal', detail: 'normal', team, minute: '', extra: '', player: null, assist: null,
+});
+
+const EventTimeline: React.FC<EventTimelineProps> = ({ events, teamNames, rosters, onAdd, onUpdate, onDelete, getEventTime }) => {
+  const [draft, setDraft] = useState<Draft>(emptyDraft());
+
+  const roster = rosters[draft.team];
+  // 편집 중인 선수가 현재 명단에 없어도 (API 이벤트 등) 선택지에 남긴다
+  const options = (selected: TimelinePlayer | null) =>
+    selected && !roster.some((p) => playerKey(p) === playerKey(selected)) ? [selected, ...roster] : roster;
+  const findPlayer = (key: string, selected: TimelinePlayer | null) =>
+    key === NONE ? null : options(selected).find((p) => playerKey(p) === key) ?? null;
+
+  const startEdit = (event: TimelineEvent) => {
+    setDraft({
+      id: event.id,
+      type: event.type,
+      detail: event.detail,
+      team: event.team,
+      minute: event.minute !== null ? String(event.minute) : '',
+      extra: event.extra !== null ? String(event.extra) : '',
+      player: event.player,
+      assist: event.assist,
+    });
+  };
+
+  const submit = () => {
+    const typedMinute = parseInt(draft.minute, 10);
+    const typedExtra = parseInt(draft.extra, 10);
+    const fromClock = draft.minute.trim() === '' && !draft.id ? getEventTime?.() ?? null : null;
+    const fields = {
+      type: draft.type,
+      detail: draft.detail,
+      team: draft.team,
+      minute: Number.isFinite(typedMinute) ? typedMinute : fromClock?.minute ?? null,
+      extra: Number.isFinite(typedExtra) && typedExtra > 0 ? typedExtra : fromClock?.extra ?? null,
+      player: draft.player,
+      assist: draft.type === 'card' ? null : draft.assist,
+    };
+    const existing = draft.id ? events.find((e) => e.id === draft.id) : undefined;
+    if (existing) {
+      onUpdate({ ...existing, ...fields, edited: existing.source === 'api' ? true : existing.edited });
+    } else {
+      onAdd({ id: createManualEventId(), source: 'manual', ...fields });
+    }
+    setDraft(emptyDraft(draft.team));
+  };
+
+  const playerSelect = (value: TimelinePlayer | null, onValue: (p: TimelinePlayer | null) => void, placeholder: string) => (
+    <Select value={playerKey(value)} onValueChange={(key) => onValue(findPlayer(key, value))}>
+      <SelectTrigger>
+        <SelectValue placeholder={placeholder} />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={NONE}>{placeholder}</SelectItem>
+        {options(value).map((p) => (
+          <SelectItem key={playerKey(p)} value={playerKey(p)}>
+            {p.number} {p.name}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  return (
+    <div className="space-y-4">
+      {/* Entry form */}
+      <div className="space-y-2 p-2 rounded-lg bg-muted/50">
+        <Label>{draft.id ? '이벤트 수정' : '이벤트 추가'}</Label>
+        <div className="grid grid-cols-3 gap-2">
+          <Select value={draft.team} onValueChange={(v) => setDraft({ ...draft, team: v as 'A' | 'B', player: null, assist: null })}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="A">{teamNames.A || 'Team A'}</SelectItem>
+              <SelectItem value="B">{teamNames.B || 'Team B'}</SelectItem>
+            </SelectContent>
+          </Select>
+          <Select value={draft.type} onValueChange={(v) => setDraft({ ...draft, type: v as TimelineEventType, detail: TIMELINE_DETAILS[v as TimelineEventType][0] })}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(TIMELINE_TYPE_LABELS) as TimelineEventType[]).map((type) => (
+                <SelectItem key={type} value={type}>{TIMELINE_TYPE_LABELS[type]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={draft.detail} onValueChange={(v) => setDraft({ ...draft, detail: v as TimelineEvent['detail'] })} disabled={TIMELINE_DETAILS[draft.type].length < 2}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {TIMELINE_DETAILS[draft.type].map((detail) => (
+                <SelectItem key={detail} value={detail}>{TIMELINE_DETAIL_LABELS[detail]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="grid grid-cols-2 gap-2">
+          {playerSelect(draft.player, (player) => setDraft({ ...draft, player }), draft.type === 'subst' ? 'OUT 선수' : '선수')}
+          {draft.type !== 'card' && playerSelect(draft.assist, (assist) => setDraft({ ...draft, assist }), draft.type === 'subst' ? 'IN 선수' : '도움 (없음)')}
+        </div>
+        <div className="flex items-center gap-2">
+          <Input className="w-20" type="number" min={0} value={draft.minute} onChange={(e) => setDraft({ ...draft, minute: e.target.value })} placeholder="분" />
+          <span>+</span>
+          <Input className="w-16" type="number" min={0} value={draft.extra} onChange={(e) => setDraft({ ...draft, extra: e.target.value })} placeholder="추가" />
+          <Button type="button" className="ml-auto" onClick={submit}>
+            {draft.id ? '수정' : '추가'}
+          </Button>
+          {draft.id && (
+            <Button type="button" variant="outline" onClick={() => setDraft(emptyDraft(draft.team))}>
+              취소
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {/* Timeline */}
+      <div className="space-y-1 text-sm">
+        {events.length === 0 && <div className="text-muted-foreground">기록된 이벤트가 없습니다</div>}
+        {events.map((event) => (
+          <div key={event.id} className={`flex items-center gap-2 p-1 rounded ${draft.id === event.id ? 'bg-blue-100' : ''}`}>
+            <span className="w-12 text-muted-foreground">{formatEventMinute(event)}</span>
+            <span className="w-16 truncate">{teamNames[event.team] || `Team ${event.team}`}</span>
+            <span className="w-20">{event.type === 'card' ? TIMELINE_DETAIL_LABELS[event.detail] : TIMELINE_TYPE_LABELS[event.type]}</span>
+            <span className="flex-1 truncate">
+              {event.player ? `${event.player.number} ${event.player.name}` : '-'}
+              {event.assist && (event.type === 'subst' ? ` ▶ ${event.assist.number} ${event.assist.name}` : ` (도움 ${event.assist.name})`)}
+              {event.type === 'goal' && event.detail !== 'normal' && ` [${TIMELINE_DETAIL_LABELS[event.detail]}]`}
+            </span>
+            {event.source === 'api' && <span className="text-xs text-muted-foreground">{event.edited ? 'API*' : 'API'}</span>}
+            <Button type="button" variant="outline" onClick={() => startEdit(event)}>수정</Button>
+            <Button type="button" variant="outline" onClick={() => onDelete(event)} aria-label="이벤트 삭제">✕</Button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default memo(EventTimeline);
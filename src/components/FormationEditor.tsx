@@ -1,6 +1,6 @@
 
 // FormationEditor
-import React, { memo, useCallback } from 'react';
+import React, { memo, useCallback, useMemo, useState } from 'react';
 import { Settings } from 'lucide-react';
 import { Button } from './ui/button';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from './ui/dialog';
@@ -8,45 +8,123 @@ import { Input } from './ui/input';
 import { Label } from './ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
 import type { Formation } from '../types/formation';
-
-interface Player { number: string; name: string; }
+import type { Kit } from '../types/kit';
+import type { Player, PlayerRole, Substitution } from '../types/player';
+import {
+  PRESET_FORMATIONS,
+  formationFromLineString,
+  formationOptions,
+  loadFormationLibrary,
+  saveFormationLibrary,
+  validateLineString,
+} from '../lib/formations';
+import { KitDesigner } from './KitDesigner';
+import { DETAILED_POSITIONS, PLAYER_ROLES, ROLE_LABELS, playerRole, roleForSlot } from '../lib/roles';
 
 export interface FormationEditorProps {
   formation: Formation;
   onFormationChange: (formation: Formation) => void;
   players: Player[];
   onPlayerChange: (index: number, player: Player) => void;
-  uniformColor: string;
-  onUniformColorChange: (color: string) => void;
+  kit: Kit;
+  onKitChange: (kit: Kit) => void;
+  /** Kit colour of the goalkeeper (role GK, or the first slot when roles are unset). */
+  goalkeeperColor?: string;
+  onGoalkeeperColorChange?: (color: string) => void;
+  bench?: Player[];
+  onBenchChange?: (bench: Player[]) => void;
+  substitutions?: Substitution[];
+  /** Swap starter `starterIndex` for bench player `benchIndex`; the new player keeps the pitch position. */
+  onSubstitute?: (starterIndex: number, benchIndex: number, minute: number | null) => void;
+  /** Revert the most recent substitution. */
+  onUndoSubstitution?: () => void;
+  /** Match minute used when a substitution is entered without one, null when the clock is not running. */
+  getCurrentMinute?: () => number | null;
   offsetPx?: number;
   inline?: boolean; // when true, render editor content directly (no Dialog wrapper)
 }
 
-const FORMATIONS_FE: Formation[] = [
-  { name: '4-4-2', lines: [1, 4, 4, 2] },
-  { name: '4-3-3', lines: [1, 4, 3, 3] },
-  { name: '3-5-2', lines: [1, 3, 5, 2] },
-  { name: '4-2-3-1', lines: [1, 4, 2, 3, 1] },
-  { name: '3-4-3', lines: [1, 3, 4, 3] },
-  { name: '5-3-2', lines: [1, 5, 3, 2] },
-];
+// Select 값으로 빈 문자열을 쓸 수 없어 "자동"/"없음"을 표시하는 값
+const AUTO_ROLE = 'auto';
+const NO_POSITION = 'none';
 
 export const FormationEditor: React.FC<FormationEditorProps> = memo(function FormationEditor({
   formation,
   onFormationChange,
   players,
   onPlayerChange,
-  uniformColor,
-  onUniformColorChange,
+  kit,
+  onKitChange,
+  goalkeeperColor,
+  onGoalkeeperColorChange,
+  bench = [],
+  onBenchChange,
+  substitutions = [],
+  onSubstitute,
+  onUndoSubstitution,
+  getCurrentMinute,
   offsetPx,
   inline = false,
 }) {
   const style: React.CSSProperties | undefined = offsetPx ? { left: `calc(50% + ${offsetPx}px)` } : undefined;
+  const [subOut, setSubOut] = useState('');
+  const [subIn, setSubIn] = useState('');
+  const [subMinute, setSubMinute] = useState('');
+  const [library, setLibrary] = useState<Formation[]>(loadFormationLibrary);
+  const [lineText, setLineText] = useState('');
+
+  // 프리셋 + 사용자 템플릿 + 현재 포메이션(API에서 받은 3-4-1-2 등)
+  const options = useMemo(() => formationOptions(library, [formation]), [library, formation]);
+  const lineErrors = lineText.trim() === '' ? [] : validateLineString(lineText);
+  const builtFormation = lineText.trim() !== '' && lineErrors.length === 0 ? formationFromLineString(lineText) : null;
+  const isPreset = (name: string) => PRESET_FORMATIONS.some((f) => f.name === name);
+
+  const updateLibrary = useCallback((next: Formation[]) => {
+    setLibrary(next);
+    saveFormationLibrary(next);
+  }, []);
+
+  const handleSaveTemplate = useCallback(() => {
+    if (!builtFormation || isPreset(builtFormation.name)) return;
+    updateLibrary([...library.filter((f) => f.name !== builtFormation.name), builtFormation]);
+  }, [builtFormation, library, updateLibrary]);
+
+  const handleBenchPlayerChange = useCallback((index: number, player: Player) => {
+    if (!onBenchChange) return;
+    const next = [...bench];
+    next[index] = player;
+    onBenchChange(next);
+  }, [bench, onBenchChange]);
+
+  const handleSubstitute = useCallback(() => {
+    if (!onSubstitute || subOut === '' || subIn === '') return;
+    const typed = subMinute.trim() === '' ? (getCurrentMinute?.() ?? null) : parseInt(subMinute, 10);
+    onSubstitute(Number(subOut), Number(subIn), Number.isFinite(typed) ? typed : null);
+    setSubOut('');
+    setSubIn('');
+    setSubMinute('');
+  }, [onSubstitute, subOut, subIn, subMinute, getCurrentMinute]);
+
+  // 주장은 팀에 한 명: 새로 지정하면 기존 주장은 해제
+  const handleCaptainChange = useCallback((index: number, captain: boolean) => {
+    players.forEach((p, i) => {
+      if (i === index) onPlayerChange(i, { ...p, captain: captain || undefined });
+      else if (captain && p.captain) onPlayerChange(i, { ...p, captain: undefined });
+    });
+  }, [players, onPlayerChange]);
+
+  // 역할을 바꾸면 그 역할에 없는 세부 포지션은 지운다
+  const handleRoleChange = useCallback((index: number, player: Player, value: string) => {
+    const role = value === AUTO_ROLE ? undefined : (value as PlayerRole);
+    const effective = role ?? roleForSlot(formation, index);
+    const detailedPosition = player.detailedPosition && DETAILED_POSITIONS[effective].includes(player.detailedPosition) ? player.detailedPosition : undefined;
+    onPlayerChange(index, { ...player, role, detailedPosition });
+  }, [formation, onPlayerChange]);
 
   const handleFormation = useCallback((value: string) => {
-    const found = FORMATIONS_FE.find((f) => f.name === value);
+    const found = options.find((f) => f.name === value);
     if (found) onFormationChange(found);
-  }, [onFormationChange]);
+  }, [onFormationChange, options]);
 
   const content = (
   <div className="w-full" style={Object.assign({}, style || {}, { boxSizing: 'border-box', width: '117%' }) as React.CSSProperties}>
@@ -66,7 +144,7 @@ export const FormationEditor: React.FC<FormationEditorProps> = memo(function For
                     <SelectValue />
                   </SelectTrigger>
                   <SelectContent>
-                  {FORMATIONS_FE.map((f) => (
+                  {options.map((f) => (
                     <SelectItem key={f.name} value={f.name}>
                       {f.name}
                     </SelectItem>
@@ -76,6 +154,35 @@ export const FormationEditor: React.FC<FormationEditorProps> = memo(function For
               </div>
             </div>
 
+            {/* Formation builder */}
+            <div className="space-y-2">
+              <Label htmlFor="formation-lines">포메이션 직접 입력 (골키퍼 제외)</Label>
+              <div className="flex items-center gap-2">
+                <Input id="formation-lines" className="flex-1" value={lineText} onChange={(e) => setLineText(e.target.value)} placeholder="예: 3-4-1-2, 4-1-4-1, 4-2-2-1-1" />
+                <Button type="button" onClick={() => builtFormation && onFormationChange(builtFormation)} disabled={!builtFormation}>
+                  적용
+                </Button>
+                <Button type="button" variant="outline" onClick={handleSaveTemplate} disabled={!builtFormation || isPreset(builtFormation.name)}>
+                  템플릿 저장
+                </Button>
+              </div>
+              {lineErrors.map((error) => (
+                <div key={error} className="text-sm text-red-600">{error}</div>
+              ))}
+              {library.length > 0 && (
+                <div className="flex flex-wrap gap-2">
+                  {library.map((f) => (
+                    <span key={f.name} className="flex items-center gap-1 px-2 py-1 rounded-md border text-sm">
+                      <button type="button" onClick={() => onFormationChange(f)}>{f.name}</button>
+                      <button type="button" onClick={() => updateLibrary(library.filter((x) => x.name !== f.name))} aria-label={`${f.name} 템플릿 삭제`}>
+                        ✕
+                      </button>
+                    </span>
+                  ))}
+                </div>
+              )}
+            </div>
+
             {/* Uniform Color */}
             <div className="space-y-2">
               <Label>유니폼 색상</Label>
@@ -83,12 +190,12 @@ export const FormationEditor: React.FC<FormationEditorProps> = memo(function For
                 {['#dc2626','#2563eb','#eab308','#171717','#f5f5f5','#16a34a','#ea580c','#9333ea'].map((value) => (
                   <button
                     key={value}
-                    onClick={() => onUniformColorChange(value)}
+                    onClick={() => onKitChange({ ...kit, primary: value })}
                     className="h-8 rounded-md border-2 transition-all hover:scale-105 focus:outline-none focus:ring-2 focus:ring-white/40"
                     style={{
                       backgroundColor: value,
-                      borderColor: uniformColor === value ? '#000' : 'transparent',
-                      boxShadow: uniformColor === value ? '0 0 0 2px white, 0 0 0 4px black' : 'none',
+                      borderColor: kit.primary === value ? '#000' : 'transparent',
+                      boxShadow: kit.primary === value ? '0 0 0 2px white, 0 0 0 4px black' : 'none',
                     }}
                     aria-label={`Set color ${value}`}
                   />
@@ -96,8 +203,15 @@ export const FormationEditor: React.FC<FormationEditorProps> = memo(function For
               </div>
               <div className="flex gap-2 items-center mt-2">
                 <Label htmlFor="custom-color">커스텀 색상:</Label>
-                <Input id="custom-color" type="color" value={uniformColor} onChange={(e) => onUniformColorChange(e.target.value)} className="w-16 h-8 cursor-pointer" />
+                <Input id="custom-color" type="color" value={kit.primary} onChange={(e) => onKitChange({ ...kit, primary: e.target.value })} className="w-16 h-8 cursor-pointer" />
               </div>
+              <KitDesigner kit={kit} onChange={onKitChange} />
+              {onGoalkeeperColorChange && (
+                <div className="flex gap-2 items-center">
+                  <Label htmlFor="goalkeeper-color">골키퍼 색상:</Label>
+                  <Input id="goalkeeper-color" type="color" value={goalkeeperColor ?? '#16a34a'} onChange={(e) => onGoalkeeperColorChange(e.target.value)} className="w-16 h-8 cursor-pointer" />
+                </div>
+              )}
             </div>
 
             {/* Players */}
@@ -116,11 +230,123 @@ export const FormationEditor: React.FC<FormationEditorProps> = memo(function For
                         <Label className="text-xs">이름</Label>
                         <Input id={`name-${index}`} className="w-full mt-1 border border-gray-300 rounded px-2 py-1" value={player.name} onChange={(e) => onPlayerChange(index, { ...player, name: e.target.value })} placeholder="선수명" onFocus={(e) => (e.currentTarget as HTMLInputElement).select()} />
                       </div>
+                      <div className="flex flex-col min-w-[96px]">
+                        <Label className="text-xs">역할</Label>
+                        <Select value={player.role ?? AUTO_ROLE} onValueChange={(v) => handleRoleChange(index, player, v)}>
+                          <SelectTrigger className="mt-1">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value={AUTO_ROLE}>자동 ({roleForSlot(formation, index)})</SelectItem>
+                            {PLAYER_ROLES.map((role) => (
+                              <SelectItem key={role} value={role}>{role} · {ROLE_LABELS[role]}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      <div className="flex flex-col min-w-[80px]">
+                        <Label className="text-xs">세부 포지션</Label>
+                        <Select
+                          value={player.detailedPosition ?? NO_POSITION}
+                          onValueChange={(v) => onPlayerChange(index, { ...player, detailedPosition: v === NO_POSITION ? undefined : v })}
+                        >
+                          <SelectTrigger className="mt-1">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value={NO_POSITION}>-</SelectItem>
+                            {DETAILED_POSITIONS[playerRole(player, formation, index)].map((pos) => (
+                              <SelectItem key={pos} value={pos}>{pos}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      <label className="flex flex-col items-center text-xs" title="주장 완장">
+                        주장
+                        <input type="checkbox" className="mt-2" checked={!!player.captain} onChange={(e) => handleCaptainChange(index, e.target.checked)} />
+                      </label>
                     </div>
                   </div>
                 </div>
               ))}
             </div>
+
+            {/* Bench */}
+            {onBenchChange && (
+              <div className="space-y-2">
+                <Label>벤치 (교체 명단)</Label>
+                {bench.map((player, index) => (
+                  <div key={`b-${index}`} className="flex items-center gap-2">
+                    <Input className="w-20 border border-gray-300 rounded px-2 py-1" value={player.number} onChange={(e) => handleBenchPlayerChange(index, { ...player, number: e.target.value })} placeholder="12" maxLength={3} onFocus={(e) => (e.currentTarget as HTMLInputElement).select()} />
+                    <Input className="flex-1 border border-gray-300 rounded px-2 py-1" value={player.name} onChange={(e) => handleBenchPlayerChange(index, { ...player, name: e.target.value })} placeholder="선수명" onFocus={(e) => (e.currentTarget as HTMLInputElement).select()} />
+                    <Button type="button" variant="outline" onClick={() => onBenchChange(bench.filter((_, i) => i !== index))} aria-label="벤치에서 제거">
+                      ✕
+                    </Button>
+                  </div>
+                ))}
+                <Button type="button" variant="outline" className="w-full" onClick={() => onBenchChange([...bench, { number: '', name: '' }])}>
+                  + 벤치 선수 추가
+                </Button>
+              </div>
+            )}
+
+            {/* Manual substitution */}
+            {onSubstitute && (
+              <div className="space-y-2">
+                <Label>선수 교체</Label>
+                <div className="flex items-center gap-2">
+                  <div className="flex-1 min-w-0">
+                    <Select value={subOut} onValueChange={setSubOut}>
+                      <SelectTrigger>
+                        <SelectValue placeholder="OUT (선발)" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {/* 퇴장 선수는 교체할 수 없다 */}
+                        {players.map((p, i) => (p.redCard ? null : (
+                          <SelectItem key={`out-${i}`} value={String(i)}>
+                            {p.number} {p.name}
+                          </SelectItem>
+                        )))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="flex-1 min-w-0">
+                    <Select value={subIn} onValueChange={setSubIn} disabled={bench.length === 0}>
+                      <SelectTrigger>
+                        <SelectValue placeholder="IN (벤치)" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {bench.map((p, i) => (
+                          <SelectItem key={`in-${i}`} value={String(i)}>
+                            {p.number} {p.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <Input className="w-16 border border-gray-300 rounded px-2 py-1" type="number" min={0} value={subMinute} onChange={(e) => setSubMinute(e.target.value)} placeholder={getCurrentMinute?.()?.toString() ?? '분'} />
+                  <Button type="button" onClick={handleSubstitute} disabled={subOut === '' || subIn === ''}>
+                    교체
+                  </Button>
+                </div>
+                {substitutions.length > 0 && (
+                  <div className="space-y-1 text-sm">
+                    {substitutions.map((sub, i) => (
+                      <div key={`s-${i}`} className="flex items-center gap-2">
+                        <span className="w-10 text-muted-foreground">{sub.minute !== null ? `${sub.minute}'` : '-'}</span>
+                        <span className="text-red-600">▼ {sub.playerOut.number} {sub.playerOut.name}</span>
+                        <span className="text-green-600">▲ {sub.playerIn.number} {sub.playerIn.name}</span>
+                        {i === substitutions.length - 1 && onUndoSubstitution && (
+                          <Button type="button" variant="outline" className="ml-auto" onClick={onUndoSubstitution}>
+                            되돌리기
+                          </Button>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
           </div>
         </div>
       </div>
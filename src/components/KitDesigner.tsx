@@ -0,0 +1,56 @@
+
+// =================================
+// KitDesigner.tsx
+// =================================
+import React, { memo } from 'react';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { UniformIcon } from './UniformIcon';
+import type { Kit } from '../types/kit';
+import { KIT_PATTERNS, KIT_PATTERN_LABELS } from '../lib/kits';
+
+export interface KitDesignerProps {
+  kit: Kit;
+  onChange: (kit: Kit) => void;
+}
+
+export const KitDesigner: React.FC<KitDesignerProps> = memo(function KitDesigner({ kit, onChange }) {
+  const colorInput = (key: 'primary' | 'secondary' | 'number', label: string) => (
+    <label className="flex flex-col items-center gap-1 text-xs">
+      {label}
+      <Input type="color" value={kit[key]} onChange={(e) => onChange({ ...kit, [key]: e.target.value })} className="w-12 h-8 cursor-pointer p-0.5" />
+    </label>
+  );
+
+  return (
+    <div className="space-y-2">
+      <Label>유니폼 디자인</Label>
+      <div className="flex items-center gap-3">
+        <UniformIcon kit={kit} number="10" size={64} />
+        <UniformIcon kit={kit} number="10" size={32} compact />
+        {colorInput('primary', '기본')}
+        {colorInput('secondary', '보조')}
+        {colorInput('number', '등번호')}
+      </div>
+      <div className="grid grid-cols-5 gap-1">
+        {KIT_PATTERNS.map((pattern) => (
+          <button
+            key={pattern}
+            type="button"
+            onClick={() => onChange({ ...kit, pattern })}
+            className="flex flex-col items-center rounded-md border-2 p-1 text-[10px]"
+            style={{ borderColor: kit.pattern === pattern ? '#000' : 'transparent' }}
+            title={KIT_PATTERN_LABELS[pattern]}
+          >
+            <UniformIcon kit={{ ...kit, pattern }} size={28} compact />
+            {KIT_PATTERN_LABELS[pattern]}
+          </button>
+        ))}
+      </div>
+      <label className="flex items-center gap-2 text-sm">
+        <input type="checkbox" checked={kit.contrastSleeves} onChange={(e) => onChange({ ...kit, contrastSleeves: e.target.checked })} />
+        소매를 보조 색으로
+      </label>
+    </div>
+  );
+});
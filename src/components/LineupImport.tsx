@@ -0,0 +1,98 @@
+
+// =================================
+// LineupImport.tsx
+// =================================
+import React, { memo, useMemo, useRef, useState } from 'react';
+import { Button } from './ui/button';
+import { Label } from './ui/label';
+import type { Formation } from '../types/formation';
+import type { Player } from '../types/player';
+import { parseLineupText, type LineupTextResult } from '../lib/lineup-text';
+
+export interface LineupImportProps {
+  teamNames: { A: string; B: string };
+  /** Current formations, kept when the text has no formation line. */
+  formations: { A: Formation; B: Formation };
+  onApply: (team: 'A' | 'B', result: LineupTextResult) => void;
+}
+
+const PLACEHOLDER = `Formation: 4-3-3
+1 Alisson GK
+66 Alexander-Arnold
+4 van Dijk (C)
+...
+Subs:
+62 Kelleher`;
+
+const playerLine = (p: Player) => `${p.number} ${p.name}${p.role ? ` · ${p.role}` : ''}${p.detailedPosition ? ` ${p.detailedPosition}` : ''}${p.captain ? ' (C)' : ''}`;
+
+export const LineupImport: React.FC<LineupImportProps> = memo(function LineupImport({ teamNames, formations, onApply }) {
+  const [team, setTeam] = useState<'A' | 'B'>('A');
+  const [text, setText] = useState('');
+  const fileRef = useRef<HTMLInputElement | null>(null);
+  const result = useMemo(() => (text.trim() ? parseLineupText(text, formations[team], team) : null), [text, formations, team]);
+
+  const loadFile = (file: File | undefined) => {
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = () => setText(String(reader.result));
+    reader.readAsText(file);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex gap-2">
+        {(['A', 'B'] as const).map((t) => (
+          <Button key={t} type="button" variant={team === t ? 'default' : 'outline'} className="flex-1" onClick={() => setTeam(t)}>
+            {teamNames[t] || `Team ${t}`}
+          </Button>
+        ))}
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <Label htmlFor="lineup-text">명단 텍스트 / CSV</Label>
+          <Button type="button" variant="outline" onClick={() => fileRef.current?.click()}>파일 열기</Button>
+          <input ref={fileRef} type="file" accept=".csv,.txt,text/csv,text/plain" style={{ display: 'none' }} onChange={(e) => { loadFile(e.target.files?.[0]); e.target.value = ''; }} />
+        </div>
+        <textarea
+          id="lineup-text"
+          className="w-full h-48 border border-gray-300 rounded px-2 py-1 font-mono text-sm"
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          placeholder={PLACEHOLDER}
+        />
+      </div>
+
+      {result && (
+        <div className="space-y-2 text-sm">
+          <div>
+            {result.title && <b>{result.title} · </b>}
+            포메이션: {result.formation ? result.formation.name : `${formations[team].name} (현재 유지)`}
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <div className="font-semibold">선발 ({result.players.length})</div>
+              {result.players.map((p, i) => <div key={i}>{playerLine(p)}</div>)}
+            </div>
+            <div>
+              <div className="font-semibold">벤치 ({result.bench.length})</div>
+              {result.bench.map((p, i) => <div key={i}>{playerLine(p)}</div>)}
+            </div>
+          </div>
+          {result.errors.length > 0 && (
+            <ul className="text-red-600 list-disc pl-5">
+              {result.errors.map((e, i) => <li key={i}>{e}</li>)}
+            </ul>
+          )}
+        </div>
+      )}
+
+      <div className="flex justify-end">
+        <Button type="button" onClick={() => result && onApply(team, result)} disabled={!result || result.errors.length > 0}>
+          팀 {team} 라인업에 적용
+        </Button>
+      </div>
+    </div>
+  );
+});
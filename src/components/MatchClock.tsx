@@ -0,0 +1,159 @@
+
+// =================================
+// MatchClock.tsx
+// =================================
+import React, { memo, useRef, useState, useEffect } from 'react';
+import type { MatchClockState, MatchPeriod } from '../types/clock';
+import {
+  PERIOD_LABELS,
+  adjustClock,
+  isPlayingPeriod,
+  pauseClock,
+  readClock,
+  resumeClock,
+  setAddedTime,
+  setClockTime,
+  startPeriod,
+} from '../lib/match-clock';
+
+export interface MatchClockProps {
+  clock: MatchClockState;
+  onChange: (clock: MatchClockState) => void;
+}
+
+const PERIOD_BUTTONS: MatchPeriod[] = ['1H', 'HT', '2H', 'BT', 'ET1', 'ET2', 'PEN', 'FT'];
+const ADJUST_STEPS: { label: string; seconds: number }[] = [
+  { label: '-1′', seconds: -60 },
+  { label: '-10″', seconds: -10 },
+  { label: '+10″', seconds: 10 },
+  { label: '+1′', seconds: 60 },
+];
+
+const MatchClock: React.FC<MatchClockProps> = ({ clock, onChange }) => {
+  const [open, setOpen] = useState(false);
+  const [now, setNow] = useState(() => Date.now());
+  const [timeInput, setTimeInput] = useState('');
+  const rootRef = useRef<HTMLDivElement | null>(null);
+
+  // 시계가 흐르는 동안만 화면 갱신
+  useEffect(() => {
+    if (!clock.running) return;
+    setNow(Date.now());
+    const id = window.setInterval(() => setNow(Date.now()), 500);
+    return () => window.clearInterval(id);
+  }, [clock.running]);
+
+  useEffect(() => {
+    function onDocClick(ev: MouseEvent) {
+      if (!open) return;
+      if (!rootRef.current) return;
+      if (ev.target instanceof Node && rootRef.current.contains(ev.target)) return;
+      setOpen(false);
+    }
+    document.addEventListener('mousedown', onDocClick);
+    return () => document.removeEventListener('mousedown', onDocClick);
+  }, [open]);
+
+  const reading = readClock(clock, clock.running ? now : Date.now());
+  const playing = isPlayingPeriod(clock.period);
+
+  // "67:30" 또는 "67" 형식의 경기 시간 입력
+  const applyTimeInput = () => {
+    const match = timeInput.trim().match(/^(\d{1,3})(?::(\d{1,2}))?$/);
+    if (!match) return;
+    onChange(setClockTime(clock, Number(match[1]), Number(match[2] ?? 0)));
+    setTimeInput('');
+  };
+
+  const numberInput = (value: number | null, onValue: (n: number | null) => void, title: string) => (
+    <input
+      type="number"
+      min={0}
+      value={value ?? ''}
+      title={title}
+      onChange={(e) => onValue(e.target.value === '' ? null : Math.max(0, parseInt(e.target.value, 10) || 0))}
+      className="w-14 px-1 py-1 rounded bg-slate-800 text-white"
+    />
+  );
+
+  return (
+    <div ref={rootRef} style={{ position: 'relative', display: 'inline-block' }}>
+      <div
+        role="timer"
+        tabIndex={0}
+        onKeyDown={(e) => { if (e.key === 'Enter') setOpen((s) => !s); }}
+        onClick={() => setOpen((s) => !s)}
+        title="Click to adjust"
+        className="app-no-drag"
+        style={{
+          display: 'inline-flex', alignItems: 'center', gap: 6, padding: '2px 8px', borderRadius: 6,
+          background: open ? 'rgba(255,255,255,0.12)' : 'rgba(0,0,0,0.35)',
+          color: 'white', fontWeight: 700, fontSize: 14, cursor: 'pointer', userSelect: 'none',
+          fontVariantNumeric: 'tabular-nums',
+        }}
+      >
+        <span style={{ opacity: 0.75 }}>{clock.period === 'NS' ? '--' : clock.period}</span>
+        <span>{playing ? reading.timer : reading.label}</span>
+        {playing && clock.addedTime !== null && (
+          <span style={{ background: '#16a34a', borderRadius: 4, padding: '0 4px' }}>+{clock.addedTime}</span>
+        )}
+      </div>
+
+      {open && (
+        <div style={{ position: 'absolute', left: '50%', transform: 'translateX(-50%)', marginTop: 8, background: '#0b1220', padding: 8, borderRadius: 8, display: 'flex', flexDirection: 'column', gap: 6, zIndex: 200, width: 320, color: 'white', fontSize: 12 }}>
+          <div style={{ display: 'flex', flexWrap: 'wrap', gap: 4 }}>
+            {PERIOD_BUTTONS.map((period) => (
+              <button
+                key={period}
+                onClick={() => onChange(startPeriod(clock, period))}
+                title={PERIOD_LABELS[period]}
+                className={`px-2 py-1 rounded ${clock.period === period ? 'bg-blue-600' : 'bg-slate-700'}`}
+              >
+                {period}
+              </button>
+            ))}
+          </div>
+
+          <div style={{ display: 'flex', gap: 4, alignItems: 'center' }}>
+            <button
+              onClick={() => onChange(clock.running ? pauseClock(clock) : resumeClock(clock))}
+              disabled={!playing}
+              className="px-2 py-1 bg-slate-700 rounded disabled:opacity-40"
+            >
+              {clock.running ? '⏸ 정지' : '▶ 시작'}
+            </button>
+            {ADJUST_STEPS.map((step) => (
+              <button key={step.label} onClick={() => onChange(adjustClock(clock, step.seconds))} disabled={!playing} className="px-2 py-1 bg-slate-700 rounded disabled:opacity-40">
+                {step.label}
+              </button>
+            ))}
+          </div>
+
+          <div style={{ display: 'flex', gap: 4, alignItems: 'center' }}>
+            <input
+              value={timeInput}
+              onChange={(e) => setTimeInput(e.target.value)}
+              onKeyDown={(e) => { if (e.key === 'Enter') applyTimeInput(); }}
+              placeholder={reading.timer ?? '00:00'}
+              disabled={!playing}
+              className="w-20 px-1 py-1 rounded bg-slate-800 text-white disabled:opacity-40"
+            />
+            <button onClick={applyTimeInput} disabled={!playing} className="px-2 py-1 bg-slate-700 rounded disabled:opacity-40">시간 설정</button>
+            <span style={{ marginLeft: 'auto' }}>추가시간</span>
+            {numberInput(clock.addedTime, (n) => onChange(setAddedTime(clock, n)), '추가시간 (분)')}
+          </div>
+
+          <div style={{ display: 'flex', gap: 4, alignItems: 'center' }}>
+            <span>전/후반</span>
+            {numberInput(clock.periodLength, (n) => onChange({ ...clock, periodLength: n || 1 }), '전/후반 길이 (분)')}
+            <span>연장</span>
+            {numberInput(clock.extraTimeLength, (n) => onChange({ ...clock, extraTimeLength: n || 1 }), '연장 전/후반 길이 (분)')}
+            <span style={{ marginLeft: 'auto', opacity: 0.7 }}>{PERIOD_LABELS[clock.period]}</span>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default memo(MatchClock);
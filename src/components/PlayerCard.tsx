@@ -3,38 +3,50 @@
 // =============================
 import React, { memo } from 'react';
 import { UniformIcon } from './UniformIcon';
+import type { Kit } from '../types/kit';
+import type { RedCardReason } from '../types/player';
 
 export interface PlayerCardProps {
   number: string;
   name: string;
-  color: string;
+  kit: Kit;
   onClick: () => void;
   compact?: boolean;
   size?: number; // px
   fontSizeOverride?: number;
-  yellowCard?: boolean;
+  yellowCards?: number;
   redCard?: boolean;
+  redCardReason?: RedCardReason;
   goals?: number; // 득점 수
+  /** Faded look for sent-off players. */
+  dimmed?: boolean;
+  /** Draws a "C" armband on the left sleeve. */
+  captain?: boolean;
 }
 
 export const PlayerCard: React.FC<PlayerCardProps> = memo(function PlayerCard({ 
   number, 
   name, 
-  color, 
+  kit, 
   onClick, 
   compact = false, 
   size, 
   fontSizeOverride, 
-  yellowCard = false, 
+  yellowCards = 0, 
   redCard = false,
-  goals = 0 
+  redCardReason,
+  goals = 0,
+  dimmed = false,
+  captain = false,
 }) {
   const sizeVal = size ?? (compact ? 36 : 48);
   
   // 카드 상태에 따른 배경색 결정
   const getCardBackgroundStyle = () => {
+    // 경고 누적 퇴장: 노랑/빨강 사선 분할
+    if (redCard && redCardReason === 'second-yellow') return { background: 'linear-gradient(135deg, #fbe524 0 50%, #d00202 50% 100%)', color: '#ffffff', textShadow: '0 0 2px #000' };
     if (redCard) return { backgroundColor: '#d00202', color: '#cbcbcb' }; 
-    if (yellowCard) return { backgroundColor: '#fbe524', color: '#000000' }; 
+    if (yellowCards > 0) return { backgroundColor: '#fbe524', color: '#000000' }; 
     return { backgroundColor: 'rgba(255, 255, 255, 0.9)', color: '#000000' }; 
   };
 
@@ -46,10 +58,33 @@ export const PlayerCard: React.FC<PlayerCardProps> = memo(function PlayerCard({
       onClick={onClick}
       className="flex flex-col items-center gap-1 transition-transform hover:scale-110 focus:outline-none focus:ring-2 focus:ring-white/50 rounded-lg p-1"
       type="button"
+      style={dimmed ? { opacity: 0.35, filter: 'grayscale(0.8)' } : undefined}
     >
       {/* 유니폼 아이콘 구역 */}
-      <div style={{ width: sizeVal, height: sizeVal, minWidth: sizeVal, minHeight: sizeVal }}>
-        <UniformIcon color={color} number={number} size={sizeVal} compact={compact} fontSizeOverride={fontSizeOverride} />
+      <div style={{ width: sizeVal, height: sizeVal, minWidth: sizeVal, minHeight: sizeVal, position: 'relative' }}>
+        <UniformIcon kit={kit} number={number} size={sizeVal} compact={compact} fontSizeOverride={fontSizeOverride} />
+        {/* 주장 완장: 왼쪽 소매 */}
+        {captain && (
+          <span
+            style={{
+              position: 'absolute', left: -4, top: '22%', minWidth: compact ? 12 : 15, height: compact ? 10 : 13,
+              padding: '0 2px', borderRadius: 2, background: '#facc15', border: '1px solid #00000088',
+              color: '#111', fontSize: compact ? 8 : 10, fontWeight: 900, lineHeight: compact ? '8px' : '11px', textAlign: 'center',
+            }}
+            aria-label="captain"
+          >
+            C
+          </span>
+        )}
+        {/* 카드 표시: 경고 장수만큼 노란 카드, 퇴장이면 빨간 카드 */}
+        {(yellowCards > 0 || redCard) && (
+          <div style={{ position: 'absolute', top: 0, right: -6, display: 'flex', gap: 1 }}>
+            {Array.from({ length: Math.min(yellowCards, 2) }, (_, i) => (
+              <span key={`y-${i}`} style={{ width: 7, height: 10, borderRadius: 1, background: '#fbe524', border: '1px solid #00000055' }} />
+            ))}
+            {redCard && <span style={{ width: 7, height: 10, borderRadius: 1, background: '#d00202', border: '1px solid #00000055' }} />}
+          </div>
+        )}
       </div>
 
       {/* 선수 이름 및 득점 표시 영역 */}
@@ -0,0 +1,91 @@
+
+// =================================
+// RosterManager.tsx
+// =================================
+import React, { memo, useState } from 'react';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import type { PlayerRole } from '../types/player';
+import type { RosterLibrary, RosterPlayer } from '../types/roster';
+import type { TeamEntry } from './TeamSearch';
+import { PLAYER_ROLES } from '../lib/roles';
+
+export interface RosterManagerProps {
+  teams: { A: TeamEntry | null; B: TeamEntry | null };
+  library: RosterLibrary;
+  onChange: (library: RosterLibrary) => void;
+  /** Replace the team's lineup and bench with its saved squad. */
+  onFill: (team: 'A' | 'B') => void;
+  /** Save the team's current starters and bench as its squad. */
+  onSaveLineup: (team: 'A' | 'B') => void;
+  onImport: () => void;
+  onExport: () => void;
+}
+
+const NO_ROLE = 'none';
+
+export const RosterManager: React.FC<RosterManagerProps> = memo(function RosterManager({ teams, library, onChange, onFill, onSaveLineup, onImport, onExport }) {
+  const [team, setTeam] = useState<'A' | 'B'>('A');
+  const entry = teams[team];
+  const roster = entry ? library[entry.id] ?? [] : [];
+
+  const setRoster = (next: RosterPlayer[]) => {
+    if (!entry) return;
+    onChange({ ...library, [entry.id]: next });
+  };
+  const updatePlayer = (index: number, player: RosterPlayer) => setRoster(roster.map((p, i) => (i === index ? player : p)));
+
+  return (
+    <div className="space-y-4">
+      <div className="flex gap-2">
+        {(['A', 'B'] as const).map((t) => (
+          <Button key={t} type="button" variant={team === t ? 'default' : 'outline'} className="flex-1" onClick={() => setTeam(t)}>
+            {teams[t]?.englishName || `Team ${t}`}
+          </Button>
+        ))}
+      </div>
+
+      {!entry ? (
+        <div className="text-sm text-muted-foreground">"팀 설정"에서 팀을 먼저 선택하세요. 스쿼드는 팀별로 저장됩니다.</div>
+      ) : (
+        <div className="space-y-2">
+          <Label>{entry.id} 스쿼드 ({roster.length}명)</Label>
+          {roster.map((player, index) => (
+            <div key={index} className="flex items-center gap-1">
+              <Input className="w-14" value={player.number} onChange={(e) => updatePlayer(index, { ...player, number: e.target.value })} placeholder="No." maxLength={3} />
+              <Input className="flex-1" value={player.name} onChange={(e) => updatePlayer(index, { ...player, name: e.target.value })} placeholder="이름" />
+              <Input className="w-24" value={player.shortName ?? ''} onChange={(e) => updatePlayer(index, { ...player, shortName: e.target.value || undefined })} placeholder="표시 이름" />
+              <Select value={player.role ?? NO_ROLE} onValueChange={(v) => updatePlayer(index, { ...player, role: v === NO_ROLE ? undefined : (v as PlayerRole) })}>
+                <SelectTrigger className="w-20">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_ROLE}>-</SelectItem>
+                  {PLAYER_ROLES.map((role) => <SelectItem key={role} value={role}>{role}</SelectItem>)}
+                </SelectContent>
+              </Select>
+              <Input className="w-28" value={player.photo ?? ''} onChange={(e) => updatePlayer(index, { ...player, photo: e.target.value || null })} placeholder="사진 경로" />
+              <Button type="button" variant="outline" onClick={() => setRoster(roster.filter((_, i) => i !== index))} aria-label="스쿼드에서 제거">
+                ✕
+              </Button>
+            </div>
+          ))}
+          <Button type="button" variant="outline" className="w-full" onClick={() => setRoster([...roster, { number: '', name: '' }])}>
+            + 선수 추가
+          </Button>
+          <div className="flex gap-2">
+            <Button type="button" variant="outline" className="flex-1" onClick={() => onSaveLineup(team)}>현재 라인업 저장</Button>
+            <Button type="button" className="flex-1" onClick={() => onFill(team)} disabled={roster.length === 0}>라인업에 채우기</Button>
+          </div>
+        </div>
+      )}
+
+      <div className="flex gap-2 border-t pt-3">
+        <Button type="button" variant="outline" className="flex-1" onClick={onImport}>가져오기 (JSON)</Button>
+        <Button type="button" variant="outline" className="flex-1" onClick={onExport} disabled={Object.keys(library).length === 0}>내보내기 (JSON)</Button>
+      </div>
+    </div>
+  );
+});
@@ -0,0 +1,113 @@
+
+// =================================
+// ShootoutTracker.tsx
+// =================================
+import React, { memo, useRef, useState, useEffect } from 'react';
+import type { ShootoutState } from '../types/shootout';
+import type { TimelinePlayer } from '../types/timeline';
+import { DEFAULT_SHOOTOUT, addShootoutKick, summarizeShootout, undoShootoutKick } from '../lib/shootout';
+
+export interface ShootoutTrackerProps {
+  shootout: ShootoutState;
+  onChange: (shootout: ShootoutState) => void;
+  teamNames: { A: string; B: string };
+  /** Players who can take a kick (on the pitch at the end of the match). */
+  rosters: { A: TimelinePlayer[]; B: TimelinePlayer[] };
+}
+
+const dotStyle = (result: boolean | null): React.CSSProperties => ({
+  width: 12, height: 12, borderRadius: '50%',
+  background: result === null ? 'transparent' : result ? '#16a34a' : '#dc2626',
+  border: '2px solid rgba(255,255,255,0.8)',
+});
+
+const ShootoutTracker: React.FC<ShootoutTrackerProps> = ({ shootout, onChange, teamNames, rosters }) => {
+  const [open, setOpen] = useState(false);
+  const [takerKey, setTakerKey] = useState('');
+  const rootRef = useRef<HTMLDivElement | null>(null);
+  const summary = summarizeShootout(shootout);
+
+  useEffect(() => {
+    function onDocClick(ev: MouseEvent) {
+      if (!open) return;
+      if (!rootRef.current) return;
+      if (ev.target instanceof Node && rootRef.current.contains(ev.target)) return;
+      setOpen(false);
+    }
+    document.addEventListener('mousedown', onDocClick);
+    return () => document.removeEventListener('mousedown', onDocClick);
+  }, [open]);
+
+  const record = (scored: boolean) => {
+    if (!summary.nextTeam) return;
+    const taker = rosters[summary.nextTeam].find((p) => `${p.number}|${p.name}` === takerKey) ?? null;
+    onChange(addShootoutKick(shootout, { team: summary.nextTeam, taker, scored, source: 'manual' }));
+    setTakerKey('');
+  };
+
+  const name = (team: 'A' | 'B') => teamNames[team] || `Team ${team}`;
+
+  return (
+    <div ref={rootRef} style={{ position: 'relative', display: 'inline-block' }}>
+      <div
+        role="button"
+        tabIndex={0}
+        onKeyDown={(e) => { if (e.key === 'Enter') setOpen((s) => !s); }}
+        onClick={() => setOpen((s) => !s)}
+        title="Click to record kicks"
+        className="app-no-drag"
+        style={{ display: 'grid', gridTemplateColumns: 'auto auto auto', alignItems: 'center', gap: '2px 8px', padding: '4px 10px', borderRadius: 6, background: 'rgba(0,0,0,0.55)', color: 'white', fontSize: 12, fontWeight: 700, cursor: 'pointer', userSelect: 'none' }}
+      >
+        {(['A', 'B'] as const).map((team) => (
+          <React.Fragment key={team}>
+            <span style={{ maxWidth: 90, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap', color: summary.winner === team ? '#facc15' : undefined }}>{name(team)}</span>
+            <span style={{ display: 'flex', gap: 3 }}>
+              {summary.rounds[team].map((result, i) => <span key={i} style={dotStyle(result)} />)}
+            </span>
+            <span style={{ fontVariantNumeric: 'tabular-nums' }}>{summary.score[team]}</span>
+          </React.Fragment>
+        ))}
+        {(summary.suddenDeath || summary.winner) && (
+          <span style={{ gridColumn: '1 / -1', textAlign: 'center', fontSize: 11, color: '#facc15' }}>
+            {summary.winner ? `${name(summary.winner)} 승리` : '서든데스'}
+          </span>
+        )}
+      </div>
+
+      {open && (
+        <div style={{ position: 'absolute', left: '50%', transform: 'translateX(-50%)', marginTop: 8, background: '#0b1220', padding: 8, borderRadius: 8, display: 'flex', flexDirection: 'column', gap: 6, zIndex: 200, width: 300, color: 'white', fontSize: 12 }}>
+          {summary.nextTeam ? (
+            <>
+              <div>다음 키커: <b>{name(summary.nextTeam)}</b></div>
+              <select value={takerKey} onChange={(e) => setTakerKey(e.target.value)} className="px-1 py-1 rounded bg-slate-800 text-white">
+                <option value="">키커 (선택 안 함)</option>
+                {rosters[summary.nextTeam].map((p) => (
+                  <option key={`${p.number}|${p.name}`} value={`${p.number}|${p.name}`}>{p.number} {p.name}</option>
+                ))}
+              </select>
+              <div style={{ display: 'flex', gap: 4 }}>
+                <button onClick={() => record(true)} className="flex-1 px-2 py-1 bg-green-700 rounded">⚽ 성공</button>
+                <button onClick={() => record(false)} className="flex-1 px-2 py-1 bg-red-700 rounded">✕ 실패</button>
+              </div>
+            </>
+          ) : (
+            <div>승부차기 종료: <b>{summary.winner && name(summary.winner)}</b> 승리</div>
+          )}
+          <div style={{ display: 'flex', gap: 4, alignItems: 'center' }}>
+            <button onClick={() => onChange(undoShootoutKick(shootout))} disabled={shootout.kicks.length === 0} className="px-2 py-1 bg-slate-700 rounded disabled:opacity-40">되돌리기</button>
+            <button
+              onClick={() => onChange({ ...shootout, firstTeam: shootout.firstTeam === 'A' ? 'B' : 'A' })}
+              disabled={shootout.kicks.length > 0}
+              className="px-2 py-1 bg-slate-700 rounded disabled:opacity-40"
+            >
+              선축: {name(shootout.firstTeam)}
+            </button>
+            <button onClick={() => onChange(DEFAULT_SHOOTOUT)} className="ml-auto px-2 py-1 bg-slate-700 rounded">닫기/초기화</button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default memo(ShootoutTracker);
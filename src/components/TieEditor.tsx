@@ -0,0 +1,97 @@
+
+// =================================
+// TieEditor.tsx
+// =================================
+import React, { memo } from 'react';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import type { TieInfo } from '../types/tie';
+import { LEG_LABELS, aggregateScore } from '../lib/tie';
+
+export interface TieEditorProps {
+  tie: TieInfo;
+  onChange: (tie: TieInfo) => void;
+  teamNames: { A: string; B: string };
+  scoreA: number;
+  scoreB: number;
+}
+
+const SINGLE = 'single';
+
+export const TieEditor: React.FC<TieEditorProps> = memo(function TieEditor({ tie, onChange, teamNames, scoreA, scoreB }) {
+  const aggregate = aggregateScore(tie, scoreA, scoreB);
+  const firstLeg = tie.firstLeg ?? { A: 0, B: 0 };
+  const goalsInput = (team: 'A' | 'B') => (
+    <Input
+      type="number"
+      min={0}
+      className="w-20"
+      value={tie.firstLeg ? tie.firstLeg[team] : ''}
+      placeholder="-"
+      onChange={(e) => onChange({ ...tie, firstLeg: { ...firstLeg, [team]: Math.max(0, parseInt(e.target.value, 10) || 0) } })}
+    />
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="tie-round">라운드</Label>
+        <Input id="tie-round" value={tie.roundName} onChange={(e) => onChange({ ...tie, roundName: e.target.value })} placeholder="Round of 16" />
+      </div>
+
+      <div className="space-y-2">
+        <Label>경기 방식</Label>
+        <Select
+          value={tie.leg === null ? SINGLE : String(tie.leg)}
+          onValueChange={(v) => onChange({ ...tie, leg: v === SINGLE ? null : (Number(v) as 1 | 2) })}
+        >
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={SINGLE}>단판</SelectItem>
+            <SelectItem value="1">{LEG_LABELS[1]}</SelectItem>
+            <SelectItem value="2">{LEG_LABELS[2]}</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      {tie.leg === 2 && (
+        <div className="space-y-2">
+          <Label>1차전 스코어</Label>
+          <div className="flex items-center gap-2">
+            <span className="flex-1 truncate text-right">{teamNames.A || 'Team A'}</span>
+            {goalsInput('A')}
+            <span>:</span>
+            {goalsInput('B')}
+            <span className="flex-1 truncate">{teamNames.B || 'Team B'}</span>
+          </div>
+          <div className="flex items-center gap-2 text-sm">
+            <span>2차전 홈</span>
+            <Select value={tie.secondLegHost} onValueChange={(v) => onChange({ ...tie, secondLegHost: v as 'A' | 'B' })}>
+              <SelectTrigger className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="A">{teamNames.A || 'Team A'}</SelectItem>
+                <SelectItem value="B">{teamNames.B || 'Team B'}</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <label className="flex items-center gap-2 text-sm">
+            <input type="checkbox" checked={tie.awayGoalsRule} onChange={(e) => onChange({ ...tie, awayGoalsRule: e.target.checked })} />
+            원정 다득점 원칙 적용
+          </label>
+          {aggregate && (
+            <div className="text-sm text-muted-foreground">
+              합계 {aggregate.label}
+              {aggregate.awayGoals && ` · 원정골 ${aggregate.awayGoals.A}–${aggregate.awayGoals.B}`}
+              {aggregate.leader && ` · ${teamNames[aggregate.leader] || `Team ${aggregate.leader}`} 진출${aggregate.decidedBy === 'away-goals' ? ' (원정 다득점)' : ''}`}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+});
@@ -0,0 +1,297 @@
+import type { MatchClockState } from '../types/clock';
+import type { Formation } from '../types/formation';
+import type { Kit } from '../types/kit';
+import type { Player, SentOffDisplay, Substitution } from '../types/player';
+import type { ShootoutState } from '../types/shootout';
+import type { StatEntry } from '../types/stats';
+import type { TieInfo } from '../types/tie';
+import type { TimelineEvent } from '../types/timeline';
+import type { TeamEntry } from '../components/TeamSearch';
+import {
+  BROADCAST_SCHEMA_VERSION,
+  type BroadcastBenchPlayer,
+  type BroadcastClock,
+  type BroadcastLogo,
+  type BroadcastPayload,
+  type BroadcastPlayer,
+  type BroadcastShootout,
+  type BroadcastSubstitution,
+  type BroadcastTie,
+  type BroadcastTimelineEvent,
+  type TeamSide,
+} from '../types/broadcast';
+import { readClock } from './match-clock';
+import { summarizeShootout } from './shootout';
+import { aggregateScore } from './tie';
+import { calcPlayerPositions } from './positions';
+import { playerRole } from './roles';
+
+export { BROADCAST_SCHEMA_VERSION };
+
+export const DEFAULT_ASSET_SERVER_URL = 'http://127.0.0.1:9104';
+
+// 메인 프로세스 로고 서버가 실제로 바인딩한 주소 (포트 충돌 시 9104가 아닐 수 있음)
+let assetServerUrl = DEFAULT_ASSET_SERVER_URL;
+
+export function setAssetServerUrl(url: string | null | undefined) {
+  assetServerUrl = url || DEFAULT_ASSET_SERVER_URL;
+}
+
+// 로컬 파일 경로를 HTTP URL로 변환
+export function convertLogoPathToURL(logoPath: string | null): string | null {
+  if (!logoPath) return null;
+
+  // 이미 HTTP URL이면 그대로 반환
+  if (logoPath.startsWith('http://') || logoPath.startsWith('https://')) {
+    return logoPath;
+  }
+
+  const HTTP_SERVER_URL = assetServerUrl;
+
+  // "./assets/logos/..." 형식 처리 (team-index.json 형식)
+  if (logoPath.startsWith('./assets/')) {
+    return `${HTTP_SERVER_URL}/assets/${logoPath.substring('./assets/'.length)}`;
+  }
+
+  // "assets/..." 형식 처리
+  if (logoPath.startsWith('assets/')) {
+    return `${HTTP_SERVER_URL}/${logoPath}`;
+  }
+
+  // "src/assets/..." 형식 처리
+  if (logoPath.startsWith('src/assets/')) {
+    return `${HTTP_SERVER_URL}/assets/${logoPath.substring('src/assets/'.length)}`;
+  }
+
+  // "public/assets/..." 형식 처리
+  if (logoPath.startsWith('public/assets/')) {
+    return `${HTTP_SERVER_URL}/assets/${logoPath.substring('public/assets/'.length)}`;
+  }
+
+  // 기본적으로 그대로 반환 (상대 경로 가정)
+  return `${HTTP_SERVER_URL}/${logoPath}`;
+}
+
+export interface BroadcastInput {
+  formation: Formation;
+  formationB: Formation;
+  players: Player[];
+  playersB: Player[];
+  bench: Player[];
+  benchB: Player[];
+  substitutions: Substitution[];
+  substitutionsB: Substitution[];
+  overrides: Record<number, { x: number; y: number }>;
+  overridesB: Record<number, { x: number; y: number }>;
+  verticalMode: boolean;
+  sentOffDisplay?: SentOffDisplay;
+  scoreA: number;
+  scoreB: number;
+  teamNameA: string;
+  teamNameB: string;
+  teamLogoA: TeamEntry | null;
+  teamLogoB: TeamEntry | null;
+  uniformColor: string;
+  uniformColorB: string;
+  kit?: Kit;
+  kitB?: Kit;
+  goalkeeperColor?: string;
+  goalkeeperColorB?: string;
+  /** Overrides the clock-derived "MM:SS" when given. */
+  matchTime?: string | null;
+  matchStatus?: string | null;
+  clock?: MatchClockState | null;
+  events?: TimelineEvent[];
+  shootout?: ShootoutState;
+  tie?: TieInfo;
+  statsA?: StatEntry[];
+  statsB?: StatEntry[];
+}
+
+type Point = { x: number; y: number };
+
+// 세로 모드에서는 팀 A가 위쪽 절반, 팀 B가 아래쪽 절반(상하 반전)을 사용
+function toBroadcastPoint(pos: Point, team: TeamSide, verticalMode: boolean): Point {
+  if (!verticalMode) return pos;
+  const mappedX = 50 + (pos.x - 50) * 1.15;
+  if (team === 'A') {
+    const topStart = 2;
+    const topSpan = 50;
+    return { x: mappedX, y: topStart + (pos.y / 100) * topSpan };
+  }
+  const bottomStart = 48;
+  const bottomSpan = 50;
+  const mirroredY = 100 - pos.y;
+  return { x: mappedX, y: bottomStart + (mirroredY / 100) * bottomSpan };
+}
+
+function toBroadcastPlayers(
+  team: TeamSide,
+  formation: Formation,
+  players: Player[],
+  overrides: Record<number, Point>,
+  verticalMode: boolean
+): BroadcastPlayer[] {
+  const defaults = calcPlayerPositions(formation, players);
+  const result: BroadcastPlayer[] = [];
+  players.forEach((player, index) => {
+    const defaultPos = defaults[index];
+    if (!defaultPos) return;
+    const pos = toBroadcastPoint(overrides[index] ?? defaultPos, team, verticalMode);
+    result.push({
+      id: `${team}-${index}`,
+      team,
+      number: player.number,
+      name: player.name,
+      x: Math.round(pos.x * 100) / 100, // 소수점 2자리까지
+      y: Math.round(pos.y * 100) / 100,
+      yellowCard: (player.yellowCards ?? 0) > 0,
+      redCard: player.redCard || false,
+      yellowCards: player.yellowCards ?? 0,
+      redCardReason: player.redCard ? player.redCardReason ?? 'straight' : null,
+      goals: player.goals || 0,
+      role: playerRole(player, formation, index),
+      detailedPosition: player.detailedPosition || null,
+      captain: player.captain || false,
+    });
+  });
+  return result;
+}
+
+function toBroadcastLogo(logo: TeamEntry | null): BroadcastLogo | null {
+  if (!logo) return null;
+  return {
+    id: logo.id,
+    slug: logo.slug,
+    country: logo.country,
+    englishName: logo.englishName,
+    svgUrl: convertLogoPathToURL(logo.logos?.svg ?? null),
+    pngUrl: convertLogoPathToURL(logo.logos?.png ?? null),
+  };
+}
+
+const toBenchEntry = (player: Pick<Player, 'number' | 'name'>): BroadcastBenchPlayer => ({
+  number: player.number,
+  name: player.name,
+});
+
+const toBroadcastSubstitution = (sub: Substitution): BroadcastSubstitution => ({
+  minute: sub.minute,
+  playerOut: toBenchEntry(sub.playerOut),
+  playerIn: toBenchEntry(sub.playerIn),
+});
+
+const toBroadcastEvent = (event: TimelineEvent): BroadcastTimelineEvent => ({
+  id: event.id,
+  type: event.type,
+  detail: event.detail,
+  minute: event.minute,
+  extra: event.extra,
+  team: event.team,
+  player: event.player ? toBenchEntry(event.player) : null,
+  assist: event.assist ? toBenchEntry(event.assist) : null,
+});
+
+function toBroadcastShootout(shootout: ShootoutState): BroadcastShootout {
+  const summary = summarizeShootout(shootout);
+  return {
+    active: shootout.active,
+    firstTeam: shootout.firstTeam,
+    kicks: shootout.kicks.map((kick) => ({
+      team: kick.team,
+      taker: kick.taker ? toBenchEntry(kick.taker) : null,
+      scored: kick.scored,
+    })),
+    score: summary.score,
+    rounds: summary.rounds,
+    suddenDeath: summary.suddenDeath,
+    winner: summary.winner,
+    nextTeam: summary.nextTeam,
+  };
+}
+
+function toBroadcastTie(tie: TieInfo, scoreA: number, scoreB: number): BroadcastTie {
+  const aggregate = aggregateScore(tie, scoreA, scoreB);
+  return {
+    roundName: tie.roundName,
+    leg: tie.leg,
+    firstLeg: tie.leg === 2 ? tie.firstLeg : null,
+    secondLegHost: tie.secondLegHost,
+    aggregate: aggregate ? { A: aggregate.A, B: aggregate.B } : null,
+    awayGoals: aggregate?.awayGoals ?? null,
+    leader: aggregate?.leader ?? null,
+    decidedBy: aggregate?.decidedBy ?? null,
+    label: aggregate?.label ?? null,
+  };
+}
+
+function toBroadcastClock(clock: MatchClockState, now: number): BroadcastClock {
+  const reading = readClock(clock, now);
+  return {
+    period: reading.period,
+    running: reading.running,
+    periodSeconds: reading.periodSeconds,
+    minute: reading.minute,
+    second: reading.second,
+    addedMinute: reading.addedMinute,
+    addedTime: clock.addedTime,
+    label: reading.label,
+    periodLength: clock.periodLength,
+    extraTimeLength: clock.extraTimeLength,
+  };
+}
+
+// 그래픽 엔진으로 보낼 전체 상태(좌표, 스코어, 시계, 팀 정보, 벤치, 교체, 이벤트, 통계) 객체 생성
+export function buildBroadcastPayload(input: BroadcastInput): BroadcastPayload {
+  const timestamp = Date.now();
+  const clock = input.clock ? toBroadcastClock(input.clock, timestamp) : undefined;
+  const clockTimer = input.clock ? readClock(input.clock, timestamp).timer : null;
+  return {
+    schemaVersion: BROADCAST_SCHEMA_VERSION,
+    timestamp,
+    verticalMode: input.verticalMode,
+    ...(input.sentOffDisplay ? { sentOffDisplay: input.sentOffDisplay } : {}),
+    match: {
+      scoreA: input.scoreA,
+      scoreB: input.scoreB,
+      elapsed: input.matchTime || clockTimer,
+      status: input.matchStatus || null,
+      teamA: {
+        name: input.teamNameA || 'Team A',
+        formation: input.formation.name,
+        uniformColor: input.uniformColor,
+        ...(input.kit ? { kit: input.kit } : {}),
+        ...(input.goalkeeperColor ? { goalkeeperColor: input.goalkeeperColor } : {}),
+        logo: toBroadcastLogo(input.teamLogoA),
+      },
+      teamB: {
+        name: input.teamNameB || 'Team B',
+        formation: input.formationB.name,
+        uniformColor: input.uniformColorB,
+        ...(input.kitB ? { kit: input.kitB } : {}),
+        ...(input.goalkeeperColorB ? { goalkeeperColor: input.goalkeeperColorB } : {}),
+        logo: toBroadcastLogo(input.teamLogoB),
+      },
+      ...(input.tie ? { tie: toBroadcastTie(input.tie, input.scoreA, input.scoreB) } : {}),
+    },
+    ...(clock ? { clock } : {}),
+    teams: {
+      A: toBroadcastPlayers('A', input.formation, input.players, input.overrides, input.verticalMode),
+      B: toBroadcastPlayers('B', input.formationB, input.playersB, input.overridesB, input.verticalMode),
+    },
+    bench: {
+      A: input.bench.map(toBenchEntry),
+      B: input.benchB.map(toBenchEntry),
+    },
+    substitutions: {
+      A: input.substitutions.map(toBroadcastSubstitution),
+      B: input.substitutionsB.map(toBroadcastSubstitution),
+    },
+    ...(input.events ? { events: input.events.map(toBroadcastEvent) } : {}),
+    ...(input.shootout ? { shootout: toBroadcastShootout(input.shootout) } : {}),
+    stats: {
+      A: input.statsA || [],
+      B: input.statsB || [],
+    },
+  };
+}
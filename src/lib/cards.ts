@@ -0,0 +1,50 @@
+import type { Player, RedCardReason } from '../types/player';
+
+export function isSentOff(player: Player): boolean {
+  return !!player.redCard;
+}
+
+// 두 번째 경고는 곧 경고 누적 퇴장
+export function addYellowCard(player: Player): Player {
+  if (player.redCard) return player;
+  const yellowCards = (player.yellowCards ?? 0) + 1;
+  if (yellowCards >= 2) return { ...player, yellowCards: 2, redCard: true, redCardReason: 'second-yellow' };
+  return { ...player, yellowCards };
+}
+
+export function removeYellowCard(player: Player): Player {
+  const yellowCards = Math.max(0, (player.yellowCards ?? 0) - 1);
+  if (player.redCardReason === 'second-yellow') {
+    return { ...player, yellowCards, redCard: false, redCardReason: undefined };
+  }
+  return { ...player, yellowCards };
+}
+
+/** Show (reason) or clear (null) a red card; a second-yellow red implies two yellows. */
+export function setRedCard(player: Player, reason: RedCardReason | null): Player {
+  if (reason === null) {
+    const yellowCards = player.redCardReason === 'second-yellow' ? 1 : player.yellowCards;
+    return { ...player, yellowCards, redCard: false, redCardReason: undefined };
+  }
+  if (reason === 'second-yellow') return { ...player, yellowCards: 2, redCard: true, redCardReason: reason };
+  return { ...player, redCard: true, redCardReason: reason };
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// 이전 형식(yellowCard: boolean, 사유 없는 redCard)을 현재 형식으로 변환
+export function normalizePlayerCards(raw: unknown): Player {
+  const { yellowCard, ...player } = isObject(raw) ? raw : {};
+  const yellowCards = typeof player.yellowCards === 'number' ? player.yellowCards : yellowCard ? 1 : 0;
+  const redCard = !!player.redCard;
+  const redCardReason: RedCardReason = player.redCardReason === 'second-yellow' ? 'second-yellow' : 'straight';
+  return {
+    ...player,
+    number: String(player.number ?? ''),
+    name: String(player.name ?? ''),
+    yellowCards,
+    redCard,
+    redCardReason: redCard ? redCardReason : undefined,
+  };
+}
@@ -0,0 +1,109 @@
+import type { Kit } from '../types/kit';
+
+type Rgb = [number, number, number];
+type Lab = [number, number, number];
+
+/** Kits closer than this (CIEDE2000) are hard to tell apart on the pitch. */
+export const CLASH_DISTANCE = 20;
+
+// 대체 색 후보 (보조 색이 안 맞을 때)
+const ALTERNATE_COLORS = ['#ffffff', '#171717', '#eab308', '#16a34a', '#2563eb', '#dc2626', '#9333ea', '#ea580c'];
+
+export function hexToRgb(hex: string): Rgb {
+  const value = parseInt(hex.replace('#', '').slice(0, 6), 16) || 0;
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255];
+}
+
+export function rgbToHex([r, g, b]: Rgb): string {
+  return `#${[r, g, b].map((c) => Math.round(Math.min(255, Math.max(0, c))).toString(16).padStart(2, '0')).join('')}`;
+}
+
+// sRGB -> CIE Lab (D65)
+function rgbToLab(rgb: Rgb): Lab {
+  const [r, g, b] = rgb.map((c) => {
+    const v = c / 255;
+    return v > 0.04045 ? ((v + 0.055) / 1.055) ** 2.4 : v / 12.92;
+  });
+  const xyz = [
+    (r * 0.4124 + g * 0.3576 + b * 0.1805) / 0.95047,
+    r * 0.2126 + g * 0.7152 + b * 0.0722,
+    (r * 0.0193 + g * 0.1192 + b * 0.9505) / 1.08883,
+  ].map((v) => (v > 216 / 24389 ? Math.cbrt(v) : (24389 / 27 * v + 16) / 116));
+  return [116 * xyz[1] - 16, 500 * (xyz[0] - xyz[1]), 200 * (xyz[1] - xyz[2])];
+}
+
+/** Perceptual distance between two hex colours (CIEDE2000); about 2 is barely visible, 20+ clearly different. */
+export function colorDistance(a: string, b: string): number {
+  const [L1, a1, b1] = rgbToLab(hexToRgb(a));
+  const [L2, a2, b2] = rgbToLab(hexToRgb(b));
+  const rad = Math.PI / 180;
+
+  const C1 = Math.hypot(a1, b1);
+  const C2 = Math.hypot(a2, b2);
+  const Cbar7 = ((C1 + C2) / 2) ** 7;
+  const G = 0.5 * (1 - Math.sqrt(Cbar7 / (Cbar7 + 25 ** 7)));
+  const a1p = a1 * (1 + G);
+  const a2p = a2 * (1 + G);
+  const C1p = Math.hypot(a1p, b1);
+  const C2p = Math.hypot(a2p, b2);
+  const hue = (b: number, a: number) => (b === 0 && a === 0 ? 0 : (Math.atan2(b, a) / rad + 360) % 360);
+  const h1p = hue(b1, a1p);
+  const h2p = hue(b2, a2p);
+
+  const dLp = L2 - L1;
+  const dCp = C2p - C1p;
+  let dhp = 0;
+  if (C1p * C2p !== 0) {
+    dhp = h2p - h1p;
+    if (dhp > 180) dhp -= 360;
+    else if (dhp < -180) dhp += 360;
+  }
+  const dHp = 2 * Math.sqrt(C1p * C2p) * Math.sin((dhp / 2) * rad);
+
+  const Lbarp = (L1 + L2) / 2;
+  const Cbarp = (C1p + C2p) / 2;
+  let hbarp = h1p + h2p;
+  if (C1p * C2p !== 0) {
+    if (Math.abs(h1p - h2p) > 180) hbarp += h1p + h2p < 360 ? 360 : -360;
+    hbarp /= 2;
+  }
+  const T = 1
+    - 0.17 * Math.cos((hbarp - 30) * rad)
+    + 0.24 * Math.cos(2 * hbarp * rad)
+    + 0.32 * Math.cos((3 * hbarp + 6) * rad)
+    - 0.2 * Math.cos((4 * hbarp - 63) * rad);
+  const SL = 1 + (0.015 * (Lbarp - 50) ** 2) / Math.sqrt(20 + (Lbarp - 50) ** 2);
+  const SC = 1 + 0.045 * Cbarp;
+  const SH = 1 + 0.015 * Cbarp * T;
+  const Cbarp7 = Cbarp ** 7;
+  const RT = -2 * Math.sqrt(Cbarp7 / (Cbarp7 + 25 ** 7)) * Math.sin(60 * Math.exp(-(((hbarp - 275) / 25) ** 2)) * rad);
+
+  return Math.sqrt(
+    (dLp / SL) ** 2 + (dCp / SC) ** 2 + (dHp / SH) ** 2 + RT * (dCp / SC) * (dHp / SH),
+  );
+}
+
+export interface KitClash {
+  distance: number;
+  /** Team B kit with a primary colour that no longer clashes, null when none was found. */
+  alternate: Kit | null;
+}
+
+/**
+ * Null when the two kits' primary colours are far enough apart; otherwise the
+ * distance and a proposal for team B: its secondary colour when that is clear of
+ * team A, else the most distinct of a few common kit colours.
+ */
+export function detectKitClash(kitA: Kit, kitB: Kit): KitClash | null {
+  const distance = colorDistance(kitA.primary, kitB.primary);
+  if (distance >= CLASH_DISTANCE) return null;
+
+  const candidates = [kitB.secondary, ...ALTERNATE_COLORS].filter((c) => colorDistance(c, kitA.primary) >= CLASH_DISTANCE);
+  const best = candidates.includes(kitB.secondary)
+    ? kitB.secondary
+    : candidates.sort((x, y) => colorDistance(y, kitA.primary) - colorDistance(x, kitA.primary))[0];
+  if (!best) return { distance, alternate: null };
+  // 새 기본 색과 등번호 색이 겹치면 원래 기본 색을 등번호 색으로
+  const number = colorDistance(kitB.number, best) < CLASH_DISTANCE ? kitB.primary : kitB.number;
+  return { distance, alternate: { ...kitB, primary: best, secondary: kitB.primary, number } };
+}
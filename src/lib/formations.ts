@@ -0,0 +1,97 @@
+import type { Formation } from '../types/formation';
+import type { Player } from '../types/player';
+
+/** Outfield players plus the goalkeeper. */
+export const DEFAULT_PLAYER_COUNT = 11;
+
+// 최대 6줄 (골키퍼 제외)
+export const MAX_OUTFIELD_LINES = 6;
+
+export const PRESET_FORMATIONS: Formation[] = [
+  { name: '4-4-2', lines: [1, 4, 4, 2] },
+  { name: '4-3-3', lines: [1, 4, 3, 3] },
+  { name: '3-5-2', lines: [1, 3, 5, 2] },
+  { name: '4-2-3-1', lines: [1, 4, 2, 3, 1] },
+  { name: '3-4-3', lines: [1, 3, 4, 3] },
+  { name: '5-3-2', lines: [1, 5, 3, 2] },
+];
+
+const LIBRARY_KEY = 'formation-library';
+
+/** Outfield lines of a "4-2-3-1" style string, null when it is not one. */
+export function parseLineString(text: string): number[] | null {
+  const parts = text.trim().split(/\s*[-–.\s]\s*/).filter(Boolean);
+  if (parts.length === 0 || parts.some((p) => !/^\d+$/.test(p))) return null;
+  return parts.map((p) => parseInt(p, 10));
+}
+
+// 선수 수에 맞지 않는 포메이션 문자열의 문제를 사람이 읽을 수 있는 목록으로 반환 (빈 배열이면 유효)
+export function validateLineString(text: string, playerCount: number = DEFAULT_PLAYER_COUNT): string[] {
+  const lines = parseLineString(text);
+  if (!lines) return ['숫자를 "-"로 구분해 입력하세요 (예: 4-2-3-1)'];
+  const errors: string[] = [];
+  if (lines.length > MAX_OUTFIELD_LINES) errors.push(`라인은 최대 ${MAX_OUTFIELD_LINES}줄까지 가능합니다`);
+  if (lines.some((n) => n === 0)) errors.push('0명인 라인이 있습니다');
+  const outfield = lines.reduce((sum, n) => sum + n, 0);
+  if (outfield !== playerCount - 1) {
+    errors.push(`필드 플레이어 합계가 ${playerCount - 1}명이어야 합니다 (현재 ${outfield}명)`);
+  }
+  return errors;
+}
+
+/** Formation from a line string; the goalkeeper line is added in front. */
+export function formationFromLineString(text: string): Formation | null {
+  const lines = parseLineString(text);
+  if (!lines) return null;
+  return { name: lines.join('-'), lines: [1, ...lines] };
+}
+
+export function loadFormationLibrary(): Formation[] {
+  try {
+    const saved = JSON.parse(localStorage.getItem(LIBRARY_KEY) || '[]');
+    return Array.isArray(saved) ? saved.filter((f) => typeof f?.name === 'string' && Array.isArray(f?.lines)) : [];
+  } catch {
+    return [];
+  }
+}
+
+export function saveFormationLibrary(library: Formation[]) {
+  try {
+    localStorage.setItem(LIBRARY_KEY, JSON.stringify(library));
+  } catch (error) {
+    // ignore localStorage errors
+  }
+}
+
+/**
+ * Selector entries: presets, then the user library, then `extra` formations
+ * (e.g. the one set from API lineups) that are not listed yet. Names are unique.
+ */
+export function formationOptions(library: Formation[], extra: Formation[] = []): Formation[] {
+  const seen = new Set<string>();
+  return [...PRESET_FORMATIONS, ...library, ...extra].filter((f) => {
+    if (!f.name || seen.has(f.name)) return false;
+    seen.add(f.name);
+    return true;
+  });
+}
+
+/**
+ * Starters for a new formation. Existing players keep their details (role, cards,
+ * captain...); only added slots get placeholder players. API grid slots no longer
+ * match once the line shape changes, so `grid` is cleared then.
+ */
+export function fitPlayersToFormation(players: Player[], from: Formation, to: Formation): Player[] {
+  const total = to.lines.reduce((sum, line) => sum + line, 0);
+  const sameShape = from.lines.join('-') === to.lines.join('-');
+  return Array.from({ length: total }, (_, i) => {
+    const player = players[i];
+    if (!player) return { number: String(i + 1), name: `선수 ${i + 1}` };
+    return {
+      ...player,
+      number: player.number || String(i + 1),
+      name: player.name || `선수 ${i + 1}`,
+      ...(sameShape ? {} : { grid: null }),
+    };
+  });
+}
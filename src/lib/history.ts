@@ -0,0 +1,29 @@
+/** Undo steps kept; older ones are dropped. */
+export const HISTORY_LIMIT = 50;
+
+export interface History<T> {
+  /** Earlier states, oldest first. */
+  past: T[];
+  /** Undone states, next redo last. */
+  future: T[];
+}
+
+export const EMPTY_HISTORY: History<never> = { past: [], future: [] };
+
+/** Remember `previous` before a new change; a new change clears the redo stack. */
+export function recordHistory<T>(history: History<T>, previous: T, limit: number = HISTORY_LIMIT): History<T> {
+  return { past: [...history.past, previous].slice(-limit), future: [] };
+}
+
+/** State to restore and the history after undoing, null when there is nothing to undo. */
+export function undoHistory<T>(history: History<T>, current: T): { history: History<T>; state: T } | null {
+  if (history.past.length === 0) return null;
+  const state = history.past[history.past.length - 1];
+  return { history: { past: history.past.slice(0, -1), future: [...history.future, current] }, state };
+}
+
+export function redoHistory<T>(history: History<T>, current: T): { history: History<T>; state: T } | null {
+  if (history.future.length === 0) return null;
+  const state = history.future[history.future.length - 1];
+  return { history: { past: [...history.past, current], future: history.future.slice(0, -1) }, state };
+}
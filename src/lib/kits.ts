@@ -0,0 +1,43 @@
+import type { Kit, KitPattern } from '../types/kit';
+import { colorDistance } from './colors';
+
+export const KIT_PATTERNS: KitPattern[] = ['solid', 'stripes', 'hoops', 'halves', 'sash'];
+
+export const KIT_PATTERN_LABELS: Record<KitPattern, string> = {
+  solid: '단색',
+  stripes: '세로 줄무늬',
+  hoops: '가로 줄무늬',
+  halves: '좌우 반반',
+  sash: '대각선 띠',
+};
+
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+
+/** Plain shirt in `color` with white numbers, the look before kits had patterns. */
+export function kitFromColor(color: string): Kit {
+  return { primary: color, secondary: '#ffffff', number: '#ffffff', pattern: 'solid', contrastSleeves: false };
+}
+
+/** Goalkeeper shirt: solid `color`, numbers as on the outfield kit. */
+export function goalkeeperKit(color: string, outfield: Kit): Kit {
+  return { ...kitFromColor(color), number: outfield.number };
+}
+
+/** Kit from saved data, filling missing or invalid fields from `kitFromColor(fallbackColor)`. */
+export function normalizeKit(raw: any, fallbackColor: string): Kit {
+  const base = kitFromColor(HEX_COLOR.test(raw?.primary) ? raw.primary : fallbackColor);
+  if (!raw || typeof raw !== 'object') return base;
+  return {
+    primary: base.primary,
+    secondary: HEX_COLOR.test(raw.secondary) ? raw.secondary : base.secondary,
+    number: HEX_COLOR.test(raw.number) ? raw.number : base.number,
+    pattern: KIT_PATTERNS.includes(raw.pattern) ? raw.pattern : base.pattern,
+    contrastSleeves: typeof raw.contrastSleeves === 'boolean' ? raw.contrastSleeves : base.contrastSleeves,
+  };
+}
+
+/** `kit` recoloured with suggested colours; numbers switch to white or black, whichever reads better. */
+export function recolorKit(kit: Kit, primary: string, secondary: string | null): Kit {
+  const number = colorDistance('#ffffff', primary) >= colorDistance('#000000', primary) ? '#ffffff' : '#000000';
+  return { ...kit, primary, secondary: secondary ?? kit.secondary, number };
+}
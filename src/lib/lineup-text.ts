@@ -0,0 +1,209 @@
+import type { Formation } from '../types/formation';
+import type { Player, PlayerRole } from '../types/player';
+import { formationFromLineString, parseLineString, validateLineString } from './formations';
+import { PLAYER_ROLES, roleFromApiPosition } from './roles';
+
+export interface LineupTextResult {
+  /** Team name line at the top of the sheet, if any. */
+  title: string | null;
+  /** Formation from a header line or column, null when the text has none. */
+  formation: Formation | null;
+  players: Player[];
+  bench: Player[];
+  /** Problems that block applying the lineup; empty when it is valid. */
+  errors: string[];
+}
+
+export interface LineupTextTeam {
+  /** Value of the CSV `team` column, e.g. "A" or "B". */
+  team: string;
+  formation: Formation;
+  players: Player[];
+  bench: Player[];
+}
+
+const CSV_COLUMNS = ['team', 'formation', 'number', 'name', 'role', 'position', 'captain', 'bench'] as const;
+
+// 벤치 구간 시작 줄 ("Subs:", "Bench", "교체 명단" 등)
+const BENCH_HEADER = /^(subs(titutes)?|bench|reserves|교체( 명단)?|벤치|후보)\s*:?\s*$/i;
+// 포메이션 줄 ("4-3-3", "Formation: 4-2-3-1", "포메이션 3-5-2")
+const FORMATION_HEADER = /^(?:formation|포메이션)?\s*:?\s*(\d+(?:\s*[-–.]\s*\d+)+)\s*$/i;
+const CAPTAIN_MARK = /\((c|captain)\)|\[(c|captain)\]|\*/i;
+const CAPTAIN_VALUES = ['c', 'y', 'yes', 'true', '1', 'captain', '주장', 'o'];
+
+function toRole(value: string): PlayerRole | undefined {
+  const upper = value.trim().toUpperCase();
+  return (PLAYER_ROLES as string[]).includes(upper) ? (upper as PlayerRole) : roleFromApiPosition(upper);
+}
+
+// 따옴표로 감싼 값 안의 구분자는 무시하는 간단한 CSV 분리
+function splitDelimited(line: string, delimiter: string): string[] {
+  const cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (ch === '"' && quoted && line[i + 1] === '"') {
+      cell += '"';
+      i++;
+    } else if (ch === '"') {
+      quoted = !quoted;
+    } else if (ch === delimiter && !quoted) {
+      cells.push(cell.trim());
+      cell = '';
+    } else {
+      cell += ch;
+    }
+  }
+  cells.push(cell.trim());
+  return cells;
+}
+
+function delimiterOf(line: string): string | null {
+  return ['\t', ';', ','].find((d) => line.includes(d)) ?? null;
+}
+
+// "1 Alisson", "10. Salah (C) FW" 같은 공백 구분 줄
+function parsePlainLine(line: string): Player | null {
+  const captain = CAPTAIN_MARK.test(line);
+  const text = line.replace(new RegExp(CAPTAIN_MARK.source, 'gi'), ' ').trim();
+  const match = /^#?(\d{1,3})[.):]?\s+(.+)$/.exec(text);
+  if (!match) return null;
+  const words = match[2].trim().split(/\s+/);
+  const role = words.length > 1 ? toRole(words[words.length - 1]) : undefined;
+  const name = (role ? words.slice(0, -1) : words).join(' ');
+  return { number: match[1], name, ...(role && { role }), ...(captain && { captain }) };
+}
+
+/**
+ * Parse a pasted team sheet: one player per line as "1 Alisson", "10. Salah (C) FW"
+ * or comma/tab separated "number,name,role,captain" (a CSV header row maps columns
+ * by name). A leading line without digits is taken as the team name, a formation line ("4-3-3", "Formation: 4-2-3-1") sets the formation and
+ * a "Subs" / "교체" line starts the bench; without one, players after the starting
+ * eleven go to the bench. `team` picks the rows of a two-team CSV export.
+ */
+export function parseLineupText(text: string, fallbackFormation: Formation, team?: string): LineupTextResult {
+  const errors: string[] = [];
+  const starters: Player[] = [];
+  const bench: Player[] = [];
+  let title: string | null = null;
+  let formationText: string | null = null;
+  let columns: string[] | null = null;
+  let inBench = false;
+
+  text.split(/\r?\n/).forEach((raw, i) => {
+    const line = raw.trim();
+    const lineNo = i + 1;
+    if (!line || line.startsWith('//')) return;
+
+    const formationMatch = FORMATION_HEADER.exec(line);
+    if (formationMatch) {
+      formationText = formationMatch[1];
+      return;
+    }
+    if (BENCH_HEADER.test(line)) {
+      inBench = true;
+      return;
+    }
+
+    const delimiter = delimiterOf(line);
+    let player: Player | null = null;
+    let toBench = inBench;
+
+    if (delimiter) {
+      const cells = splitDelimited(line, delimiter);
+      const lower = cells.map((c) => c.toLowerCase());
+      if (!columns && (lower.includes('number') || lower.includes('name') || lower.includes('번호') || lower.includes('이름'))) {
+        columns = lower.map((c) => (c === '번호' || c === 'no' || c === '#' ? 'number' : c === '이름' ? 'name' : c));
+        return;
+      }
+      const get = (column: string, fallbackIndex: number) => {
+        const index = columns ? columns.indexOf(column) : fallbackIndex;
+        return index >= 0 ? cells[index] ?? '' : '';
+      };
+      if (team && columns?.includes('team') && get('team', -1).toLowerCase() !== team.toLowerCase()) return;
+      if (get('formation', -1) && !formationText) formationText = get('formation', -1);
+
+      const number = get('number', 0).replace(/^#/, '');
+      const name = get('name', 1);
+      if (!/^\d{1,3}$/.test(number)) {
+        errors.push(`${lineNo}번째 줄: 등번호가 숫자가 아닙니다 ("${number}")`);
+        return;
+      }
+      const roleText = get('role', 2);
+      const role = roleText ? toRole(roleText) : undefined;
+      if (roleText && !role) errors.push(`${lineNo}번째 줄: 알 수 없는 역할 "${roleText}" (GK/DF/MF/FW)`);
+      const detailedPosition = get('position', -1).toUpperCase();
+      const captain = CAPTAIN_VALUES.includes(get('captain', 3).toLowerCase());
+      if (CAPTAIN_VALUES.includes(get('bench', -1).toLowerCase())) toBench = true;
+      player = {
+        number,
+        name,
+        ...(role && { role }),
+        ...(detailedPosition && { detailedPosition }),
+        ...(captain && { captain }),
+      };
+    } else {
+      player = parsePlainLine(line);
+      // 선수 줄보다 앞에 있는 숫자 없는 줄은 팀 이름으로 본다
+      if (!player && title === null && starters.length === 0 && bench.length === 0 && !/\d/.test(line)) {
+        title = line;
+        return;
+      }
+      if (!player) {
+        errors.push(`${lineNo}번째 줄을 읽을 수 없습니다: "${line}"`);
+        return;
+      }
+    }
+
+    if (!player.name) errors.push(`${lineNo}번째 줄: 이름이 없습니다`);
+    (toBench ? bench : starters).push(player);
+  });
+
+  const formationErrors = formationText ? validateLineString(formationText) : [];
+  formationErrors.forEach((e) => errors.push(`포메이션 ${formationText}: ${e}`));
+  const formation = formationText && formationErrors.length === 0 ? formationFromLineString(formationText) : null;
+
+  // 벤치 구간이 없으면 포메이션 인원 이후는 벤치로
+  const total = (formation ?? fallbackFormation).lines.reduce((sum, n) => sum + n, 0);
+  const explicitBench = bench.length > 0 || inBench;
+  const players = explicitBench ? starters : starters.slice(0, total);
+  const restBench = explicitBench ? bench : [...starters.slice(total), ...bench];
+
+  if (players.length === 0 && restBench.length === 0) errors.push('선수가 없습니다');
+  else if (players.length !== total) errors.push(`선발은 ${total}명이어야 합니다 (현재 ${players.length}명)`);
+
+  const numbers = new Map<string, number>();
+  [...players, ...restBench].forEach((p) => numbers.set(p.number, (numbers.get(p.number) ?? 0) + 1));
+  numbers.forEach((count, number) => {
+    if (count > 1) errors.push(`등번호 ${number}번이 ${count}명입니다`);
+  });
+  if ([...players, ...restBench].filter((p) => p.captain).length > 1) errors.push('주장이 두 명 이상입니다');
+
+  return { title, formation, players, bench: restBench, errors };
+}
+
+function csvCell(value: string): string {
+  return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/** CSV of both lineups, one row per player; `parseLineupText` reads it back per team. */
+export function lineupsToCSV(teams: LineupTextTeam[]): string {
+  const rows = [CSV_COLUMNS.join(',')];
+  teams.forEach(({ team, formation, players, bench }) => {
+    const formationName = parseLineString(formation.name) ? formation.name : formation.lines.slice(1).join('-');
+    const row = (p: Player, onBench: boolean) => [
+      team,
+      formationName,
+      p.number,
+      p.name,
+      p.role ?? '',
+      p.detailedPosition ?? '',
+      p.captain ? 'C' : '',
+      onBench ? 'Y' : '',
+    ].map(csvCell).join(',');
+    players.forEach((p) => rows.push(row(p, false)));
+    bench.forEach((p) => rows.push(row(p, true)));
+  });
+  return rows.join('\n') + '\n';
+}
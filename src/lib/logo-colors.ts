@@ -0,0 +1,75 @@
+import { CLASH_DISTANCE, colorDistance, rgbToHex } from './colors';
+import { convertLogoPathToURL } from './broadcast';
+
+const SAMPLE_SIZE = 64;
+// 거의 투명한 픽셀(배경)은 제외
+const MIN_ALPHA = 200;
+
+export interface LogoColors {
+  primary: string;
+  /** Most common colour clearly different from `primary`, null for one-colour logos. */
+  secondary: string | null;
+}
+
+async function loadImage(src: string): Promise<HTMLImageElement> {
+  // blob URL로 그려야 캔버스가 오염(tainted)되지 않는다
+  const response = await fetch(src);
+  if (!response.ok) throw new Error(`HTTP ${response.status}`);
+  const url = URL.createObjectURL(await response.blob());
+  try {
+    const img = new Image();
+    img.src = url;
+    await img.decode();
+    return img;
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+/** Colour buckets of an image by pixel count, most common first. */
+function dominantColors(img: HTMLImageElement): string[] {
+  const canvas = document.createElement('canvas');
+  canvas.width = SAMPLE_SIZE;
+  canvas.height = SAMPLE_SIZE;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return [];
+  ctx.drawImage(img, 0, 0, SAMPLE_SIZE, SAMPLE_SIZE);
+  const { data } = ctx.getImageData(0, 0, SAMPLE_SIZE, SAMPLE_SIZE);
+
+  // 채널당 16단계로 묶고 버킷별 평균 색을 사용
+  const buckets = new Map<number, { count: number; r: number; g: number; b: number }>();
+  for (let i = 0; i < data.length; i += 4) {
+    if (data[i + 3] < MIN_ALPHA) continue;
+    const key = ((data[i] >> 4) << 8) | ((data[i + 1] >> 4) << 4) | (data[i + 2] >> 4);
+    const bucket = buckets.get(key) ?? { count: 0, r: 0, g: 0, b: 0 };
+    bucket.count++;
+    bucket.r += data[i];
+    bucket.g += data[i + 1];
+    bucket.b += data[i + 2];
+    buckets.set(key, bucket);
+  }
+  return [...buckets.values()]
+    .sort((a, b) => b.count - a.count)
+    .map((b) => rgbToHex([b.r / b.count, b.g / b.count, b.b / b.count]));
+}
+
+/**
+ * Suggested kit colours from a team logo (PNG preferred, SVG otherwise), served
+ * through the local asset server. Null when the logo cannot be loaded.
+ */
+export async function extractLogoColors(logos: { png: string | null; svg: string | null } | null | undefined): Promise<LogoColors | null> {
+  const path = logos?.png ?? logos?.svg ?? null;
+  if (!path) return null;
+  for (const src of [convertLogoPathToURL(path), path]) {
+    if (!src) continue;
+    try {
+      const colors = dominantColors(await loadImage(src));
+      if (colors.length === 0) return null;
+      const secondary = colors.find((c) => colorDistance(c, colors[0]) >= CLASH_DISTANCE) ?? null;
+      return { primary: colors[0], secondary };
+    } catch {
+      // 다음 경로로 재시도
+    }
+  }
+  return null;
+}
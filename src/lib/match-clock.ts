@@ -0,0 +1,200 @@
+import type { MatchClockState, MatchPeriod } from '../types/clock';
+
+export const DEFAULT_MATCH_CLOCK: MatchClockState = {
+  period: 'NS',
+  running: false,
+  baseSeconds: 0,
+  startedAt: null,
+  periodLength: 45,
+  extraTimeLength: 15,
+  addedTime: null,
+};
+
+// 시계가 흐르는 구간
+export const PLAYING_PERIODS: MatchPeriod[] = ['1H', '2H', 'ET1', 'ET2'];
+
+export const PERIOD_LABELS: Record<MatchPeriod, string> = {
+  NS: '경기 전',
+  '1H': '전반',
+  HT: '하프타임',
+  '2H': '후반',
+  BT: '연장 전 휴식',
+  ET1: '연장 전반',
+  ET2: '연장 후반',
+  PEN: '승부차기',
+  FT: '경기 종료',
+};
+
+export function isPlayingPeriod(period: MatchPeriod): boolean {
+  return PLAYING_PERIODS.includes(period);
+}
+
+/** Seconds played in the current period at `now`. */
+export function periodSeconds(clock: MatchClockState, now: number = Date.now()): number {
+  if (!clock.running || clock.startedAt === null) return clock.baseSeconds;
+  return clock.baseSeconds + Math.max(0, (now - clock.startedAt) / 1000);
+}
+
+// 각 구간이 시작하는 경기 분 (전반 0, 후반 45, 연장 전반 90, 연장 후반 105)
+function periodStartMinute(clock: MatchClockState, period: MatchPeriod): number {
+  const regular = clock.periodLength;
+  const extra = clock.extraTimeLength;
+  switch (period) {
+    case 'NS':
+    case '1H':
+      return 0;
+    case 'HT':
+    case '2H':
+      return regular;
+    case 'BT':
+    case 'ET1':
+      return regular * 2;
+    case 'ET2':
+      return regular * 2 + extra;
+    default:
+      return regular * 2 + extra * 2;
+  }
+}
+
+function periodLengthMinutes(clock: MatchClockState, period: MatchPeriod): number {
+  if (period === 'ET1' || period === 'ET2') return clock.extraTimeLength;
+  return clock.periodLength;
+}
+
+export interface ClockReading {
+  period: MatchPeriod;
+  running: boolean;
+  periodSeconds: number;
+  /** Whole minutes on the match clock, counting earlier periods (47 during 45+2). */
+  minute: number;
+  second: number;
+  /** Minute of added time (the 2 in 45+2), null within regulation. */
+  addedMinute: number | null;
+  /** "MM:SS" running timer, null before kick-off. */
+  timer: string | null;
+  /** Broadcast-style label: "23'", "45+2'", "HT", "FT". */
+  label: string;
+}
+
+const pad = (n: number) => n.toString().padStart(2, '0');
+
+export function readClock(clock: MatchClockState, now: number = Date.now()): ClockReading {
+  const secs = Math.floor(periodSeconds(clock, now));
+  const startMinute = periodStartMinute(clock, clock.period);
+  const total = startMinute * 60 + secs;
+  const minute = Math.floor(total / 60);
+  const second = total % 60;
+
+  let addedMinute: number | null = null;
+  let label: string = clock.period;
+  if (isPlayingPeriod(clock.period)) {
+    const lengthSecs = periodLengthMinutes(clock, clock.period) * 60;
+    if (secs >= lengthSecs) {
+      addedMinute = Math.floor((secs - lengthSecs) / 60) + 1;
+      label = `${startMinute + periodLengthMinutes(clock, clock.period)}+${addedMinute}'`;
+    } else {
+      label = `${minute + 1}'`;
+    }
+  }
+
+  return {
+    period: clock.period,
+    running: clock.running,
+    periodSeconds: secs,
+    minute,
+    second,
+    addedMinute,
+    timer: clock.period === 'NS' ? null : `${pad(minute)}:${pad(second)}`,
+    label,
+  };
+}
+
+// 구간 시작: 진행 구간이면 0초부터 바로 흐르고, 휴식/종료 구간은 멈춘 상태
+export function startPeriod(clock: MatchClockState, period: MatchPeriod, now: number = Date.now()): MatchClockState {
+  const running = isPlayingPeriod(period);
+  return { ...clock, period, running, baseSeconds: 0, startedAt: running ? now : null, addedTime: null };
+}
+
+export function pauseClock(clock: MatchClockState, now: number = Date.now()): MatchClockState {
+  if (!clock.running) return clock;
+  return { ...clock, running: false, baseSeconds: periodSeconds(clock, now), startedAt: null };
+}
+
+export function resumeClock(clock: MatchClockState, now: number = Date.now()): MatchClockState {
+  if (clock.running || !isPlayingPeriod(clock.period)) return clock;
+  return { ...clock, running: true, startedAt: now };
+}
+
+/** Shift the clock by `deltaSeconds` (negative to go back), never before the period start. */
+export function adjustClock(clock: MatchClockState, deltaSeconds: number, now: number = Date.now()): MatchClockState {
+  const next = Math.max(0, periodSeconds(clock, now) + deltaSeconds);
+  return { ...clock, baseSeconds: next, startedAt: clock.running ? now : null };
+}
+
+/** Set the match clock to an absolute match minute/second within the current period. */
+export function setClockTime(clock: MatchClockState, minute: number, second: number = 0, now: number = Date.now()): MatchClockState {
+  const next = Math.max(0, minute * 60 + second - periodStartMinute(clock, clock.period) * 60);
+  return { ...clock, baseSeconds: next, startedAt: clock.running ? now : null };
+}
+
+export function setAddedTime(clock: MatchClockState, minutes: number | null): MatchClockState {
+  return { ...clock, addedTime: minutes !== null && minutes > 0 ? minutes : null };
+}
+
+// API 상태 코드 -> 시계 구간 (ET는 경과 분으로 전/후반 구분)
+function periodFromApi(clock: MatchClockState, status: string, elapsed: number | null): MatchPeriod | null {
+  switch (status) {
+    case 'NS':
+    case 'TBD':
+      return 'NS';
+    case '1H':
+    case 'HT':
+    case '2H':
+    case 'BT':
+    case 'FT':
+      return status;
+    case 'ET':
+      return elapsed !== null && elapsed > clock.periodLength * 2 + clock.extraTimeLength ? 'ET2' : 'ET1';
+    case 'P':
+      return 'PEN';
+    case 'AET':
+    case 'PEN':
+      return 'FT';
+    default:
+      return null;
+  }
+}
+
+// API 경과 분과 이만큼 넘게 어긋날 때만 맞춘다 (API는 분 단위라 매번 맞추면 시계가 튄다)
+const API_SYNC_TOLERANCE_SECONDS = 90;
+
+/**
+ * Follow the API's status and elapsed minute. The local clock keeps running
+ * between polls and is only corrected on a period change or noticeable drift.
+ */
+export function syncClockToApi(
+  clock: MatchClockState,
+  status: string,
+  elapsed: number | null,
+  extra: number | null = null,
+  now: number = Date.now(),
+): MatchClockState {
+  const period = periodFromApi(clock, status, elapsed);
+  if (!period) return clock;
+
+  const base = period === clock.period ? clock : startPeriod(clock, period, now);
+  if (!isPlayingPeriod(period) || elapsed === null) return base;
+
+  // API elapsed는 "진행 중인 분" (23 = 22:00~22:59)
+  const apiMinute = elapsed + (extra ?? 0);
+  const apiSeconds = Math.max(0, (apiMinute - 1 - periodStartMinute(clock, period)) * 60);
+  const localSeconds = periodSeconds(base, now);
+  // 추가시간 중 extra 없이 elapsed가 45/90에 머무는 피드는 앞서 가는 시계를 되돌리지 않는다
+  const periodEnd = periodStartMinute(clock, period) + periodLengthMinutes(clock, period);
+  if (base === clock && extra === null && elapsed >= periodEnd && localSeconds >= apiSeconds) return base;
+  const drift = Math.abs(localSeconds - apiSeconds);
+  if (base !== clock || drift > API_SYNC_TOLERANCE_SECONDS) {
+    return { ...base, running: true, baseSeconds: apiSeconds, startedAt: now };
+  }
+  return base;
+}
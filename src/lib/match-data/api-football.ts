@@ -0,0 +1,278 @@
+import type { StatEntry } from '../../types/stats';
+import type {
+  EventPlayer,
+  FeedTeam,
+  FixtureSummary,
+  LineupEntry,
+  MatchDataProvider,
+  MatchEvent,
+  MatchEventType,
+  TeamLineup,
+} from '../../types/match-data';
+
+export const API_FOOTBALL_BASE_URL = 'https://v3.football.api-sports.io';
+
+// 엔드포인트별 캐시 유지 시간. 자동 갱신 주기보다 짧게 잡아 같은 주기 안의 중복 요청만 막고,
+// 잘 바뀌지 않는 통계/라인업은 더 오래 재사용해 일일 할당량을 아낀다.
+export const CACHE_TTL_MS = {
+  fixtureList: 60_000,
+  fixture: 4_000,
+  statistics: 30_000,
+  // 발표 전에는 자주 확인하고, 발표된 라인업은 거의 바뀌지 않음
+  lineupsPending: 60_000,
+  lineups: 10 * 60_000,
+} as const;
+
+export interface ApiQuota {
+  /** Daily request allowance of the plan. */
+  limit: number | null;
+  /** Requests left today (x-ratelimit-requests-remaining). */
+  remaining: number | null;
+  updatedAt: number;
+}
+
+// HTTP 429 또는 API-Football의 rateLimit/requests 오류
+export class ApiFootballError extends Error {
+  status: number | null;
+  rateLimited: boolean;
+  /** Wait suggested by a Retry-After header, null when not given. */
+  retryAfterMs: number | null;
+
+  constructor(message: string, { status = null, rateLimited = false, retryAfterMs = null }: Partial<Pick<ApiFootballError, 'status' | 'rateLimited' | 'retryAfterMs'>> = {}) {
+    super(message);
+    this.name = 'ApiFootballError';
+    this.status = status;
+    this.rateLimited = rateLimited;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+// 방송 그래픽에 표시하는 통계 항목 (순서 유지)
+export const STAT_KEYS = [
+  'Total Shots',
+  'Shots on Goal',
+  'Corner Kicks',
+  'Fouls',
+  'Offsides',
+  'Yellow Cards',
+  'Red Cards',
+  'Ball Possession',
+] as const;
+
+export function parseTeamStats(statsResponse: any[], teamIndex: number): StatEntry[] {
+  if (!statsResponse || statsResponse.length <= teamIndex) return [];
+  const stats: any[] = statsResponse[teamIndex]?.statistics || [];
+  return STAT_KEYS.map((key) => {
+    const stat = stats.find((s: any) => s.type === key);
+    const raw = stat?.value ?? null;
+    return { type: key, value: raw !== null ? String(raw) : '0' };
+  });
+}
+
+function idOf(value: unknown): string | null {
+  return value === null || value === undefined || value === '' ? null : String(value);
+}
+
+export function toFeedTeam(raw: any): FeedTeam {
+  return {
+    id: String(raw?.id ?? ''),
+    name: raw?.name || '',
+    logo: raw?.logo || null,
+    country: raw?.country || null,
+  };
+}
+
+export function toFixtureSummary(raw: any): FixtureSummary {
+  return {
+    id: String(raw.fixture.id),
+    timestamp: Number(raw.fixture.timestamp) || 0,
+    league: raw.league?.name || '',
+    round: raw.league?.round || null,
+    status: {
+      short: raw.fixture.status?.short || 'NS',
+      elapsed: raw.fixture.status?.elapsed ?? null,
+      extra: raw.fixture.status?.extra ?? null,
+    },
+    home: toFeedTeam(raw.teams?.home),
+    away: toFeedTeam(raw.teams?.away),
+    goals: { home: raw.goals?.home ?? null, away: raw.goals?.away ?? null },
+  };
+}
+
+function toLineupEntry(raw: any, captainIds: Set<string>): LineupEntry {
+  const p = raw?.player || {};
+  const id = idOf(p.id);
+  return {
+    id,
+    number: p.number?.toString() || '',
+    name: p.name || '',
+    position: p.pos || null,
+    grid: p.grid || null,
+    captain: id !== null && captainIds.has(id),
+  };
+}
+
+// 피드 색상은 "ef0107"처럼 # 없이 온다
+function toHexColor(value: unknown): string | null {
+  return typeof value === 'string' && /^#?[0-9a-f]{6}$/i.test(value) ? `#${value.replace('#', '').toLowerCase()}` : null;
+}
+
+/** Player ids marked `games.captain` in a fixture's player statistics. */
+export function captainIdsOf(fixture: any): Set<string> {
+  const ids = new Set<string>();
+  (fixture?.players || []).forEach((team: any) => {
+    (team?.players || []).forEach((entry: any) => {
+      const id = idOf(entry?.player?.id);
+      if (id !== null && entry?.statistics?.[0]?.games?.captain) ids.add(id);
+    });
+  });
+  return ids;
+}
+
+export function toTeamLineup(raw: any, captainIds: Set<string> = new Set()): TeamLineup {
+  return {
+    team: toFeedTeam(raw.team),
+    formation: raw.formation || '4-3-3',
+    colors: {
+      player: toHexColor(raw.team?.colors?.player?.primary),
+      goalkeeper: toHexColor(raw.team?.colors?.goalkeeper?.primary),
+    },
+    startXI: (raw.startXI || []).map((p: any) => toLineupEntry(p, captainIds)),
+    substitutes: (raw.substitutes || []).map((p: any) => toLineupEntry(p, captainIds)),
+  };
+}
+
+const EVENT_TYPES: Record<string, MatchEventType> = { goal: 'goal', card: 'card', subst: 'subst', var: 'var' };
+
+function toEventPlayer(raw: any): EventPlayer | null {
+  if (!raw || (raw.id == null && !raw.name)) return null;
+  return { id: idOf(raw.id), name: raw.name || null };
+}
+
+export function toMatchEvent(raw: any): MatchEvent {
+  return {
+    minute: raw.time?.elapsed ?? null,
+    extra: raw.time?.extra ?? null,
+    teamId: String(raw.team?.id ?? ''),
+    type: EVENT_TYPES[String(raw.type).toLowerCase()] || 'other',
+    detail: raw.detail || '',
+    player: toEventPlayer(raw.player),
+    assist: toEventPlayer(raw.assist),
+    comments: raw.comments || null,
+  };
+}
+
+export interface ApiFootballOptions {
+  apiKey: string;
+  /** Defaults to the public v3 endpoint; point it at the mock server for rehearsals. */
+  baseUrl?: string;
+  /** Called whenever a response carries the daily quota headers. */
+  onQuota?: (quota: ApiQuota) => void;
+}
+
+function headerNumber(headers: Headers, name: string): number | null {
+  const value = headers.get(name);
+  if (value === null || value === '') return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+function retryAfterMs(headers: Headers): number | null {
+  const seconds = headerNumber(headers, 'retry-after');
+  return seconds === null ? null : seconds * 1000;
+}
+
+export function createApiFootballProvider({ apiKey, baseUrl = API_FOOTBALL_BASE_URL, onQuota }: ApiFootballOptions): MatchDataProvider {
+  // URL별 응답 캐시. 진행 중인 요청도 저장해 getFixture/getEvents처럼 동시에 부르는
+  // 호출이 한 번의 요청을 공유한다. 실패한 요청은 바로 지운다.
+  const cache = new Map<string, { expires: number; response: Promise<any[]> }>();
+
+  async function fetchResponse(url: string, endpoint: string): Promise<any[]> {
+    const response = await fetch(url, { headers: { 'x-apisports-key': apiKey } });
+
+    const remaining = headerNumber(response.headers, 'x-ratelimit-requests-remaining');
+    if (remaining !== null && onQuota) {
+      onQuota({ limit: headerNumber(response.headers, 'x-ratelimit-requests-limit'), remaining, updatedAt: Date.now() });
+    }
+
+    if (response.status === 429) {
+      throw new ApiFootballError(`API-Football ${endpoint} rate limited`, {
+        status: 429,
+        rateLimited: true,
+        retryAfterMs: retryAfterMs(response.headers),
+      });
+    }
+    if (!response.ok) {
+      throw new ApiFootballError(`API-Football ${endpoint} failed: HTTP ${response.status}`, { status: response.status });
+    }
+    const data = await response.json();
+    // API-Football reports auth/plan problems with HTTP 200 and a non-empty errors object
+    const errors = data?.errors;
+    if (errors && (Array.isArray(errors) ? errors.length > 0 : Object.keys(errors).length > 0)) {
+      const message = Array.isArray(errors) ? errors.join(', ') : Object.values(errors).join(', ');
+      // { rateLimit: 'Too many requests...' } 또는 { requests: 'You have reached the request limit for the day...' }
+      const rateLimited = !Array.isArray(errors) && ('rateLimit' in errors || 'requests' in errors);
+      throw new ApiFootballError(`API-Football ${endpoint} error: ${message}`, { status: response.status, rateLimited });
+    }
+    return data?.response || [];
+  }
+
+  // ttl은 응답을 받은 뒤 결정할 수 있도록 함수도 허용 (예: 발표 전 라인업은 짧게)
+  function request(endpoint: string, params: Record<string, string>, ttl: number | ((response: any[]) => number)): Promise<any[]> {
+    const url = `${baseUrl}/${endpoint}?${new URLSearchParams(params).toString()}`;
+    const now = Date.now();
+    const cached = cache.get(url);
+    if (cached && cached.expires > now) return cached.response;
+
+    const entry = { expires: Number.POSITIVE_INFINITY, response: fetchResponse(url, endpoint) };
+    cache.set(url, entry);
+    entry.response.then(
+      (response) => {
+        entry.expires = Date.now() + (typeof ttl === 'function' ? ttl(response) : ttl);
+      },
+      () => {
+        if (cache.get(url) === entry) cache.delete(url);
+      },
+    );
+    return entry.response;
+  }
+
+  async function fetchFixture(fixtureId: string): Promise<any | null> {
+    const response = await request('fixtures', { id: fixtureId }, CACHE_TTL_MS.fixture);
+    return response[0] ?? null;
+  }
+
+  return {
+    async listFixtures(date) {
+      const response = await request('fixtures', { date }, CACHE_TTL_MS.fixtureList);
+      return response
+        .map(toFixtureSummary)
+        .sort((a, b) => a.timestamp - b.timestamp);
+    },
+
+    async getFixture(fixtureId) {
+      const raw = await fetchFixture(fixtureId);
+      return raw ? toFixtureSummary(raw) : null;
+    },
+
+    async getLineups(fixtureId) {
+      const response = await request('fixtures/lineups', { fixture: fixtureId }, (res) =>
+        res.length >= 2 ? CACHE_TTL_MS.lineups : CACHE_TTL_MS.lineupsPending,
+      );
+      if (response.length < 2) return null;
+      // 주장 정보는 라인업이 아닌 경기 상세(players)에만 있다. 이벤트 조회와 같은 캐시를 쓴다
+      const captainIds = captainIdsOf(await fetchFixture(fixtureId).catch(() => null));
+      return { home: toTeamLineup(response[0], captainIds), away: toTeamLineup(response[1], captainIds) };
+    },
+
+    async getEvents(fixtureId) {
+      const raw = await fetchFixture(fixtureId);
+      return (raw?.events || []).map(toMatchEvent);
+    },
+
+    async getStats(fixtureId) {
+      const response = await request('fixtures/statistics', { fixture: fixtureId }, CACHE_TTL_MS.statistics);
+      return { home: parseTeamStats(response, 0), away: parseTeamStats(response, 1) };
+    },
+  };
+}
@@ -0,0 +1,108 @@
+import type { EventPlayer, MatchEvent, MatchLineups, TeamLineup } from '../../types/match-data';
+import type { ShootoutKick } from '../../types/shootout';
+import type { TimelineEvent, TimelineEventDetail, TimelinePlayer, TimelineEventType } from '../../types/timeline';
+
+// 피드 detail 문자열 -> 타임라인 detail (소문자 비교)
+const GOAL_DETAILS: Record<string, TimelineEventDetail> = {
+  'normal goal': 'normal',
+  'own goal': 'own-goal',
+  penalty: 'penalty',
+  'missed penalty': 'missed-penalty',
+};
+
+/** Shootout kicks come as Penalty / Missed Penalty goal events with a "Penalty Shootout" comment. */
+export function isShootoutEvent(event: MatchEvent): boolean {
+  return event.type === 'goal' && (event.comments || '').toLowerCase().includes('shootout');
+}
+
+/** normal, own-goal, penalty or missed-penalty for a goal event. */
+export function goalDetail(event: MatchEvent): TimelineEventDetail {
+  return GOAL_DETAILS[event.detail.toLowerCase()] ?? 'normal';
+}
+
+/** Goal the scorer is credited with: own goals and missed penalties are not. */
+export function isScoredGoal(event: MatchEvent): boolean {
+  if (event.type !== 'goal' || isShootoutEvent(event)) return false;
+  const detail = goalDetail(event);
+  return detail === 'normal' || detail === 'penalty';
+}
+
+/** yellow, second-yellow or red for a card event. */
+export function cardDetail(event: MatchEvent): TimelineEventDetail {
+  const detail = event.detail.toLowerCase();
+  const comments = (event.comments || '').toLowerCase();
+  // 경고 누적 퇴장은 "Second Yellow card" detail 또는 Red Card + comments 로 온다
+  if (detail.includes('second yellow') || (detail.includes('red') && comments.includes('second yellow'))) return 'second-yellow';
+  if (detail.includes('red')) return 'red';
+  return 'yellow';
+}
+
+function toTimelineType(event: MatchEvent): { type: TimelineEventType; detail: TimelineEventDetail } | null {
+  if (event.type === 'goal') return { type: 'goal', detail: goalDetail(event) };
+  if (event.type === 'card') return { type: 'card', detail: cardDetail(event) };
+  if (event.type === 'subst') return { type: 'subst', detail: 'normal' };
+  return null;
+}
+
+// 이벤트에는 등번호가 없으므로 라인업(선발+벤치)에서 찾는다
+function toTimelinePlayer(ref: EventPlayer | null, lineup: TeamLineup | null): TimelinePlayer | null {
+  if (!ref) return null;
+  const entries = lineup ? [...lineup.startXI, ...lineup.substitutes] : [];
+  const entry = entries.find((p) => (ref.id !== null && p.id === ref.id) || (!!ref.name && p.name === ref.name));
+  return { number: entry?.number || '', name: ref.name || entry?.name || '' };
+}
+
+/**
+ * Convert feed events into timeline entries for teams A (home) and B (away).
+ * VAR, other and shootout events are dropped. Ids are derived from the event itself plus
+ * an occurrence counter, so the same feed event keeps its id across refreshes.
+ */
+export function toTimelineEvents(events: MatchEvent[], lineups: MatchLineups | null, teamIds: { A: string; B: string }): TimelineEvent[] {
+  const seen = new Map<string, number>();
+  const result: TimelineEvent[] = [];
+
+  events.forEach((event) => {
+    if (isShootoutEvent(event)) return;
+    const mapped = toTimelineType(event);
+    if (!mapped) return;
+    const team = event.teamId === teamIds.A ? 'A' : event.teamId === teamIds.B ? 'B' : null;
+    if (!team) return;
+
+    const playerKey = event.player?.id ?? event.player?.name ?? '-';
+    const key = `api-${team}-${mapped.type}-${event.minute ?? '-'}-${event.extra ?? 0}-${playerKey}`;
+    const occurrence = seen.get(key) ?? 0;
+    seen.set(key, occurrence + 1);
+
+    const lineup = lineups ? (team === 'A' ? lineups.home : lineups.away) : null;
+    result.push({
+      id: occurrence === 0 ? key : `${key}-${occurrence}`,
+      type: mapped.type,
+      detail: mapped.detail,
+      minute: event.minute,
+      extra: event.extra,
+      team,
+      player: toTimelinePlayer(event.player, lineup),
+      assist: toTimelinePlayer(event.assist, lineup),
+      source: 'api',
+    });
+  });
+
+  return result;
+}
+
+/** Shootout kicks in feed order, empty when the match had no shootout. */
+export function toShootoutKicks(events: MatchEvent[], lineups: MatchLineups | null, teamIds: { A: string; B: string }): ShootoutKick[] {
+  const kicks: ShootoutKick[] = [];
+  events.filter(isShootoutEvent).forEach((event) => {
+    const team = event.teamId === teamIds.A ? 'A' : event.teamId === teamIds.B ? 'B' : null;
+    if (!team) return;
+    const lineup = lineups ? (team === 'A' ? lineups.home : lineups.away) : null;
+    kicks.push({
+      team,
+      taker: toTimelinePlayer(event.player, lineup),
+      scored: !event.detail.toLowerCase().includes('missed'),
+      source: 'api',
+    });
+  });
+  return kicks;
+}
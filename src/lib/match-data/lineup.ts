@@ -0,0 +1,101 @@
+import type { Player, Substitution } from '../../types/player';
+import type { MatchEvent, TeamLineup } from '../../types/match-data';
+import { parseLineString } from '../formations';
+import { roleFromApiPosition } from '../roles';
+import { cardDetail, isScoredGoal } from './events';
+
+// 포메이션 문자열을 배열로 변환 (예: "4-3-3" -> [1, 4, 3, 3])
+export function parseFormation(formationStr: string): number[] {
+  // API 데이터는 "4-3-3" 형식 (골키퍼 제외)
+  const parts = formationStr ? parseLineString(formationStr) : null;
+  if (!parts) return [1, 4, 3, 3];
+  return [1, ...parts]; // 골키퍼 1명 추가
+}
+
+export interface LiveLineup {
+  players: Player[];
+  bench: Player[];
+  substitutions: Substitution[];
+}
+
+function isPlayer(ref: { id: string | null; name: string | null } | null, id: string | null, name: string) {
+  if (!ref) return false;
+  return (ref.id !== null && ref.id === id) || (!!name && ref.name === name);
+}
+
+// 선발 명단에 교체/득점/카드 이벤트를 반영한 현재 출전 명단
+export function getLivePlayers(lineup: TeamLineup, events: MatchEvent[]): LiveLineup {
+  const teamId = lineup.team.id;
+
+  // 1. 초기 선발 명단 설정
+  const currentXI = lineup.startXI.map((p) => ({
+    id: p.id, name: p.name, number: p.number || '0', grid: p.grid, role: roleFromApiPosition(p.position), captain: p.captain,
+  }));
+
+  const substitutions: Substitution[] = [];
+  const usedBenchIds = new Set<string>();
+
+  // 2. 교체(subst) 이벤트 처리 (player = 나가는 선수, assist = 들어오는 선수)
+  const substEvents = events
+    .filter((ev) => ev.type === 'subst' && ev.teamId === teamId)
+    .sort((a, b) => (a.minute ?? 0) - (b.minute ?? 0));
+
+  substEvents.forEach((ev) => {
+    const outId = ev.player?.id;
+    const inId = ev.assist?.id;
+    if (!outId || !inId) return;
+
+    const idx = currentXI.findIndex((p) => p.id === outId);
+    if (idx === -1) return;
+
+    // 벤치 명단에서 들어온 선수의 등번호 확인
+    const benchPlayer = lineup.substitutes.find((s) => s.id === inId);
+    const incoming = {
+      id: inId,
+      name: ev.assist?.name || benchPlayer?.name || '',
+      number: benchPlayer?.number || currentXI[idx].number,
+      grid: currentXI[idx].grid, // 교체 선수는 나간 선수의 자리를 그대로 사용
+      role: roleFromApiPosition(benchPlayer?.position) ?? currentXI[idx].role,
+      captain: benchPlayer?.captain ?? false,
+    };
+
+    usedBenchIds.add(inId);
+    substitutions.push({
+      minute: ev.minute,
+      playerOut: { number: currentXI[idx].number, name: currentXI[idx].name, role: currentXI[idx].role },
+      playerIn: { number: incoming.number, name: incoming.name, role: incoming.role },
+    });
+    currentXI[idx] = incoming;
+  });
+
+  // 3. 아직 투입되지 않은 벤치 명단
+  const bench: Player[] = lineup.substitutes
+    .filter((s) => !s.id || !usedBenchIds.has(s.id))
+    .map((s) => ({ number: s.number, name: s.name, role: roleFromApiPosition(s.position) }));
+
+  // 4. 최종 명단에 득점/카드 매핑 (교체된 선수 포함)
+  const players: Player[] = currentXI.map((p, idx) => {
+    const goals = events.filter((ev) => isScoredGoal(ev) && isPlayer(ev.player, p.id, p.name)).length;
+    const cards = events
+      .filter((ev) => ev.type === 'card' && isPlayer(ev.player, p.id, p.name))
+      .map(cardDetail);
+    const secondYellow = cards.includes('second-yellow');
+    const redCard = secondYellow || cards.includes('red');
+    // 경고 누적 퇴장은 첫 경고 이벤트가 없어도 경고 2장으로 센다
+    const yellowCards = secondYellow ? 2 : cards.filter((c) => c === 'yellow').length;
+
+    return {
+      number: p.number || (idx + 1).toString(),
+      name: p.name || `선수 ${idx + 1}`,
+      yellowCards,
+      redCard,
+      redCardReason: redCard ? (secondYellow ? 'second-yellow' : 'straight') : undefined,
+      goals,
+      grid: p.grid,
+      role: p.role,
+      captain: p.captain || undefined,
+    };
+  });
+
+  return { players, bench, substitutions };
+}
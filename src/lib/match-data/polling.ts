@@ -0,0 +1,61 @@
+import type { ApiQuota } from './api-football';
+
+// 자동 갱신 주기 (ms)
+export const POLL_INTERVAL_MS = {
+  live: 15_000,
+  // 득점/카드/교체 직후에는 후속 이벤트(VAR, 정정)가 잦으므로 잠시 빠르게
+  afterEvent: 5_000,
+  // 킥오프 전(NS), 하프타임(HT), 연장 전 휴식(BT)
+  idle: 60_000,
+  finished: 5 * 60_000,
+  max: 10 * 60_000,
+} as const;
+
+/** 마지막 이벤트 이후 이 시간 동안 afterEvent 주기로 갱신 */
+export const AFTER_EVENT_WINDOW_MS = 60_000;
+
+const IDLE_STATUSES = ['NS', 'TBD', 'HT', 'BT', 'INT', 'SUSP', 'PST'];
+const FINISHED_STATUSES = ['FT', 'AET', 'PEN', 'CANC', 'ABD', 'AWD', 'WO'];
+
+export interface PollState {
+  /** Short status of the fixture from the last successful poll. */
+  status: string | null;
+  /** When the event count last grew, null if no event seen yet. */
+  lastEventAt: number | null;
+  /** Consecutive rate-limited polls (HTTP 429 or quota errors). */
+  rateLimitStrikes: number;
+  /** Retry-After from the last rate-limited response. */
+  retryAfterMs: number | null;
+  quota: ApiQuota | null;
+}
+
+function baseInterval(state: PollState, now: number): number {
+  const status = state.status ?? '';
+  if (FINISHED_STATUSES.includes(status)) return POLL_INTERVAL_MS.finished;
+  if (IDLE_STATUSES.includes(status)) return POLL_INTERVAL_MS.idle;
+  if (state.lastEventAt !== null && now - state.lastEventAt < AFTER_EVENT_WINDOW_MS) return POLL_INTERVAL_MS.afterEvent;
+  return POLL_INTERVAL_MS.live;
+}
+
+// 남은 일일 할당량 비율에 따라 주기를 늘린다
+function quotaFactor(quota: ApiQuota | null): number {
+  if (!quota || quota.remaining === null) return 1;
+  if (quota.remaining <= 0) return Number.POSITIVE_INFINITY;
+  if (!quota.limit) return 1;
+  const ratio = quota.remaining / quota.limit;
+  if (ratio < 0.1) return 4;
+  if (ratio < 0.25) return 2;
+  return 1;
+}
+
+// 다음 자동 갱신까지 대기 시간. 429가 연속되면 지수적으로 늘린다 (Retry-After가 더 길면 그 값).
+// 일일 할당량을 다 쓰면 Infinity (더 이상 갱신하지 않음).
+export function nextPollDelay(state: PollState, now: number = Date.now()): number {
+  if (state.rateLimitStrikes > 0) {
+    const backoff = POLL_INTERVAL_MS.live * 2 ** state.rateLimitStrikes;
+    return Math.min(POLL_INTERVAL_MS.max, Math.max(backoff, state.retryAfterMs ?? 0));
+  }
+  const factor = quotaFactor(state.quota);
+  if (!Number.isFinite(factor)) return Number.POSITIVE_INFINITY;
+  return Math.min(POLL_INTERVAL_MS.max, baseInterval(state, now) * factor);
+}
@@ -0,0 +1,139 @@
+import type { Formation } from '../types/formation';
+import type { Player } from '../types/player';
+import { positionSide, roleForSlot } from './roles';
+
+type Point = { x: number; y: number };
+
+// 라인의 세로 위치: 골키퍼는 맨 아래(90), 나머지 라인은 10~90 사이에 균등 배치
+function lineY(lineIndex: number, totalLines: number): number {
+  if (lineIndex === 0) return 90; // GK (fixed at bottom)
+  const topY = 10;    // ATT position (top)
+  const bottomY = 90; // GK position (bottom)
+  const spacing = (bottomY - topY) / Math.max(1, totalLines - 1);
+  // Last line (highest lineIndex) should be at topY
+  return bottomY - (spacing * lineIndex);
+}
+
+// 라인 안의 가로 위치: i=0(API의 첫 선수)이 오른쪽(75%~80%)에 오도록 역순 계산 적용
+function slotX(i: number, lineCount: number): number {
+  const baseX = ((lineCount - i) / (lineCount + 1)) * 100;
+  return 50 + (baseX - 50) * 1.2; // widen spacing by 20%
+}
+
+export function calcPositions(formation: Formation): Point[] {
+  const positions: Point[] = [];
+
+  formation.lines.forEach((lineCount, lineIndex) => {
+    const yForLine = lineY(lineIndex, formation.lines.length);
+    for (let i = 0; i < lineCount; i++) {
+      positions.push({ x: slotX(i, lineCount), y: yForLine });
+    }
+  });
+
+  return positions;
+}
+
+/**
+ * Line layout that follows player roles. A player whose role differs from the
+ * line of their slot (a forward listed in a midfield slot) trades places with
+ * someone in a line of that role: preferably a player who belongs in the slot
+ * being left, else another misplaced player, else one without a role. Players
+ * without a role, or already on their role's line, keep their slots.
+ */
+function roleOrderedPositions(formation: Formation, players: Pick<Player, 'role'>[]): Point[] {
+  const slots = calcPositions(formation);
+  const starters = players.slice(0, slots.length);
+  const slotOf = starters.map((_, index) => index);
+  const occupant = slotOf.slice();
+  const misplaced = (index: number) => {
+    const role = starters[index].role;
+    return role !== undefined && role !== roleForSlot(formation, slotOf[index]);
+  };
+
+  starters.forEach((player, index) => {
+    if (!misplaced(index)) return;
+    const leaving = roleForSlot(formation, slotOf[index]);
+    const candidates = occupant.filter((other, slot) =>
+      roleForSlot(formation, slot) === player.role && (misplaced(other) || !starters[other].role));
+    const preference = (other: number) => (starters[other].role === leaving ? 0 : starters[other].role ? 1 : 2);
+    const swapWith = candidates.sort((a, b) => preference(a) - preference(b) || slotOf[a] - slotOf[b])[0];
+    if (swapWith === undefined) return;
+    [slotOf[index], slotOf[swapWith]] = [slotOf[swapWith], slotOf[index]];
+    occupant[slotOf[index]] = index;
+    occupant[slotOf[swapWith]] = swapWith;
+  });
+
+  const result = slots.slice();
+  slotOf.forEach((slot, index) => {
+    result[index] = slots[slot];
+  });
+  return result;
+}
+
+// 측면 포지션을 가장 바깥 자리로 보낼 때의 최소 폭 (풀백이 안쪽으로 몰리지 않게)
+const WIDE_LEFT_X = 14;
+const WIDE_RIGHT_X = 86;
+
+/**
+ * Reorders each line so left-sided positions (LB, LM, LW...) take the leftmost
+ * slots and right-sided ones the rightmost, then keeps the outermost of them wide.
+ * Players without a detailed position keep their relative order.
+ */
+function applyRoleLayout(positions: Point[], players: Pick<Player, 'detailedPosition'>[]): Point[] {
+  const result = positions.slice();
+  const lines = new Map<number, number[]>();
+  positions.forEach((pos, index) => lines.set(pos.y, [...(lines.get(pos.y) ?? []), index]));
+
+  lines.forEach((indices) => {
+    const sideRank = (index: number) => {
+      const side = positionSide(players[index]?.detailedPosition);
+      return side === 'left' ? 0 : side === 'right' ? 2 : 1;
+    };
+    if (indices.every((index) => sideRank(index) === 1)) return;
+
+    const slots = indices.map((index) => positions[index]).sort((a, b) => a.x - b.x);
+    const ordered = indices.slice().sort((a, b) => sideRank(a) - sideRank(b) || positions[a].x - positions[b].x);
+    ordered.forEach((index, slot) => {
+      let x = slots[slot].x;
+      if (slot === 0 && sideRank(index) === 0) x = Math.min(x, WIDE_LEFT_X);
+      if (slot === ordered.length - 1 && sideRank(index) === 2) x = Math.max(x, WIDE_RIGHT_X);
+      result[index] = { x, y: slots[slot].y };
+    });
+  });
+
+  return result;
+}
+
+function parseGrid(grid: string | null | undefined): { row: number; col: number } | null {
+  const match = grid ? /^(\d+):(\d+)$/.exec(grid.trim()) : null;
+  if (!match) return null;
+  const row = parseInt(match[1], 10);
+  const col = parseInt(match[2], 10);
+  return row >= 1 && col >= 1 ? { row, col } : null;
+}
+
+function gridOrLinePositions(formation: Formation, players: Pick<Player, 'grid' | 'role'>[]): Point[] {
+  const fallback = roleOrderedPositions(formation, players);
+  const starters = players.slice(0, fallback.length);
+  const grids = starters.map((p) => parseGrid(p.grid));
+  if (grids.length === 0 || grids.some((g) => g === null)) return fallback;
+
+  const cells = grids as { row: number; col: number }[];
+  if (new Set(cells.map((g) => `${g.row}:${g.col}`)).size !== cells.length) return fallback;
+
+  const totalLines = Math.max(...cells.map((g) => g.row));
+  const rowSize = (row: number) => Math.max(...cells.filter((g) => g.row === row).map((g) => g.col));
+  return cells.map((g) => ({ x: slotX(g.col - 1, rowSize(g.row)), y: lineY(g.row - 1, totalLines) }));
+}
+
+/**
+ * Default pitch positions for `players`. When every starter carries an API
+ * grid ("row:col", row 1 = goalkeeper, col 1 = right side) the players are
+ * placed by it, so asymmetric shapes match the official team sheet; otherwise
+ * falls back to spreading each formation line evenly, with players moved to the
+ * line of their role. Detailed positions then put wide players on their side of
+ * the line.
+ */
+export function calcPlayerPositions(formation: Formation, players: Pick<Player, 'grid' | 'detailedPosition' | 'role'>[]): Point[] {
+  return applyRoleLayout(gridOrLinePositions(formation, players), players);
+}
@@ -0,0 +1,58 @@
+import type { Formation } from '../types/formation';
+import type { Player, PlayerRole } from '../types/player';
+
+export const PLAYER_ROLES: PlayerRole[] = ['GK', 'DF', 'MF', 'FW'];
+
+export const ROLE_LABELS: Record<PlayerRole, string> = {
+  GK: '골키퍼',
+  DF: '수비수',
+  MF: '미드필더',
+  FW: '공격수',
+};
+
+/** Detailed positions offered for each role. */
+export const DETAILED_POSITIONS: Record<PlayerRole, string[]> = {
+  GK: ['GK'],
+  DF: ['LB', 'LWB', 'CB', 'RWB', 'RB'],
+  MF: ['LM', 'CDM', 'CM', 'CAM', 'RM'],
+  FW: ['LW', 'SS', 'CF', 'ST', 'RW'],
+};
+
+// 측면 포지션: 라인 안에서 해당 쪽 끝자리에 배치
+const POSITION_SIDES: Record<string, 'left' | 'right'> = {
+  LB: 'left', LWB: 'left', LM: 'left', LW: 'left',
+  RB: 'right', RWB: 'right', RM: 'right', RW: 'right',
+};
+
+// API-Football lineup `pos` 코드
+const API_ROLES: Record<string, PlayerRole> = { G: 'GK', D: 'DF', M: 'MF', F: 'FW' };
+
+export function roleFromApiPosition(pos: string | null | undefined): PlayerRole | undefined {
+  return pos ? API_ROLES[pos.trim().toUpperCase()] : undefined;
+}
+
+export function positionSide(detailedPosition: string | null | undefined): 'left' | 'right' | null {
+  return detailedPosition ? POSITION_SIDES[detailedPosition] ?? null : null;
+}
+
+/** Role implied by the formation line of slot `index`: GK, back line, attack line, midfield in between. */
+export function roleForSlot(formation: Formation, index: number): PlayerRole {
+  let start = 0;
+  const lineIndex = formation.lines.findIndex((count) => {
+    start += count;
+    return index < start;
+  });
+  if (lineIndex <= 0) return 'GK';
+  if (lineIndex === 1) return 'DF';
+  if (lineIndex === formation.lines.length - 1) return 'FW';
+  return 'MF';
+}
+
+/** The player's own role, or the one implied by their slot when none was set. */
+export function playerRole(player: Player, formation: Formation, index: number): PlayerRole {
+  return player.role ?? roleForSlot(formation, index);
+}
+
+export function isGoalkeeper(player: Player, formation: Formation, index: number): boolean {
+  return playerRole(player, formation, index) === 'GK';
+}
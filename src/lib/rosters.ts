@@ -0,0 +1,103 @@
+import type { Formation } from '../types/formation';
+import type { Player } from '../types/player';
+import type { RosterFile, RosterLibrary, RosterPlayer } from '../types/roster';
+import { PLAYER_ROLES, roleForSlot } from './roles';
+
+const LIBRARY_KEY = 'roster-library';
+
+function toRosterPlayer(raw: any): RosterPlayer | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const number = raw.number === undefined || raw.number === null ? '' : String(raw.number).trim();
+  const name = typeof raw.name === 'string' ? raw.name.trim() : '';
+  if (!number && !name) return null;
+  const player: RosterPlayer = { number, name };
+  if (typeof raw.shortName === 'string' && raw.shortName.trim()) player.shortName = raw.shortName.trim();
+  if (PLAYER_ROLES.includes(raw.role)) player.role = raw.role;
+  if (typeof raw.photo === 'string' && raw.photo.trim()) player.photo = raw.photo.trim();
+  return player;
+}
+
+// 알 수 없는 항목은 버리고 팀 id -> 선수 목록 형태만 남긴다
+function toRosterLibrary(raw: any): RosterLibrary {
+  const library: RosterLibrary = {};
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return library;
+  Object.entries(raw).forEach(([teamId, players]) => {
+    if (!teamId || !Array.isArray(players)) return;
+    library[teamId] = players.map(toRosterPlayer).filter((p): p is RosterPlayer => p !== null);
+  });
+  return library;
+}
+
+export function loadRosterLibrary(): RosterLibrary {
+  try {
+    return toRosterLibrary(JSON.parse(localStorage.getItem(LIBRARY_KEY) || '{}'));
+  } catch {
+    return {};
+  }
+}
+
+export function saveRosterLibrary(library: RosterLibrary) {
+  try {
+    localStorage.setItem(LIBRARY_KEY, JSON.stringify(library));
+  } catch (error) {
+    // ignore localStorage errors
+  }
+}
+
+export function toRosterFile(library: RosterLibrary): RosterFile {
+  return { version: 1, rosters: library };
+}
+
+/**
+ * Rosters from an imported file. Accepts an exported roster file or a single
+ * `{ teamId, players }` squad; throws when neither shape is found.
+ */
+export function parseRosterFile(data: any): RosterLibrary {
+  if (data && typeof data === 'object' && data.rosters) return toRosterLibrary(data.rosters);
+  if (data && typeof data.teamId === 'string' && Array.isArray(data.players)) return toRosterLibrary({ [data.teamId]: data.players });
+  throw new Error('스쿼드 파일 형식이 아닙니다');
+}
+
+/** Imported squads replace saved squads of the same team; other teams are kept. */
+export function mergeRosterLibraries(current: RosterLibrary, incoming: RosterLibrary): RosterLibrary {
+  return { ...current, ...incoming };
+}
+
+// 포메이션 변경 시 채워지는 기본 이름 ("선수 7")
+const PLACEHOLDER_NAME = /^선수 \d+$/;
+
+/**
+ * Squad saved from the current starters and bench, keeping short names and photos
+ * already on file. Unnamed placeholder players are left out.
+ */
+export function rosterFromLineup(players: Player[], bench: Player[], existing: RosterPlayer[] = []): RosterPlayer[] {
+  return [...players, ...bench]
+    .filter((p) => !PLACEHOLDER_NAME.test(p.name))
+    .map((p) => {
+      const saved = existing.find((r) => r.number === p.number && (r.name === p.name || r.shortName === p.name));
+      return toRosterPlayer({ ...saved, number: p.number, name: saved?.name ?? p.name, role: p.role ?? saved?.role });
+    })
+    .filter((p): p is RosterPlayer => p !== null);
+}
+
+/**
+ * Starters for `formation` and the bench from a squad. Each slot takes the next
+ * squad member with the slot's role, then anyone left; the rest go to the bench.
+ * Players are shown by short name when one is set.
+ */
+export function lineupFromRoster(roster: RosterPlayer[], formation: Formation): { players: Player[]; bench: Player[] } {
+  const toPlayer = (r: RosterPlayer): Player => ({ number: r.number, name: r.shortName || r.name, role: r.role });
+  const remaining = roster.slice();
+  const total = formation.lines.reduce((sum, n) => sum + n, 0);
+  const slots: (RosterPlayer | null)[] = Array.from({ length: total }, (_, i) => {
+    const index = remaining.findIndex((r) => r.role === roleForSlot(formation, i));
+    return index === -1 ? null : remaining.splice(index, 1)[0];
+  });
+  // 역할이 맞는 선수가 없는 자리: 남은 필드 플레이어 중 첫 번째 (골키퍼는 골키퍼 자리에만)
+  const players = slots.map((r, i) => {
+    const index = r ? -1 : remaining.findIndex((p) => (p.role === 'GK') === (roleForSlot(formation, i) === 'GK'));
+    const picked = r ?? (index === -1 ? null : remaining.splice(index, 1)[0]);
+    return picked ? toPlayer(picked) : { number: String(i + 1), name: `선수 ${i + 1}` };
+  });
+  return { players, bench: remaining.map(toPlayer) };
+}
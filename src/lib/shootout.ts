@@ -0,0 +1,73 @@
+import type { ShootoutKick, ShootoutState } from '../types/shootout';
+
+type Side = 'A' | 'B';
+
+export const DEFAULT_SHOOTOUT: ShootoutState = { active: false, firstTeam: 'A', kicks: [] };
+
+// 기본 5라운드, 이후 서든데스
+export const SHOOTOUT_ROUNDS = 5;
+
+export interface ShootoutSummary {
+  score: Record<Side, number>;
+  taken: Record<Side, number>;
+  /** Per team kick results by round; null for rounds not taken yet (always at least 5). */
+  rounds: Record<Side, (boolean | null)[]>;
+  suddenDeath: boolean;
+  winner: Side | null;
+  /** Team due to kick next, null once decided. */
+  nextTeam: Side | null;
+}
+
+const other = (team: Side): Side => (team === 'A' ? 'B' : 'A');
+
+export function summarizeShootout(state: ShootoutState): ShootoutSummary {
+  const score = { A: 0, B: 0 };
+  const taken = { A: 0, B: 0 };
+  const results: Record<Side, boolean[]> = { A: [], B: [] };
+  let winner: Side | null = null;
+
+  // 승부가 난 뒤의 킥은 무시 (잘못 입력된 추가 킥)
+  for (const kick of state.kicks) {
+    if (winner) break;
+    taken[kick.team] += 1;
+    results[kick.team].push(kick.scored);
+    if (kick.scored) score[kick.team] += 1;
+    winner = decide(score, taken);
+  }
+
+  const length = Math.max(SHOOTOUT_ROUNDS, taken.A, taken.B);
+  const pad = (list: boolean[]) => Array.from({ length }, (_, i) => (i < list.length ? list[i] : null));
+  const nextTeam = winner ? null : taken.A === taken.B ? state.firstTeam : taken.A < taken.B ? 'A' : 'B';
+
+  return {
+    score,
+    taken,
+    rounds: { A: pad(results.A), B: pad(results.B) },
+    suddenDeath: !winner && taken.A >= SHOOTOUT_ROUNDS && taken.B >= SHOOTOUT_ROUNDS,
+    winner,
+    nextTeam,
+  };
+}
+
+function decide(score: Record<Side, number>, taken: Record<Side, number>): Side | null {
+  if (taken.A <= SHOOTOUT_ROUNDS && taken.B <= SHOOTOUT_ROUNDS) {
+    // 남은 킥을 모두 넣어도 따라잡을 수 없으면 종료
+    for (const team of ['A', 'B'] as Side[]) {
+      const rival = other(team);
+      if (score[rival] + (SHOOTOUT_ROUNDS - taken[rival]) < score[team]) return team;
+    }
+    return null;
+  }
+  // 서든데스: 같은 수의 킥을 찬 뒤 점수가 다르면 종료
+  if (taken.A === taken.B && score.A !== score.B) return score.A > score.B ? 'A' : 'B';
+  return null;
+}
+
+export function addShootoutKick(state: ShootoutState, kick: ShootoutKick): ShootoutState {
+  if (summarizeShootout(state).winner) return state;
+  return { ...state, active: true, kicks: [...state.kicks, kick] };
+}
+
+export function undoShootoutKick(state: ShootoutState): ShootoutState {
+  return { ...state, kicks: state.kicks.slice(0, -1) };
+}
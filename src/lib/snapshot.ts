@@ -0,0 +1,308 @@
+import type { AppSnapshot } from '../types/snapshot';
+import { PLAYER_ROLES } from './roles';
+import { KIT_PATTERNS, normalizeKit } from './kits';
+import { DEFAULT_MATCH_CLOCK, PERIOD_LABELS } from './match-clock';
+import { normalizePlayerCards } from './cards';
+import { DEFAULT_SHOOTOUT } from './shootout';
+import { DEFAULT_TIE } from './tie';
+
+/** Format version written by `collectAppSnapshot`; older files are migrated on load. */
+export const SNAPSHOT_VERSION = 2;
+
+export interface SnapshotParseResult {
+  /** Null when there are errors. */
+  snapshot: AppSnapshot | null;
+  /** Readable problems, "path: message" each; empty when the file is valid. */
+  errors: string[];
+  /** Version the file was saved with, when it had to be migrated. */
+  migratedFrom: number | null;
+}
+
+// 객체가 아닌 항목은 그대로 두어 검사에서 걸리게 한다
+const normalizePlayers = (list: unknown) =>
+  Array.isArray(list) ? list.map((p) => (isObject(p) ? normalizePlayerCards(p) : p)) : list;
+
+// 버전 N -> N+1 변환. 버전 필드가 없는 파일은 1로 본다
+const MIGRATIONS: Record<number, (data: any) => any> = {
+  // v1: 유니폼은 단색 uniformColor만 있을 수 있고 (kit 추가 이전), 카드는 예전 형식(yellowCard)일 수 있다.
+  // 시계/승부차기/대회 정보는 나중에 추가된 필드가 빠져 있을 수 있어 기본값과 합친다
+  1: (data) => ({
+    ...data,
+    version: 2,
+    ...Object.fromEntries(
+      (['players', 'bench', 'playersB', 'benchB'] as const).filter((key) => key in data).map((key) => [key, normalizePlayers(data[key])]),
+    ),
+    ...(data.kit || typeof data.uniformColor === 'string' ? { kit: normalizeKit(data.kit, data.uniformColor ?? '#2563eb') } : {}),
+    ...(data.kitB || typeof data.uniformColorB === 'string' ? { kitB: normalizeKit(data.kitB, data.uniformColorB ?? '#dc2626') } : {}),
+    ...(isObject(data.matchClock) ? { matchClock: { ...DEFAULT_MATCH_CLOCK, ...data.matchClock } } : {}),
+    ...(isObject(data.shootout) ? { shootout: { ...DEFAULT_SHOOTOUT, ...data.shootout } } : {}),
+    ...(isObject(data.tie) ? { tie: { ...DEFAULT_TIE, ...data.tie } } : {}),
+  }),
+};
+
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+const MATCH_PERIODS = Object.keys(PERIOD_LABELS);
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+// 오류 목록에 "경로: 메시지" 형태로 추가하는 검사 도우미
+function checker(errors: string[]) {
+  const fail = (path: string, message: string) => errors.push(`${path}: ${message}`);
+  return {
+    fail,
+    string(path: string, value: unknown, nullable = false) {
+      if (typeof value === 'string' || (nullable && value === null)) return true;
+      fail(path, nullable ? '문자열 또는 null이어야 합니다' : '문자열이어야 합니다');
+      return false;
+    },
+    number(path: string, value: unknown, { nullable = false, integer = false, min }: { nullable?: boolean; integer?: boolean; min?: number } = {}) {
+      if (nullable && value === null) return true;
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        fail(path, nullable ? '숫자 또는 null이어야 합니다' : '숫자여야 합니다');
+        return false;
+      }
+      if (integer && !Number.isInteger(value)) fail(path, '정수여야 합니다');
+      else if (min !== undefined && value < min) fail(path, `${min} 이상이어야 합니다`);
+      else return true;
+      return false;
+    },
+    boolean(path: string, value: unknown) {
+      if (typeof value === 'boolean') return true;
+      fail(path, 'true 또는 false여야 합니다');
+      return false;
+    },
+    oneOf(path: string, value: unknown, options: readonly string[]) {
+      if (typeof value === 'string' && options.includes(value)) return true;
+      fail(path, `${options.join(', ')} 중 하나여야 합니다`);
+      return false;
+    },
+    color(path: string, value: unknown) {
+      if (typeof value === 'string' && HEX_COLOR.test(value)) return true;
+      fail(path, '"#rrggbb" 형식의 색이어야 합니다');
+      return false;
+    },
+    object(path: string, value: unknown): value is Record<string, any> {
+      if (isObject(value)) return true;
+      fail(path, '객체여야 합니다');
+      return false;
+    },
+    array(path: string, value: unknown): value is unknown[] {
+      if (Array.isArray(value)) return true;
+      fail(path, '배열이어야 합니다');
+      return false;
+    },
+  };
+}
+
+type Checker = ReturnType<typeof checker>;
+
+function checkFormation(c: Checker, path: string, formation: unknown) {
+  if (!c.object(path, formation)) return;
+  c.string(`${path}.name`, formation.name);
+  if (!c.array(`${path}.lines`, formation.lines)) return;
+  if (formation.lines.length === 0) c.fail(`${path}.lines`, '라인이 없습니다');
+  formation.lines.forEach((n: unknown, i: number) => c.number(`${path}.lines[${i}]`, n, { integer: true, min: 1 }));
+}
+
+function checkPlayer(c: Checker, path: string, player: unknown) {
+  if (!c.object(path, player)) return;
+  c.string(`${path}.number`, player.number);
+  c.string(`${path}.name`, player.name);
+  if (player.yellowCards !== undefined) c.number(`${path}.yellowCards`, player.yellowCards, { integer: true, min: 0 });
+  if (player.redCard !== undefined) c.boolean(`${path}.redCard`, player.redCard);
+  if (player.redCardReason !== undefined) c.oneOf(`${path}.redCardReason`, player.redCardReason, ['straight', 'second-yellow']);
+  if (player.goals !== undefined) c.number(`${path}.goals`, player.goals, { integer: true, min: 0 });
+  if (player.grid !== undefined) c.string(`${path}.grid`, player.grid, true);
+  if (player.role !== undefined) c.oneOf(`${path}.role`, player.role, PLAYER_ROLES);
+  if (player.detailedPosition !== undefined) c.string(`${path}.detailedPosition`, player.detailedPosition);
+  if (player.captain !== undefined) c.boolean(`${path}.captain`, player.captain);
+}
+
+function checkPlayers(c: Checker, path: string, players: unknown) {
+  if (c.array(path, players)) players.forEach((p, i) => checkPlayer(c, `${path}[${i}]`, p));
+}
+
+function checkSubstitutions(c: Checker, path: string, substitutions: unknown) {
+  if (!c.array(path, substitutions)) return;
+  substitutions.forEach((sub, i) => {
+    const at = `${path}[${i}]`;
+    if (!c.object(at, sub)) return;
+    c.number(`${at}.minute`, sub.minute, { nullable: true });
+    (['playerOut', 'playerIn'] as const).forEach((key) => {
+      if (!c.object(`${at}.${key}`, sub[key])) return;
+      c.string(`${at}.${key}.number`, sub[key].number);
+      c.string(`${at}.${key}.name`, sub[key].name);
+    });
+    if (sub.replaced !== undefined) checkPlayer(c, `${at}.replaced`, sub.replaced);
+    if (sub.substitute !== undefined) checkPlayer(c, `${at}.substitute`, sub.substitute);
+  });
+}
+
+function checkKit(c: Checker, path: string, kit: unknown) {
+  if (!c.object(path, kit)) return;
+  c.color(`${path}.primary`, kit.primary);
+  c.color(`${path}.secondary`, kit.secondary);
+  c.color(`${path}.number`, kit.number);
+  c.oneOf(`${path}.pattern`, kit.pattern, KIT_PATTERNS);
+  c.boolean(`${path}.contrastSleeves`, kit.contrastSleeves);
+}
+
+function checkOverrides(c: Checker, path: string, overrides: unknown) {
+  if (!c.object(path, overrides)) return;
+  Object.entries(overrides).forEach(([key, pos]) => {
+    const at = `${path}.${key}`;
+    if (!/^\d+$/.test(key)) c.fail(at, '선수 순번(0 이상 정수)이어야 합니다');
+    if (!c.object(at, pos)) return;
+    c.number(`${at}.x`, pos.x);
+    c.number(`${at}.y`, pos.y);
+  });
+}
+
+function checkTimelinePlayer(c: Checker, path: string, player: unknown) {
+  if (player === null) return;
+  if (!c.object(path, player)) return;
+  c.string(`${path}.number`, player.number);
+  c.string(`${path}.name`, player.name);
+}
+
+function checkTimeline(c: Checker, path: string, timeline: unknown) {
+  if (!c.array(path, timeline)) return;
+  timeline.forEach((event, i) => {
+    const at = `${path}[${i}]`;
+    if (!c.object(at, event)) return;
+    c.string(`${at}.id`, event.id);
+    c.oneOf(`${at}.type`, event.type, ['goal', 'card', 'subst']);
+    c.string(`${at}.detail`, event.detail);
+    c.number(`${at}.minute`, event.minute, { nullable: true });
+    c.number(`${at}.extra`, event.extra, { nullable: true });
+    c.oneOf(`${at}.team`, event.team, ['A', 'B']);
+    checkTimelinePlayer(c, `${at}.player`, event.player);
+    checkTimelinePlayer(c, `${at}.assist`, event.assist);
+    c.oneOf(`${at}.source`, event.source, ['api', 'manual']);
+  });
+}
+
+function checkMatchClock(c: Checker, path: string, clock: unknown) {
+  if (!c.object(path, clock)) return;
+  c.oneOf(`${path}.period`, clock.period, MATCH_PERIODS);
+  c.boolean(`${path}.running`, clock.running);
+  c.number(`${path}.baseSeconds`, clock.baseSeconds, { min: 0 });
+  c.number(`${path}.startedAt`, clock.startedAt, { nullable: true });
+  c.number(`${path}.periodLength`, clock.periodLength, { min: 1 });
+  c.number(`${path}.extraTimeLength`, clock.extraTimeLength, { min: 1 });
+  c.number(`${path}.addedTime`, clock.addedTime, { nullable: true, min: 0 });
+}
+
+function checkShootout(c: Checker, path: string, shootout: unknown) {
+  if (!c.object(path, shootout)) return;
+  c.boolean(`${path}.active`, shootout.active);
+  c.oneOf(`${path}.firstTeam`, shootout.firstTeam, ['A', 'B']);
+  if (!c.array(`${path}.kicks`, shootout.kicks)) return;
+  shootout.kicks.forEach((kick, i) => {
+    const at = `${path}.kicks[${i}]`;
+    if (!c.object(at, kick)) return;
+    c.oneOf(`${at}.team`, kick.team, ['A', 'B']);
+    checkTimelinePlayer(c, `${at}.taker`, kick.taker);
+    c.boolean(`${at}.scored`, kick.scored);
+  });
+}
+
+function checkTie(c: Checker, path: string, tie: unknown) {
+  if (!c.object(path, tie)) return;
+  c.string(`${path}.roundName`, tie.roundName);
+  if (tie.leg !== null && tie.leg !== 1 && tie.leg !== 2) c.fail(`${path}.leg`, '1, 2 또는 null이어야 합니다');
+  if (tie.firstLeg !== null && c.object(`${path}.firstLeg`, tie.firstLeg)) {
+    c.number(`${path}.firstLeg.A`, tie.firstLeg.A, { integer: true, min: 0 });
+    c.number(`${path}.firstLeg.B`, tie.firstLeg.B, { integer: true, min: 0 });
+  }
+  c.oneOf(`${path}.secondLegHost`, tie.secondLegHost, ['A', 'B']);
+  c.boolean(`${path}.awayGoalsRule`, tie.awayGoalsRule);
+}
+
+function checkMatchStats(c: Checker, path: string, stats: unknown) {
+  if (!c.object(path, stats)) return;
+  (['A', 'B'] as const).forEach((team) => {
+    if (!c.array(`${path}.${team}`, stats[team])) return;
+    stats[team].forEach((entry, i) => {
+      const at = `${path}.${team}[${i}]`;
+      if (!c.object(at, entry)) return;
+      c.string(`${at}.type`, entry.type);
+      c.string(`${at}.value`, entry.value);
+    });
+  });
+}
+
+// 포메이션 선수 합계와 선발 명단 수가 다르면 필드가 깨진다
+function checkFormationFits(c: Checker, team: 'A' | 'B', formation: any, players: any) {
+  if (!isObject(formation) || !Array.isArray(formation.lines) || !Array.isArray(players)) return;
+  if (formation.lines.some((n: unknown) => typeof n !== 'number')) return;
+  const total = formation.lines.reduce((sum: number, n: number) => sum + n, 0);
+  if (total !== players.length) {
+    c.fail(team === 'A' ? 'formation' : 'formationB', `포메이션 ${formation.name} 선수 합계(${total}명)가 선발 선수 수(${players.length}명)와 다릅니다`);
+  }
+}
+
+/** Problems in a current-version snapshot; an empty list means it is valid. */
+export function validateSnapshot(data: unknown): string[] {
+  const errors: string[] = [];
+  const c = checker(errors);
+  if (!c.object('(파일)', data)) return errors;
+  if (data.version !== SNAPSHOT_VERSION) c.fail('version', `${SNAPSHOT_VERSION}이어야 합니다`);
+
+  // 없는 필드는 건너뛴다 (적용 시 현재 상태 유지)
+  const has = (key: string) => data[key] !== undefined;
+  (['formation', 'formationB'] as const).forEach((key) => has(key) && checkFormation(c, key, data[key]));
+  (['players', 'bench', 'playersB', 'benchB'] as const).forEach((key) => has(key) && checkPlayers(c, key, data[key]));
+  (['substitutions', 'substitutionsB'] as const).forEach((key) => has(key) && checkSubstitutions(c, key, data[key]));
+  (['uniformColor', 'uniformColorB', 'goalkeeperColor', 'goalkeeperColorB'] as const).forEach((key) => has(key) && c.color(key, data[key]));
+  (['kit', 'kitB'] as const).forEach((key) => has(key) && checkKit(c, key, data[key]));
+  (['overrides', 'overridesB'] as const).forEach((key) => has(key) && checkOverrides(c, key, data[key]));
+  (['teamNameA', 'teamNameB'] as const).forEach((key) => has(key) && c.string(key, data[key]));
+  (['teamLogoA', 'teamLogoB'] as const).forEach((key) => {
+    if (has(key) && data[key] !== null && c.object(key, data[key])) c.string(`${key}.id`, data[key].id);
+  });
+  (['scoreA', 'scoreB'] as const).forEach((key) => has(key) && c.number(key, data[key], { integer: true, min: 0 }));
+  if (has('verticalMode')) c.boolean('verticalMode', data.verticalMode);
+  if (has('matchClock')) checkMatchClock(c, 'matchClock', data.matchClock);
+  if (has('timeline')) checkTimeline(c, 'timeline', data.timeline);
+  if (has('dismissedEventIds') && c.array('dismissedEventIds', data.dismissedEventIds)) {
+    data.dismissedEventIds.forEach((id: unknown, i: number) => c.string(`dismissedEventIds[${i}]`, id));
+  }
+  if (has('shootout')) checkShootout(c, 'shootout', data.shootout);
+  if (has('tie')) checkTie(c, 'tie', data.tie);
+  if (has('matchStats')) checkMatchStats(c, 'matchStats', data.matchStats);
+  if (has('fixture') && c.object('fixture', data.fixture)) {
+    c.string('fixture.id', data.fixture.id, true);
+    c.string('fixture.status', data.fixture.status, true);
+  }
+
+  checkFormationFits(c, 'A', data.formation, data.players);
+  checkFormationFits(c, 'B', data.formationB, data.playersB);
+  return errors;
+}
+
+/**
+ * Migrate a loaded lineup file to the current version and validate it.
+ * Files without a `version` field are version 1.
+ */
+export function parseSnapshot(data: unknown): SnapshotParseResult {
+  if (!isObject(data)) return { snapshot: null, errors: ['라인업 파일 형식이 아닙니다'], migratedFrom: null };
+  const version = data.version === undefined ? 1 : data.version;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+    return { snapshot: null, errors: ['version: 알 수 없는 파일 버전입니다'], migratedFrom: null };
+  }
+  if (version > SNAPSHOT_VERSION) {
+    return { snapshot: null, errors: [`version: 더 새로운 버전(${version})의 앱에서 저장한 파일입니다`], migratedFrom: null };
+  }
+
+  let migrated: any = data;
+  for (let v = version; v < SNAPSHOT_VERSION; v++) migrated = MIGRATIONS[v](migrated);
+
+  const errors = validateSnapshot(migrated);
+  return {
+    snapshot: errors.length === 0 ? (migrated as AppSnapshot) : null,
+    errors,
+    migratedFrom: version < SNAPSHOT_VERSION ? version : null,
+  };
+}
@@ -0,0 +1,59 @@
+import type { Player, Substitution } from '../types/player';
+
+export interface TeamSheet {
+  players: Player[];
+  bench: Player[];
+  substitutions: Substitution[];
+}
+
+const summary = (player: Player): Substitution['playerIn'] => ({
+  number: player.number,
+  name: player.name,
+  role: player.role,
+  detailedPosition: player.detailedPosition,
+});
+
+/**
+ * Bring bench player `benchIndex` on for starter `starterIndex`. The incoming
+ * player takes the same slot (and grid cell); null when either index is empty
+ * or the starter has been sent off (a red card cannot be replaced).
+ */
+export function applySubstitution(sheet: TeamSheet, starterIndex: number, benchIndex: number, minute: number | null): TeamSheet | null {
+  const outgoing = sheet.players[starterIndex];
+  const incoming = sheet.bench[benchIndex];
+  if (!outgoing || !incoming || outgoing.redCard) return null;
+
+  // 주장 완장은 자동으로 넘기지 않는다 (벤치에서 이미 주장인 경우만 유지)
+  const players = sheet.players.map((p, i) => (i === starterIndex
+    ? {
+      number: incoming.number,
+      name: incoming.name,
+      grid: p.grid,
+      role: incoming.role ?? p.role,
+      detailedPosition: incoming.detailedPosition ?? p.detailedPosition,
+      ...(incoming.captain ? { captain: true } : {}),
+    }
+    : p));
+
+  return {
+    players,
+    bench: sheet.bench.filter((_, i) => i !== benchIndex),
+    substitutions: [
+      ...sheet.substitutions,
+      { minute, playerOut: summary(outgoing), playerIn: summary(incoming), replaced: outgoing, substitute: incoming },
+    ],
+  };
+}
+
+/** Undo the last substitution: the incoming player returns to the bench and the outgoing player to the slot. */
+export function undoLastSubstitution(sheet: TeamSheet): TeamSheet | null {
+  const last = sheet.substitutions[sheet.substitutions.length - 1];
+  if (!last) return null;
+  const index = sheet.players.findIndex((p) => p.number === last.playerIn.number && p.name === last.playerIn.name);
+
+  return {
+    players: index === -1 ? sheet.players : sheet.players.map((p, i) => (i === index ? { ...(last.replaced ?? last.playerOut), grid: p.grid } : p)),
+    bench: [...sheet.bench, last.substitute ?? { ...last.playerIn }],
+    substitutions: sheet.substitutions.slice(0, -1),
+  };
+}
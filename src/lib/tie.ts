@@ -0,0 +1,55 @@
+import type { TieInfo } from '../types/tie';
+
+type Side = 'A' | 'B';
+
+export const DEFAULT_TIE: TieInfo = { roundName: '', leg: null, firstLeg: null, secondLegHost: 'A', awayGoalsRule: false };
+
+export const LEG_LABELS: Record<1 | 2, string> = { 1: '1차전', 2: '2차전' };
+
+export interface AggregateScore {
+  A: number;
+  B: number;
+  /** Away goals over both legs, null when the away goals rule is off. */
+  awayGoals: Record<Side, number> | null;
+  /** Team currently through, null while level. */
+  leader: Side | null;
+  decidedBy: 'aggregate' | 'away-goals' | null;
+  /** Banner text such as "agg. 3–2". */
+  label: string;
+}
+
+/** Aggregate over both legs; null unless this is a second leg with a first-leg score. */
+export function aggregateScore(tie: TieInfo, scoreA: number, scoreB: number): AggregateScore | null {
+  if (tie.leg !== 2 || !tie.firstLeg) return null;
+  const A = tie.firstLeg.A + scoreA;
+  const B = tie.firstLeg.B + scoreB;
+
+  // 2차전 홈팀의 원정골은 1차전 득점, 상대의 원정골은 2차전(현재 경기) 득점
+  const awayGoals = !tie.awayGoalsRule
+    ? null
+    : tie.secondLegHost === 'A'
+      ? { A: tie.firstLeg.A, B: scoreB }
+      : { A: scoreA, B: tie.firstLeg.B };
+  let leader: Side | null = A > B ? 'A' : B > A ? 'B' : null;
+  let decidedBy: AggregateScore['decidedBy'] = leader ? 'aggregate' : null;
+  if (!leader && awayGoals && awayGoals.A !== awayGoals.B) {
+    leader = awayGoals.A > awayGoals.B ? 'A' : 'B';
+    decidedBy = 'away-goals';
+  }
+
+  return { A, B, awayGoals, leader, decidedBy, label: `agg. ${A}–${B}` };
+}
+
+/** The same tie seen with teams A and B exchanged. */
+export function swapTieSides(tie: TieInfo): TieInfo {
+  return {
+    ...tie,
+    firstLeg: tie.firstLeg ? { A: tie.firstLeg.B, B: tie.firstLeg.A } : null,
+    secondLegHost: tie.secondLegHost === 'A' ? 'B' : 'A',
+  };
+}
+
+/** "Round of 16 · 2차전" style heading, empty when nothing to show. */
+export function tieHeading(tie: TieInfo): string {
+  return [tie.roundName.trim(), tie.leg ? LEG_LABELS[tie.leg] : ''].filter(Boolean).join(' · ');
+}
@@ -0,0 +1,67 @@
+import type { MatchClockState } from '../types/clock';
+import type { TimelineEvent, TimelineEventDetail, TimelineEventType } from '../types/timeline';
+import { isPlayingPeriod, readClock } from './match-clock';
+
+export const TIMELINE_TYPE_LABELS: Record<TimelineEventType, string> = {
+  goal: '⚽ 득점',
+  card: '🟨 카드',
+  subst: '🔁 교체',
+};
+
+export const TIMELINE_DETAIL_LABELS: Record<TimelineEventDetail, string> = {
+  normal: '일반',
+  'own-goal': '자책골',
+  penalty: '페널티킥',
+  'missed-penalty': 'PK 실축',
+  yellow: '경고',
+  'second-yellow': '경고 누적 퇴장',
+  red: '퇴장',
+};
+
+// 종류별로 고를 수 있는 detail (첫 번째가 기본값)
+export const TIMELINE_DETAILS: Record<TimelineEventType, TimelineEventDetail[]> = {
+  goal: ['normal', 'penalty', 'own-goal', 'missed-penalty'],
+  card: ['yellow', 'second-yellow', 'red'],
+  subst: ['normal'],
+};
+
+let manualSeq = 0;
+
+export function createManualEventId(): string {
+  manualSeq += 1;
+  return `manual-${Date.now().toString(36)}-${manualSeq}`;
+}
+
+/** "45+2'" style minute label, "-" when unknown. */
+export function formatEventMinute(event: Pick<TimelineEvent, 'minute' | 'extra'>): string {
+  if (event.minute === null) return '-';
+  return event.extra ? `${event.minute}+${event.extra}'` : `${event.minute}'`;
+}
+
+// 현재 시계 기준 이벤트 시간 (추가시간이면 45+2 형태), 시계가 멈춘 구간이면 null
+export function eventTimeFromClock(clock: MatchClockState, now: number = Date.now()): { minute: number; extra: number | null } | null {
+  if (!isPlayingPeriod(clock.period)) return null;
+  const reading = readClock(clock, now);
+  if (reading.addedMinute !== null) return { minute: reading.minute + 1 - reading.addedMinute, extra: reading.addedMinute };
+  return { minute: reading.minute + 1, extra: null };
+}
+
+// 시간순 정렬 (시간 미상은 맨 뒤, 같은 시간은 입력 순서 유지)
+export function sortTimeline(events: TimelineEvent[]): TimelineEvent[] {
+  const key = (e: TimelineEvent) => (e.minute === null ? Number.POSITIVE_INFINITY : e.minute * 100 + (e.extra ?? 0));
+  return events
+    .map((event, index) => ({ event, index }))
+    .sort((a, b) => key(a.event) - key(b.event) || a.index - b.index)
+    .map(({ event }) => event);
+}
+
+/**
+ * Replace the API part of the timeline with a fresh feed. Manual entries stay,
+ * hand-edited API entries keep their local copy and dismissed ids stay deleted.
+ */
+export function mergeApiEvents(current: TimelineEvent[], incoming: TimelineEvent[], dismissedIds: string[]): TimelineEvent[] {
+  const edited = new Map(current.filter((e) => e.source === 'api' && e.edited).map((e) => [e.id, e]));
+  const dismissed = new Set(dismissedIds);
+  const api = incoming.filter((e) => !dismissed.has(e.id)).map((e) => edited.get(e.id) ?? e);
+  return sortTimeline([...api, ...current.filter((e) => e.source === 'manual')]);
+}
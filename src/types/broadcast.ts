@@ -0,0 +1,229 @@
+import type { MatchPeriod } from './clock';
+import type { Kit } from './kit';
+import type { PlayerRole, RedCardReason, SentOffDisplay } from './player';
+import type { StatEntry } from './stats';
+import type { TimelineEventDetail, TimelineEventType } from './timeline';
+
+// Bump whenever a field is renamed, removed or changes meaning.
+// Adding optional fields does not require a bump.
+export const BROADCAST_SCHEMA_VERSION = 1;
+
+export type TeamSide = 'A' | 'B';
+
+export interface BroadcastLogo {
+  id: string;
+  slug: string;
+  country: string;
+  englishName: string;
+  /** Absolute URL on the local logo server, or null when the team has no SVG. */
+  svgUrl: string | null;
+  /** Absolute URL on the local logo server (or API CDN), or null when the team has no PNG. */
+  pngUrl: string | null;
+}
+
+export interface BroadcastTeamInfo {
+  name: string;
+  formation: string;
+  /** Kit colour as a CSS hex string, e.g. "#2563eb". */
+  uniformColor: string;
+  /** Full outfield kit: colours, pattern and sleeves. `uniformColor` equals `kit.primary`. */
+  kit?: Kit;
+  /** Goalkeeper kit colour as a CSS hex string. */
+  goalkeeperColor?: string;
+  logo: BroadcastLogo | null;
+}
+
+export interface BroadcastMatch {
+  scoreA: number;
+  scoreB: number;
+  /** Match clock as "MM:SS", null when unknown. */
+  elapsed: string | null;
+  /** API-Football short status (1H, HT, 2H, FT...), null for manual matches. */
+  status: string | null;
+  teamA: BroadcastTeamInfo;
+  teamB: BroadcastTeamInfo;
+  /** Competition round and two-legged tie context, absent when not set. */
+  tie?: BroadcastTie;
+}
+
+export interface BroadcastTie {
+  /** e.g. "Round of 16"; empty when not set. */
+  roundName: string;
+  /** Leg of a two-legged tie, null for a single match. */
+  leg: 1 | 2 | null;
+  /** First-leg goals of teams A and B (second leg only). */
+  firstLeg: Record<TeamSide, number> | null;
+  /** Aggregate including the current score, null outside a second leg. */
+  aggregate: Record<TeamSide, number> | null;
+  /** Team hosting the second leg. */
+  secondLegHost: TeamSide;
+  /** Away goals over both legs when the away goals rule applies. */
+  awayGoals: Record<TeamSide, number> | null;
+  /** Team currently through on aggregate (or away goals), null while level. */
+  leader: TeamSide | null;
+  decidedBy: 'aggregate' | 'away-goals' | null;
+  /** Ready-made text such as "agg. 3–2", null outside a second leg. */
+  label: string | null;
+}
+
+export interface BroadcastClock {
+  period: MatchPeriod;
+  /** While true, receivers may keep counting from `periodSeconds` using the payload timestamp. */
+  running: boolean;
+  /** Seconds played in the current period when the payload was built. */
+  periodSeconds: number;
+  /** Whole minutes on the match clock, counting earlier periods (47 during 45+2). */
+  minute: number;
+  second: number;
+  /** Minute of added time (the 2 in 45+2), null within regulation. */
+  addedMinute: number | null;
+  /** Announced added time for the current period in minutes, null when not shown. */
+  addedTime: number | null;
+  /** Ready-made label such as "23'", "45+2'", "HT" or "FT". */
+  label: string;
+  periodLength: number;
+  extraTimeLength: number;
+}
+
+export interface BroadcastPlayer {
+  /** Stable slot id, "<team>-<index>". */
+  id: string;
+  team: TeamSide;
+  number: string;
+  name: string;
+  /** Horizontal position on the pitch, 0-100. */
+  x: number;
+  /** Vertical position on the pitch, 0-100. */
+  y: number;
+  /** True once the player has at least one yellow card. */
+  yellowCard: boolean;
+  redCard: boolean;
+  /** Number of yellow cards (2 with a second-yellow red). */
+  yellowCards?: number;
+  /** Why the red card was shown, null without one. */
+  redCardReason?: RedCardReason | null;
+  goals: number;
+  /** GK, DF, MF or FW; falls back to the role of the player's formation line. */
+  role?: PlayerRole;
+  /** Detailed position such as "LB" or "CDM", null when not set. */
+  detailedPosition?: string | null;
+  captain?: boolean;
+}
+
+export interface BroadcastBenchPlayer {
+  number: string;
+  name: string;
+}
+
+export interface BroadcastSubstitution {
+  /** Match minute of the change, null when unknown. */
+  minute: number | null;
+  playerOut: BroadcastBenchPlayer;
+  playerIn: BroadcastBenchPlayer;
+}
+
+export interface BroadcastTimelineEvent {
+  id: string;
+  type: TimelineEventType;
+  /** normal, own-goal, penalty, missed-penalty for goals; yellow, second-yellow, red for cards. */
+  detail: TimelineEventDetail;
+  minute: number | null;
+  /** Added time minutes (the 2 in 45+2), null otherwise. */
+  extra: number | null;
+  /** Team of `player`; an own goal counts for the other side. */
+  team: TeamSide;
+  player: BroadcastBenchPlayer | null;
+  /** Goal assist, or the incoming player for substitutions. */
+  assist: BroadcastBenchPlayer | null;
+}
+
+export interface BroadcastShootoutKick {
+  team: TeamSide;
+  taker: BroadcastBenchPlayer | null;
+  scored: boolean;
+}
+
+export interface BroadcastShootout {
+  active: boolean;
+  firstTeam: TeamSide;
+  /** Kicks of both teams in the order taken. */
+  kicks: BroadcastShootoutKick[];
+  score: Record<TeamSide, number>;
+  /** Per team results by round (true scored, false missed, null not taken); at least 5 rounds. */
+  rounds: Record<TeamSide, (boolean | null)[]>;
+  suddenDeath: boolean;
+  winner: TeamSide | null;
+  nextTeam: TeamSide | null;
+}
+
+export interface BroadcastPayload {
+  schemaVersion: typeof BROADCAST_SCHEMA_VERSION;
+  /** Milliseconds since the Unix epoch when the payload was built. */
+  timestamp: number;
+  verticalMode: boolean;
+  /** Operator choice for sent-off players: keep, fade or remove them from the graphic. */
+  sentOffDisplay?: SentOffDisplay;
+  match: BroadcastMatch;
+  /** Match clock, absent when the sender does not track one. */
+  clock?: BroadcastClock;
+  teams: Record<TeamSide, BroadcastPlayer[]>;
+  /** Substitutes still available on the bench. */
+  bench: Record<TeamSide, BroadcastBenchPlayer[]>;
+  /** Substitutions made so far, in match order. */
+  substitutions: Record<TeamSide, BroadcastSubstitution[]>;
+  /** Goals, cards and substitutions of both teams in match order. */
+  events?: BroadcastTimelineEvent[];
+  /** Penalty shootout; `active` is false outside a shootout. */
+  shootout?: BroadcastShootout;
+  stats: Record<TeamSide, StatEntry[]>;
+}
+
+/**
+ * Delta mode wire messages. A receiver applies each delta whose `baseSeq` equals
+ * the last `seq` it saw; on a gap it sends `{ "type": "resync" }` back (to the
+ * sender's UDP source port or over the WebSocket) or waits for the next keyframe.
+ */
+export interface BroadcastKeyframeMessage {
+  type: 'keyframe';
+  seq: number;
+  timestamp: number;
+  data: BroadcastPayload;
+}
+
+export type BroadcastChange =
+  | { op: 'player-moved'; team: TeamSide; id: string; x: number; y: number }
+  | {
+      op: 'card-changed';
+      team: TeamSide;
+      id: string;
+      yellowCard: boolean;
+      redCard: boolean;
+      yellowCards?: number;
+      redCardReason?: RedCardReason | null;
+      /** Card fields the player no longer has. */
+      unset?: (keyof BroadcastPlayer)[];
+    }
+  | {
+      op: 'player-updated';
+      team: TeamSide;
+      id: string;
+      fields: Partial<BroadcastPlayer>;
+      /** Fields removed from the player, e.g. "captain" after the armband moves. */
+      unset?: (keyof BroadcastPlayer)[];
+    }
+  | { op: 'score-changed'; scoreA: number; scoreB: number }
+  /** Replaces the value at a dotted path such as "match.elapsed" or "bench". */
+  | { op: 'set'; path: string; value: unknown }
+  /** Removes the value at a dotted path, e.g. "match.tie" once the tie is cleared. */
+  | { op: 'unset'; path: string };
+
+export interface BroadcastDeltaMessage {
+  type: 'delta';
+  seq: number;
+  /** seq of the message this delta applies on top of. */
+  baseSeq: number;
+  timestamp: number;
+  changes: BroadcastChange[];
+}
+
+export type BroadcastDeltaStreamMessage = BroadcastKeyframeMessage | BroadcastDeltaMessage;
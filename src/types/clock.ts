@@ -0,0 +1,17 @@
+/** NS before kick-off, BT the break before/within extra time, PEN the shootout. */
+export type MatchPeriod = 'NS' | '1H' | 'HT' | '2H' | 'BT' | 'ET1' | 'ET2' | 'PEN' | 'FT';
+
+export interface MatchClockState {
+  period: MatchPeriod;
+  running: boolean;
+  /** Seconds played in the current period up to `startedAt` (the whole period while paused). */
+  baseSeconds: number;
+  /** Epoch ms when the clock was last started or resumed, null while paused. */
+  startedAt: number | null;
+  /** Regular half length in minutes. */
+  periodLength: number;
+  /** Extra-time half length in minutes. */
+  extraTimeLength: number;
+  /** Announced added time for the current period in minutes, null when not shown. */
+  addedTime: number | null;
+}
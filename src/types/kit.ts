@@ -0,0 +1,13 @@
+export type KitPattern = 'solid' | 'stripes' | 'hoops' | 'halves' | 'sash';
+
+/** A team's outfield shirt. Colours are CSS hex strings. */
+export interface Kit {
+  primary: string;
+  /** Second colour used by the pattern and contrasting sleeves. */
+  secondary: string;
+  /** Shirt number colour. */
+  number: string;
+  pattern: KitPattern;
+  /** Sleeves in the secondary colour. */
+  contrastSleeves: boolean;
+}
@@ -0,0 +1,104 @@
+import type { StatEntry } from './stats';
+
+// Feed-independent match data. Providers (API-Football, mock, manual entry...)
+// translate their own responses into these shapes so the UI never sees raw JSON.
+
+export interface FeedTeam {
+  id: string;
+  name: string;
+  logo: string | null;
+  country: string | null;
+}
+
+export interface FixtureStatus {
+  /** Short status code in API-Football's vocabulary: NS, 1H, HT, 2H, ET, P, FT, AET, PEN... */
+  short: string;
+  /** Minutes played, null before kick-off. */
+  elapsed: number | null;
+  /** Minutes of added time played (the 2 in 45+2), null outside stoppage time. */
+  extra: number | null;
+}
+
+export interface FixtureSummary {
+  id: string;
+  /** Kick-off, seconds since the Unix epoch. */
+  timestamp: number;
+  league: string;
+  /** Competition round as named by the feed, e.g. "Round of 16", null when not given. */
+  round: string | null;
+  status: FixtureStatus;
+  home: FeedTeam;
+  away: FeedTeam;
+  goals: { home: number | null; away: number | null };
+}
+
+export interface LineupEntry {
+  id: string | null;
+  number: string;
+  name: string;
+  /** Position code from the feed (G, D, M, F), null when unknown. */
+  position: string | null;
+  /** Grid cell "row:col" from the feed, null for substitutes or unknown. */
+  grid: string | null;
+  /** True for the team captain when the feed reports one. */
+  captain: boolean;
+}
+
+/** Kit colours as CSS hex strings, null when the feed has none. */
+export interface TeamKitColors {
+  player: string | null;
+  goalkeeper: string | null;
+}
+
+export interface TeamLineup {
+  team: FeedTeam;
+  /** Formation without the goalkeeper, e.g. "4-3-3". */
+  formation: string;
+  colors: TeamKitColors;
+  startXI: LineupEntry[];
+  substitutes: LineupEntry[];
+}
+
+export interface MatchLineups {
+  home: TeamLineup;
+  away: TeamLineup;
+}
+
+export type MatchEventType = 'goal' | 'card' | 'subst' | 'var' | 'other';
+
+export interface EventPlayer {
+  id: string | null;
+  name: string | null;
+}
+
+export interface MatchEvent {
+  minute: number | null;
+  /** Added time minutes (the 2 in 45+2), null otherwise. */
+  extra: number | null;
+  teamId: string;
+  type: MatchEventType;
+  /** Feed detail text such as "Normal Goal", "Own Goal", "Yellow Card", "Substitution 1". */
+  detail: string;
+  player: EventPlayer | null;
+  /** Goal assist, or the incoming player for substitutions (player is the one going off). */
+  assist: EventPlayer | null;
+  /** Free-text feed note, e.g. "Foul", "Second Yellow card" or "Penalty Shootout". */
+  comments: string | null;
+}
+
+export interface MatchStats {
+  home: StatEntry[];
+  away: StatEntry[];
+}
+
+export interface MatchDataProvider {
+  /** Fixtures kicking off on `date` (YYYY-MM-DD), sorted by kick-off. */
+  listFixtures(date: string): Promise<FixtureSummary[]>;
+  /** Current status and score of one fixture, null when the feed does not know it. */
+  getFixture(fixtureId: string): Promise<FixtureSummary | null>;
+  /** Starting line-ups, null while the feed has not published them. */
+  getLineups(fixtureId: string): Promise<MatchLineups | null>;
+  /** Events so far in match order. */
+  getEvents(fixtureId: string): Promise<MatchEvent[]>;
+  getStats(fixtureId: string): Promise<MatchStats>;
+}
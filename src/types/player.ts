@@ -0,0 +1,36 @@
+export type RedCardReason = 'straight' | 'second-yellow';
+
+/** How sent-off players appear on the pitch. */
+export type SentOffDisplay = 'show' | 'dim' | 'hide';
+
+/** Position group, used for layout and colour-coded lines in the graphics. */
+export type PlayerRole = 'GK' | 'DF' | 'MF' | 'FW';
+
+export interface Player {
+  number: string;
+  name: string;
+  /** Yellow cards shown to the player (2 with a second-yellow red). */
+  yellowCards?: number;
+  redCard?: boolean;
+  /** Why the red card was shown, set whenever `redCard` is true. */
+  redCardReason?: RedCardReason;
+  goals?: number;
+  /** API-Football grid "row:col" of the starting slot, kept by whoever takes the slot. */
+  grid?: string | null;
+  /** Unset means the role implied by the player's formation line. */
+  role?: PlayerRole;
+  /** Detailed position such as "LB", "CDM" or "RW". */
+  detailedPosition?: string;
+  /** Wears the captain's armband. */
+  captain?: boolean;
+}
+
+export interface Substitution {
+  minute: number | null;
+  playerOut: Pick<Player, 'number' | 'name' | 'role' | 'detailedPosition'>;
+  playerIn: Pick<Player, 'number' | 'name' | 'role' | 'detailedPosition'>;
+  /** The outgoing player as they left (cards, goals, captain), restored when a manual substitution is undone. */
+  replaced?: Player;
+  /** The incoming player as they were on the bench, returned there when a manual substitution is undone. */
+  substitute?: Player;
+}
@@ -0,0 +1,21 @@
+import type { PlayerRole } from './player';
+
+/** A squad member saved in the local roster library. */
+export interface RosterPlayer {
+  number: string;
+  name: string;
+  /** Name shown on the pitch, e.g. "Saka" for "Bukayo Saka". */
+  shortName?: string;
+  role?: PlayerRole;
+  /** Photo file path or URL. */
+  photo?: string | null;
+}
+
+/** Squads keyed by team-index id, e.g. "england/arsenal". */
+export type RosterLibrary = Record<string, RosterPlayer[]>;
+
+/** Shape of an exported roster file. */
+export interface RosterFile {
+  version: 1;
+  rosters: RosterLibrary;
+}
@@ -0,0 +1,16 @@
+import type { TimelinePlayer } from './timeline';
+
+export interface ShootoutKick {
+  team: 'A' | 'B';
+  taker: TimelinePlayer | null;
+  scored: boolean;
+  source: 'api' | 'manual';
+}
+
+export interface ShootoutState {
+  active: boolean;
+  /** Team taking the first kick of every round. */
+  firstTeam: 'A' | 'B';
+  /** Kicks in the order they were taken. */
+  kicks: ShootoutKick[];
+}
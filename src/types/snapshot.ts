@@ -0,0 +1,58 @@
+import type { TeamEntry } from '../components/TeamSearch';
+import type { MatchClockState } from './clock';
+import type { Formation } from './formation';
+import type { Kit } from './kit';
+import type { Player, Substitution } from './player';
+import type { ShootoutState } from './shootout';
+import type { StatEntry } from './stats';
+import type { TieInfo } from './tie';
+import type { TimelineEvent } from './timeline';
+
+export type PlayerOffsets = Record<number, { x: number; y: number }>;
+
+/** Fixture picked in the live matches dialog, both null for a manual match. */
+export interface SnapshotFixture {
+  id: string | null;
+  /** API-Football status code, e.g. "2H". */
+  status: string | null;
+}
+
+/**
+ * Saved app state (lineup JSON file and autosaves), current format version.
+ * Only `version` is required; missing fields leave the current state as is.
+ */
+export interface AppSnapshot {
+  version: 2;
+  formation?: Formation;
+  players?: Player[];
+  bench?: Player[];
+  substitutions?: Substitution[];
+  /** Same as `kit.primary`, kept for readers of older files. */
+  uniformColor?: string;
+  kit?: Kit;
+  goalkeeperColor?: string;
+  /** Dragged positions by player index. */
+  overrides?: PlayerOffsets;
+  formationB?: Formation;
+  playersB?: Player[];
+  benchB?: Player[];
+  substitutionsB?: Substitution[];
+  uniformColorB?: string;
+  kitB?: Kit;
+  goalkeeperColorB?: string;
+  overridesB?: PlayerOffsets;
+  teamNameA?: string;
+  teamLogoA?: TeamEntry | null;
+  teamNameB?: string;
+  teamLogoB?: TeamEntry | null;
+  scoreA?: number;
+  scoreB?: number;
+  verticalMode?: boolean;
+  matchClock?: MatchClockState;
+  timeline?: TimelineEvent[];
+  dismissedEventIds?: string[];
+  shootout?: ShootoutState;
+  tie?: TieInfo;
+  matchStats?: { A: StatEntry[]; B: StatEntry[] };
+  fixture?: SnapshotFixture;
+}
@@ -0,0 +1,4 @@
+export interface StatEntry {
+  type: string;
+  value: string;
+}
@@ -0,0 +1,12 @@
+export interface TieInfo {
+  /** Competition round shown in the banner, e.g. "Round of 16"; empty to hide. */
+  roundName: string;
+  /** Leg of a two-legged tie, null for a single match. */
+  leg: 1 | 2 | null;
+  /** First-leg goals of the current teams A and B; only used in the second leg. */
+  firstLeg: { A: number; B: number } | null;
+  /** Team hosting the second leg (the current match); swapped with the teams. */
+  secondLegHost: 'A' | 'B';
+  /** Level aggregates are decided by away goals. */
+  awayGoalsRule: boolean;
+}
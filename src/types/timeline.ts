@@ -0,0 +1,32 @@
+import type { Player } from './player';
+
+export type TimelineEventType = 'goal' | 'card' | 'subst';
+
+export type TimelineEventDetail =
+  | 'normal'
+  | 'own-goal'
+  | 'penalty'
+  | 'missed-penalty'
+  | 'yellow'
+  | 'second-yellow'
+  | 'red';
+
+export type TimelinePlayer = Pick<Player, 'number' | 'name'>;
+
+export interface TimelineEvent {
+  /** Stable id; API events derive it from the feed so refreshes update rather than duplicate. */
+  id: string;
+  type: TimelineEventType;
+  detail: TimelineEventDetail;
+  minute: number | null;
+  /** Added time minutes (the 2 in 45+2), null otherwise. */
+  extra: number | null;
+  /** Team of `player`; an own goal counts for the other side. */
+  team: 'A' | 'B';
+  player: TimelinePlayer | null;
+  /** Goal assist, or the incoming player for substitutions (player is the one going off). */
+  assist: TimelinePlayer | null;
+  source: 'api' | 'manual';
+  /** Set when an API event was corrected by hand; refreshes then keep the local copy. */
+  edited?: boolean;
+}